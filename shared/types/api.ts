@@ -1,7 +1,32 @@
+/**
+ * How tool calls are exchanged with the model.
+ * - "xml": tools are described in the system prompt and parsed from XML tags
+ * - "native": tools are sent as function definitions and returned as tool_calls
+ */
+export type ToolProtocol = "xml" | "native";
+
+/**
+ * Wire format of the LLM endpoint.
+ * - "openai": OpenAI-compatible Chat Completions API
+ * - "anthropic": Anthropic Messages API
+ */
+export type ApiProvider = "openai" | "anthropic";
+
 export interface ApiConfiguration {
+  provider?: ApiProvider;
   baseUrl: string;
   model: string;
   apiKey: string;
   temperature?: number;
   maxTokens?: number;
+  toolProtocol?: ToolProtocol;
+}
+
+/**
+ * Named API configuration that work modes can be assigned to.
+ * The API key of each profile is kept in secret storage.
+ */
+export interface ModelProfile extends ApiConfiguration {
+  id: string;
+  name: string;
 }
@@ -0,0 +1,15 @@
+/**
+ * A checkpoint is taken at the start of each task and before each tool call
+ * that changes a file
+ */
+export type CheckpointKind = "task_start" | "tool_call";
+
+export interface CheckpointSummary {
+  id: string;
+  taskId: string;
+  kind: CheckpointKind;
+  label: string;
+  createdAt: string;
+  toolName?: string;
+  toolCallId?: string;
+}
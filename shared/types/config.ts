@@ -1,15 +1,36 @@
-import type { ApiConfiguration } from "./api";
+import type {
+  ApiConfiguration,
+  ApiProvider,
+  ModelProfile,
+  ToolProtocol,
+} from "./api";
+import type { WorkMode } from "./modes";
+import type { PermissionRule } from "./permissions";
 
 export type ApiConfigurationWithDefaults = ApiConfiguration & {
+  provider: ApiProvider;
   temperature: number;
   maxTokens: number;
+  toolProtocol: ToolProtocol;
 };
 
+export type ModelProfileWithDefaults = ModelProfile &
+  ApiConfigurationWithDefaults;
+
+/**
+ * Profile id assigned to each work mode. Modes without an entry use `api`.
+ */
+export type ModeProfileAssignments = Partial<Record<WorkMode, string>>;
+
 export interface PermissionSettings {
   allowReadByDefault: boolean;
   allowWriteByDefault: boolean;
   allowExecuteByDefault: boolean;
   alwaysConfirm?: string[];
+  /** Keep file edits in memory until the user reviews and commits them */
+  stageEdits: boolean;
+  /** Allow, deny and ask rules, only editable in settings.json */
+  rules?: PermissionRule[];
 }
 
 export const DEFAULT_PERMISSION_SETTINGS: Required<PermissionSettings> = {
@@ -17,15 +38,183 @@ export const DEFAULT_PERMISSION_SETTINGS: Required<PermissionSettings> = {
   allowWriteByDefault: false,
   allowExecuteByDefault: false,
   alwaysConfirm: ["delete", "execute"],
+  stageEdits: false,
+  rules: [],
+};
+
+/**
+ * Limits on the command lines run by the command tools
+ */
+export interface CommandPolicySettings {
+  /** Programs that may run; an empty list allows all but the denied ones */
+  allowedCommands: string[];
+  /** Programs that may never run */
+  deniedCommands: string[];
+  /** Allow `;`, `&&`, `||`, `|`, `&` and substitutions in command lines */
+  allowChaining: boolean;
+  /** Environment variables hidden from commands, `*` matches any characters */
+  sensitiveEnvPatterns: string[];
+  /** Workspace-relative directory commands have to run in; empty for any */
+  restrictedCwd: string;
+}
+
+export const DEFAULT_COMMAND_POLICY_SETTINGS: CommandPolicySettings = {
+  allowedCommands: [],
+  deniedCommands: ["sudo", "su", "doas"],
+  allowChaining: true,
+  sensitiveEnvPatterns: [
+    "*API_KEY*",
+    "*ACCESS_KEY*",
+    "*PRIVATE_KEY*",
+    "*SECRET*",
+    "*TOKEN*",
+    "*PASSWORD*",
+    "*PASSWD*",
+    "*CREDENTIAL*",
+    "AWS_*",
+  ],
+  restrictedCwd: "",
+};
+
+/**
+ * Where the file tools may read and write, beyond the workspace folders
+ */
+export interface PathSandboxSettings {
+  /** Absolute directories outside the workspace the tools may access */
+  additionalRoots: string[];
+  /**
+   * Globs of paths the tools may not access, matched against the path
+   * relative to its root. Patterns without a `/` match a file or directory
+   * name at any depth.
+   */
+  deniedPaths: string[];
+}
+
+export const DEFAULT_PATH_SANDBOX_SETTINGS: PathSandboxSettings = {
+  additionalRoots: [],
+  deniedPaths: [".env", ".env.local", "**/secrets/**"],
+};
+
+/**
+ * Backend that turns code chunks and queries into vectors: a deterministic
+ * offline stand-in, or an OpenAI-compatible `/embeddings` endpoint such as
+ * a local model server
+ */
+export type EmbeddingProviderType = "hashing" | "openai-compatible";
+
+/**
+ * Semantic index of the workspace used by `search_codebase`
+ */
+export interface CodebaseIndexSettings {
+  enabled: boolean;
+  embeddingProvider: EmbeddingProviderType;
+  /** Endpoint of the embedding API; empty to use the chat API base URL */
+  embeddingBaseUrl: string;
+  embeddingModel: string;
+  /** Files indexed at most, larger workspaces are indexed partially */
+  maxFiles: number;
+}
+
+export const DEFAULT_CODEBASE_INDEX_SETTINGS: CodebaseIndexSettings = {
+  enabled: false,
+  embeddingProvider: "hashing",
+  embeddingBaseUrl: "",
+  embeddingModel: "text-embedding-3-small",
+  maxFiles: 5000,
 };
 
+/**
+ * Automatic summarization of older turns when the context window fills up
+ */
+export interface CompactionSettings {
+  enabled: boolean;
+  /** Fraction of the context window that triggers compaction (0-1) */
+  threshold: number;
+  /** Number of most recent turns kept verbatim */
+  keepRecentTurns: number;
+  /** Workspace-relative files whose latest content survives compaction */
+  pinnedFiles?: string[];
+}
+
+export const DEFAULT_COMPACTION_SETTINGS: Required<CompactionSettings> = {
+  enabled: true,
+  threshold: 0.8,
+  keepRecentTurns: 4,
+  pinnedFiles: [],
+};
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  /** Price of cached input reads, defaults to the input price */
+  cacheReadPerMillion?: number;
+  /** Price of cache writes, defaults to the input price */
+  cacheWritePerMillion?: number;
+}
+
+/**
+ * Model prices keyed by model name. Keys also match as model name prefixes.
+ */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/**
+ * Cost tracking and the per-conversation spend cap
+ */
+export interface CostSettings {
+  modelPrices?: ModelPriceTable;
+  /** Spend in USD after which each request needs approval; 0 disables the cap */
+  spendCap: number;
+}
+
+export const DEFAULT_COST_SETTINGS: Required<CostSettings> = {
+  modelPrices: {},
+  spendCap: 0,
+};
+
+/**
+ * Model Context Protocol server. Stdio servers set `command`, HTTP servers
+ * set `url`.
+ */
+export interface McpServerConfig {
+  command?: string;
+  args?: string[];
+  /** Extra environment variables of the server process */
+  env?: Record<string, string>;
+  url?: string;
+  /** Transport of `url` servers, defaults to streamable HTTP */
+  transport?: "http" | "sse";
+  disabled?: boolean;
+}
+
+/**
+ * MCP servers keyed by server name. Tool names are prefixed with the
+ * server name.
+ */
+export type McpServerTable = Record<string, McpServerConfig>;
+
 export interface AdvancedConfiguration {
   maxLoopCount: number;
+  /** Maximum number of read-only tool calls that run at the same time */
+  maxParallelToolCalls: number;
   contextWindowSize: number;
+  compaction: CompactionSettings;
+  cost: CostSettings;
+  mcpServers?: McpServerTable;
+  /** Only editable in settings.json */
+  commandPolicy?: CommandPolicySettings;
+  /** Only editable in settings.json */
+  pathSandbox?: PathSandboxSettings;
+  /** Only editable in settings.json */
+  codebaseIndex?: CodebaseIndexSettings;
 }
 
 export interface AgentConfiguration {
   api: ApiConfigurationWithDefaults;
+  profiles: ModelProfileWithDefaults[];
+  modeProfiles: ModeProfileAssignments;
   permissions: PermissionSettings;
   advanced: AdvancedConfiguration;
 }
@@ -19,8 +19,12 @@ export interface DisplayMessage {
   timestamp: Date;
   toolCalls?: ToolUse[];
   toolResults?: ToolResult[];
+  /** Output of a running command, shown until its result arrives */
+  commandOutput?: string;
   isStreaming?: boolean;
   isError?: boolean;
   permissionRequest?: PermissionRequestWithId;
   diffPreview?: TaskDiff;
+  /** Checkpoint taken right before this message */
+  checkpointId?: string;
 }
@@ -7,15 +7,53 @@ export interface DiffLine {
   newLineNumber?: number;
 }
 
+/**
+ * A run of consecutive changed lines within FileDiff.lines
+ */
+export interface DiffHunk {
+  /** Index of the first line of the hunk in FileDiff.lines */
+  startIndex: number;
+  /** Index after the last line of the hunk */
+  endIndex: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
 export interface FileDiff {
   path: string;
   added: number;
   removed: number;
   lines: DiffLine[];
+  hunks: DiffHunk[];
+}
+
+/**
+ * Indexes of the rejected hunks of each file, keyed by file path.
+ * Hunks that are not listed are kept.
+ */
+export type DiffReviewDecisions = Record<string, number[]>;
+
+export interface FileReviewResult {
+  path: string;
+  keptHunks: number;
+  rejectedHunks: number;
+  /** Set when the file could not be reverted; its content is left unchanged */
+  error?: string;
+}
+
+export interface DiffReviewSummary {
+  taskId: string;
+  keptHunks: number;
+  rejectedHunks: number;
+  files: FileReviewResult[];
 }
 
 export interface TaskDiff {
   taskId: string;
+  /** Checkpoint taken at the start of the task */
+  checkpointId?: string;
   createdAt: string;
   summary: {
     filesChanged: number;
@@ -1,26 +1,58 @@
 import type { ApiConfiguration } from "./api";
+import type { CheckpointSummary } from "./checkpoints";
 import type { ConversationSummary, DisplayMessage } from "./conversation";
 import type { AgentConfiguration, ValidationErrors } from "./config";
-import type { WorkMode } from "./modes";
+import type { ModeSummary, WorkMode } from "./modes";
 import type { OperationRecord } from "./operations";
-import type { PermissionRequestWithId } from "./permissions";
-import type { TaskDiff } from "./diff";
+import type {
+  PermissionRequestWithId,
+  PermissionRuleScope,
+} from "./permissions";
+import type { DiffReviewSummary, TaskDiff } from "./diff";
 import type { ToolResult, ToolUse } from "./tools";
 
 export type { ApiConfiguration } from "./api";
+export type { CheckpointKind, CheckpointSummary } from "./checkpoints";
 export type { ConversationSummary, DisplayMessage, MessageRole } from "./conversation";
 export type { AgentConfiguration, ValidationErrors } from "./config";
-export type { TaskDiff } from "./diff";
-export type { WorkMode } from "./modes";
+export type { DiffReviewSummary, TaskDiff } from "./diff";
+export type { ModeSummary, WorkMode } from "./modes";
 export type { OperationRecord, OperationType } from "./operations";
-export type { PermissionRequest, PermissionRequestWithId } from "./permissions";
+export type {
+  PermissionRequest,
+  PermissionRequestWithId,
+  PermissionRule,
+  PermissionRuleScope,
+} from "./permissions";
 export type { ToolResult, ToolUse } from "./tools";
 
+/**
+ * Locally estimated prompt tokens by source
+ */
+export interface PromptTokenBreakdown {
+  systemTokens: number;
+  messageTokens: number;
+  toolResultTokens: number;
+}
+
 export interface TokenUsageSnapshot {
   totalTokens: number;
   availableTokens: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  breakdown?: PromptTokenBreakdown;
+  /** True when the counts come from the local tokenizer instead of the provider */
+  estimated?: boolean;
+  /** Spend in USD, only set when the model has a configured price */
+  taskCost?: number;
+  conversationCost?: number;
 }
 
+/**
+ * Model label used by each work mode, e.g. "Fast (gpt-4o-mini)"
+ */
+export type ModeModels = Partial<Record<WorkMode, string>>;
+
 export type ConfigMessage =
   | { type: "get_configuration" }
   | { type: "save_configuration"; config: AgentConfiguration }
@@ -44,10 +76,20 @@ export type WebviewMessage =
   | { type: "stream_chunk"; content: string; isStreaming: boolean }
   | { type: "tool_call"; toolCall: ToolUse }
   | { type: "tool_result"; content: ToolResult }
+  | {
+      type: "command_output";
+      /** Only set for native tool calls; match XML calls by tool name */
+      toolCallId?: string;
+      toolName: string;
+      chunk: string;
+    }
   | { type: "task_diff"; diff: TaskDiff }
+  | { type: "diff_review_applied"; summary: DiffReviewSummary }
   | { type: "error"; message: string }
   | { type: "task_complete" }
   | { type: "mode_changed"; mode: WorkMode }
+  | { type: "mode_models"; models: ModeModels }
+  | { type: "mode_list"; modes: ModeSummary[]; currentMode: WorkMode }
   | { type: "conversation_cleared" }
   | { type: "operation_recorded"; operation: OperationRecord }
   | { type: "operation_history"; operations: OperationRecord[] }
@@ -67,12 +109,16 @@ export type WebviewMessage =
   | { type: "configuration_imported"; success: boolean; error?: string }
   | { type: "validation_error"; errors: ValidationErrors }
   | { type: "token_usage"; usage: TokenUsageSnapshot }
+  | { type: "context_compacted"; summarizedMessages: number }
+  | { type: "checkpoint_created"; checkpoint: CheckpointSummary }
   | { type: "permission_request"; request: PermissionRequestWithId }
   | { type: "set_input_value"; value: string };
 
 export type UserMessage =
   | { type: "user_message"; content: string }
   | { type: "mode_change"; mode: WorkMode }
+  | { type: "get_mode_models" }
+  | { type: "get_modes" }
   | { type: "clear_conversation" }
   | { type: "clear_conversation_history" }
   | { type: "new_conversation" }
@@ -84,7 +130,14 @@ export type UserMessage =
   | { type: "switch_conversation"; conversationId: string }
   | { type: "delete_conversation"; conversationId: string }
   | { type: "open_diff_panel"; diff: TaskDiff; filePath?: string }
+  | { type: "restore_checkpoint"; checkpointId: string }
   | { type: "get_configuration" }
   | { type: "save_configuration"; config: AgentConfiguration }
   | { type: "test_connection"; apiConfig: ApiConfiguration }
-  | { type: "permission_response"; requestId: string; approved: boolean };
+  | {
+      type: "permission_response";
+      requestId: string;
+      approved: boolean;
+      /** Remember the suggested rule of the request in this scope */
+      remember?: PermissionRuleScope;
+    };
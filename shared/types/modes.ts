@@ -1 +1,18 @@
-export type WorkMode = "architect" | "code" | "ask" | "debug";
+export type BuiltInWorkMode = "architect" | "code" | "ask" | "debug";
+
+/**
+ * A built-in mode, or the id of a custom mode from `.codesidecar/modes`
+ */
+export type WorkMode = BuiltInWorkMode | (string & {});
+
+/**
+ * Mode as listed in the mode selector
+ */
+export interface ModeSummary {
+  id: WorkMode;
+  name: string;
+  description: string;
+  icon: string;
+  /** True for modes loaded from the workspace */
+  custom: boolean;
+}
@@ -3,6 +3,36 @@ export interface PermissionRequest {
   operation: string;
   target: string;
   details: string;
+  /** File path of the call, matched against the `path` of permission rules */
+  path?: string;
+  /** Command line of the call, matched against the `command` of permission rules */
+  command?: string;
 }
 
-export type PermissionRequestWithId = PermissionRequest & { id: string };
+export type PermissionRequestWithId = PermissionRequest & {
+  id: string;
+  /** Rule the user can choose to remember when approving the request */
+  suggestedRule?: PermissionRule;
+};
+
+export type PermissionRuleAction = "allow" | "deny" | "ask";
+
+/**
+ * Permission rule matched against tool calls. Fields that are not set match
+ * any call. Deny rules win over ask rules, which win over allow rules, and
+ * any matching rule wins over the default permission settings.
+ */
+export interface PermissionRule {
+  action: PermissionRuleAction;
+  /** Tool name, `*` matches any characters */
+  tool?: string;
+  /** Operation such as read, write or execute */
+  operation?: string;
+  /** Glob matched against the workspace-relative path, e.g. `dist/**` */
+  path?: string;
+  /** Command pattern, `*` matches any characters, e.g. `npm test*` */
+  command?: string;
+}
+
+/** How long a remembered permission choice is kept */
+export type PermissionRuleScope = "session" | "workspace";
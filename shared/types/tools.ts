@@ -7,10 +7,21 @@ export interface ToolUse {
   partial?: boolean;
 }
 
+/**
+ * Machine-readable cause of a failed tool call
+ */
+export interface ToolResultError {
+  /** Kind of failure, e.g. "command_blocked" */
+  code: string;
+  /** Check that failed, e.g. the violated policy rule */
+  reason?: string;
+}
+
 export interface ToolResult {
   type: "tool_result";
   tool_name: string;
   content: string;
   is_error: boolean;
   tool_call_id?: string;
+  error?: ToolResultError;
 }
@@ -2,12 +2,34 @@ import * as vscode from "vscode";
 
 import { logger } from "code-sidecar-shared/utils/logger";
 
-import { ApiConfiguration } from "code-sidecar-shared/types/api";
 import {
+  ApiConfiguration,
+  ApiProvider,
+  ModelProfile,
+  ToolProtocol,
+} from "code-sidecar-shared/types/api";
+import {
+  DEFAULT_CODEBASE_INDEX_SETTINGS,
+  DEFAULT_COMMAND_POLICY_SETTINGS,
+  DEFAULT_COMPACTION_SETTINGS,
+  DEFAULT_COST_SETTINGS,
+  DEFAULT_PATH_SANDBOX_SETTINGS,
   DEFAULT_PERMISSION_SETTINGS,
   type AgentConfiguration,
+  type EmbeddingProviderType,
+  type McpServerTable,
+  type ModeProfileAssignments,
+  type ModelPriceTable,
+  type ModelProfileWithDefaults,
   type PermissionSettings,
 } from "code-sidecar-shared/types/config";
+import type { WorkMode } from "code-sidecar-shared/types/modes";
+import type { PermissionRule } from "code-sidecar-shared/types/permissions";
+
+/**
+ * Profile as stored in settings; the API key lives in secret storage
+ */
+type StoredModelProfile = Omit<ModelProfile, "apiKey">;
 
 /**
  * ConfigurationManager handles reading, saving, and validating plugin configuration
@@ -15,6 +37,8 @@ import {
 export class ConfigurationManager {
   private static readonly CONFIG_SECTION = "codeSidecar";
   private static readonly API_KEY_SECRET = "codeSidecar.apiKey";
+  private static readonly PROFILE_API_KEY_SECRET_PREFIX = "codeSidecar.apiKey.";
+  private static readonly WORKSPACE_RULES_KEY = "codeSidecar.permissionRules";
 
   constructor(private context: vscode.ExtensionContext) {}
 
@@ -50,15 +74,24 @@ export class ConfigurationManager {
     // Get API key from secure storage (Requirement 10.2)
     const apiKey = await this.getApiKey();
     const permissionDefaults = DEFAULT_PERMISSION_SETTINGS;
+    const compactionDefaults = DEFAULT_COMPACTION_SETTINGS;
+    const costDefaults = DEFAULT_COST_SETTINGS;
+    const commandPolicyDefaults = DEFAULT_COMMAND_POLICY_SETTINGS;
+    const pathSandboxDefaults = DEFAULT_PATH_SANDBOX_SETTINGS;
+    const codebaseIndexDefaults = DEFAULT_CODEBASE_INDEX_SETTINGS;
 
     const pluginConfig: AgentConfiguration = {
       api: {
+        provider: config.get<ApiProvider>("api.provider", "openai"),
         baseUrl: config.get<string>("api.baseUrl", ""),
         model: config.get<string>("api.model", ""),
         apiKey: apiKey || "",
         temperature: config.get<number>("api.temperature", 0.7),
         maxTokens: config.get<number>("api.maxTokens", 4096),
+        toolProtocol: config.get<ToolProtocol>("api.toolProtocol", "xml"),
       },
+      profiles: await this.getProfiles(),
+      modeProfiles: config.get<ModeProfileAssignments>("modeProfiles", {}),
       permissions: {
         allowReadByDefault: config.get<boolean>(
           "permissions.allowReadByDefault",
@@ -76,10 +109,102 @@ export class ConfigurationManager {
           "permissions.alwaysConfirm",
           permissionDefaults.alwaysConfirm
         ),
+        stageEdits: config.get<boolean>(
+          "permissions.stageEdits",
+          permissionDefaults.stageEdits
+        ),
+        rules: [
+          ...config.get<PermissionRule[]>(
+            "permissions.rules",
+            permissionDefaults.rules
+          ),
+          ...this.getWorkspacePermissionRules(),
+        ],
       },
       advanced: {
         maxLoopCount: config.get<number>("maxLoopCount", 25),
+        maxParallelToolCalls: config.get<number>("maxParallelToolCalls", 4),
         contextWindowSize: config.get<number>("contextWindowSize", 100000),
+        compaction: {
+          enabled: config.get<boolean>(
+            "compaction.enabled",
+            compactionDefaults.enabled
+          ),
+          threshold: config.get<number>(
+            "compaction.threshold",
+            compactionDefaults.threshold
+          ),
+          keepRecentTurns: config.get<number>(
+            "compaction.keepRecentTurns",
+            compactionDefaults.keepRecentTurns
+          ),
+          pinnedFiles: config.get<string[]>(
+            "compaction.pinnedFiles",
+            compactionDefaults.pinnedFiles
+          ),
+        },
+        cost: {
+          modelPrices: config.get<ModelPriceTable>(
+            "cost.modelPrices",
+            costDefaults.modelPrices
+          ),
+          spendCap: config.get<number>("cost.spendCap", costDefaults.spendCap),
+        },
+        mcpServers: config.get<McpServerTable>("mcp.servers", {}),
+        commandPolicy: {
+          allowedCommands: config.get<string[]>(
+            "commandPolicy.allowedCommands",
+            commandPolicyDefaults.allowedCommands
+          ),
+          deniedCommands: config.get<string[]>(
+            "commandPolicy.deniedCommands",
+            commandPolicyDefaults.deniedCommands
+          ),
+          allowChaining: config.get<boolean>(
+            "commandPolicy.allowChaining",
+            commandPolicyDefaults.allowChaining
+          ),
+          sensitiveEnvPatterns: config.get<string[]>(
+            "commandPolicy.sensitiveEnvPatterns",
+            commandPolicyDefaults.sensitiveEnvPatterns
+          ),
+          restrictedCwd: config.get<string>(
+            "commandPolicy.restrictedCwd",
+            commandPolicyDefaults.restrictedCwd
+          ),
+        },
+        pathSandbox: {
+          additionalRoots: config.get<string[]>(
+            "pathSandbox.additionalRoots",
+            pathSandboxDefaults.additionalRoots
+          ),
+          deniedPaths: config.get<string[]>(
+            "pathSandbox.deniedPaths",
+            pathSandboxDefaults.deniedPaths
+          ),
+        },
+        codebaseIndex: {
+          enabled: config.get<boolean>(
+            "codebaseIndex.enabled",
+            codebaseIndexDefaults.enabled
+          ),
+          embeddingProvider: config.get<EmbeddingProviderType>(
+            "codebaseIndex.embeddingProvider",
+            codebaseIndexDefaults.embeddingProvider
+          ),
+          embeddingBaseUrl: config.get<string>(
+            "codebaseIndex.embeddingBaseUrl",
+            codebaseIndexDefaults.embeddingBaseUrl
+          ),
+          embeddingModel: config.get<string>(
+            "codebaseIndex.embeddingModel",
+            codebaseIndexDefaults.embeddingModel
+          ),
+          maxFiles: config.get<number>(
+            "codebaseIndex.maxFiles",
+            codebaseIndexDefaults.maxFiles
+          ),
+        },
       },
     };
 
@@ -107,6 +232,84 @@ export class ConfigurationManager {
     );
   }
 
+  /**
+   * Get named model profiles with their API keys from secure storage
+   */
+  async getProfiles(): Promise<ModelProfileWithDefaults[]> {
+    const storedProfiles = this.getStoredProfiles();
+
+    return Promise.all(
+      storedProfiles.map(async (profile) => ({
+        ...profile,
+        provider: profile.provider ?? "openai",
+        temperature: profile.temperature ?? 0.7,
+        maxTokens: profile.maxTokens ?? 4096,
+        toolProtocol: profile.toolProtocol ?? "xml",
+        apiKey:
+          (await this.context.secrets.get(
+            this.getProfileSecretKey(profile.id)
+          )) || "",
+      }))
+    );
+  }
+
+  /**
+   * Replace the named model profiles.
+   * Keys of removed profiles are deleted from secure storage.
+   */
+  async updateProfiles(profiles: ModelProfile[]): Promise<void> {
+    const nextIds = new Set(profiles.map((profile) => profile.id));
+    const removedIds = this.getStoredProfiles()
+      .map((profile) => profile.id)
+      .filter((id) => !nextIds.has(id));
+
+    const storedProfiles: StoredModelProfile[] = profiles.map(
+      ({ apiKey: _apiKey, ...profile }) => profile
+    );
+    await this.updateConfigKeys([{ key: "profiles", value: storedProfiles }]);
+
+    await Promise.all([
+      ...profiles.map((profile) =>
+        this.context.secrets.store(
+          this.getProfileSecretKey(profile.id),
+          profile.apiKey
+        )
+      ),
+      ...removedIds.map((id) =>
+        this.context.secrets.delete(this.getProfileSecretKey(id))
+      ),
+    ]);
+
+    logger.debug("[ConfigurationManager] Model profiles updated");
+  }
+
+  /**
+   * Resolve the API configuration used by a work mode.
+   * Falls back to the default `api` settings when the mode has no profile
+   * or its profile no longer exists.
+   */
+  resolveApiConfiguration(
+    config: AgentConfiguration,
+    mode: WorkMode
+  ): ApiConfiguration {
+    const profileId = config.modeProfiles[mode];
+    const profile = profileId
+      ? config.profiles.find((item) => item.id === profileId)
+      : undefined;
+
+    return profile ?? config.api;
+  }
+
+  private getStoredProfiles(): StoredModelProfile[] {
+    return vscode.workspace
+      .getConfiguration(ConfigurationManager.CONFIG_SECTION)
+      .get<StoredModelProfile[]>("profiles", []);
+  }
+
+  private getProfileSecretKey(profileId: string): string {
+    return `${ConfigurationManager.PROFILE_API_KEY_SECRET_PREFIX}${profileId}`;
+  }
+
   /**
    * Update API configuration
    * @param apiConfig Partial API configuration to update
@@ -116,10 +319,12 @@ export class ConfigurationManager {
   ): Promise<void> {
     // Batch update all API config fields except apiKey
     await this.updateConfigKeys([
+      { key: "api.provider", value: apiConfig.provider },
       { key: "api.baseUrl", value: apiConfig.baseUrl },
       { key: "api.model", value: apiConfig.model },
       { key: "api.temperature", value: apiConfig.temperature },
       { key: "api.maxTokens", value: apiConfig.maxTokens },
+      { key: "api.toolProtocol", value: apiConfig.toolProtocol },
     ]);
 
     // Handle apiKey separately (secure storage)
@@ -152,11 +357,53 @@ export class ConfigurationManager {
         value: permissions.allowExecuteByDefault,
       },
       { key: "permissions.alwaysConfirm", value: permissions.alwaysConfirm },
+      { key: "permissions.stageEdits", value: permissions.stageEdits },
     ]);
 
     logger.debug("[ConfigurationManager] Permission settings updated");
   }
 
+  /**
+   * Remember a permission rule for the workspace, or append it to the user
+   * settings when no folder is open. Workspace rules are kept in the
+   * extension storage: the rules setting is only read from the user
+   * settings, so that a cloned repository cannot ship allow rules.
+   *
+   * @param rule Rule to append
+   */
+  async addPermissionRule(rule: PermissionRule): Promise<void> {
+    if (vscode.workspace.workspaceFolders?.length) {
+      await this.context.workspaceState.update(
+        ConfigurationManager.WORKSPACE_RULES_KEY,
+        [...this.getWorkspacePermissionRules(), rule]
+      );
+    } else {
+      const config = vscode.workspace.getConfiguration(
+        ConfigurationManager.CONFIG_SECTION
+      );
+      await config.update(
+        "permissions.rules",
+        [
+          ...(config.inspect<PermissionRule[]>("permissions.rules")
+            ?.globalValue ?? []),
+          rule,
+        ],
+        vscode.ConfigurationTarget.Global
+      );
+    }
+    logger.debug("[ConfigurationManager] Permission rule added:", rule);
+  }
+
+  /**
+   * Rules the user chose to always apply in this workspace
+   */
+  private getWorkspacePermissionRules(): PermissionRule[] {
+    return this.context.workspaceState.get<PermissionRule[]>(
+      ConfigurationManager.WORKSPACE_RULES_KEY,
+      []
+    );
+  }
+
   /**
    * Validate API configuration
    *
@@ -288,7 +535,30 @@ export class ConfigurationManager {
     // Update simple fields
     await this.updateConfigKeys([
       { key: "maxLoopCount", value: config.advanced?.maxLoopCount },
+      {
+        key: "maxParallelToolCalls",
+        value: config.advanced?.maxParallelToolCalls,
+      },
       { key: "contextWindowSize", value: config.advanced?.contextWindowSize },
+      {
+        key: "compaction.enabled",
+        value: config.advanced?.compaction?.enabled,
+      },
+      {
+        key: "compaction.threshold",
+        value: config.advanced?.compaction?.threshold,
+      },
+      {
+        key: "compaction.keepRecentTurns",
+        value: config.advanced?.compaction?.keepRecentTurns,
+      },
+      {
+        key: "compaction.pinnedFiles",
+        value: config.advanced?.compaction?.pinnedFiles,
+      },
+      { key: "cost.modelPrices", value: config.advanced?.cost?.modelPrices },
+      { key: "cost.spendCap", value: config.advanced?.cost?.spendCap },
+      { key: "modeProfiles", value: config.modeProfiles },
     ]);
 
     // Handle complex objects separately
@@ -296,6 +566,10 @@ export class ConfigurationManager {
       updatePromises.push(this.updateApiConfiguration(config.api));
     }
 
+    if (config.profiles) {
+      updatePromises.push(this.updateProfiles(config.profiles));
+    }
+
     if (config.permissions) {
       updatePromises.push(this.updatePermissionSettings(config.permissions));
     }
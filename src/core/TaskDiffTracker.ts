@@ -11,6 +11,7 @@ import type {
   FileChangeRecord,
   FileChangeTracker,
 } from "../tools/fileChangeTracker";
+import { buildDiffHunks } from "./diffReview";
 
 interface FileSnapshot {
   path: string;
@@ -136,6 +137,7 @@ export class TaskDiffTracker implements FileChangeTracker {
         added,
         removed,
         lines,
+        hunks: buildDiffHunks(lines),
       });
 
       totalAdded += added;
@@ -0,0 +1,263 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { ApiConfiguration } from "code-sidecar-shared/types/api";
+import type {
+  ChatStreamEvent,
+  LlmProvider,
+  NativeToolDefinition,
+  OpenAIHistoryItem,
+  TokenUsage,
+} from "./apiHandler";
+
+/** Anthropic requires max_tokens on every request */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Anthropic accepts temperatures between 0 and 1 */
+const MAX_TEMPERATURE = 1;
+
+type AnthropicMessages = Anthropic.Messages.MessageParam[];
+type AnthropicContentBlock = Anthropic.Messages.ContentBlockParam;
+
+const getTextContent = (content: unknown): string => {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        part && typeof part === "object" && "text" in part
+          ? String(part.text)
+          : ""
+      )
+      .join("");
+  }
+  return "";
+};
+
+const parseToolInput = (rawArguments: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(rawArguments || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Append content blocks to the conversation. Anthropic expects alternating
+ * roles, so consecutive messages of the same role are merged.
+ */
+const appendMessage = (
+  result: AnthropicMessages,
+  role: "user" | "assistant",
+  blocks: AnthropicContentBlock[]
+): void => {
+  if (blocks.length === 0) {
+    return;
+  }
+
+  const last = result[result.length - 1];
+  if (last && last.role === role && Array.isArray(last.content)) {
+    last.content.push(...blocks);
+    return;
+  }
+
+  result.push({ role, content: blocks });
+};
+
+const textBlocks = (text: string): AnthropicContentBlock[] =>
+  text.trim() ? [{ type: "text", text }] : [];
+
+/**
+ * Convert OpenAI chat messages into Anthropic Messages API format.
+ * System messages are folded into the system prompt, assistant tool_calls
+ * become tool_use blocks and tool messages become tool_result blocks.
+ */
+const toAnthropicMessages = (
+  systemPrompt: string,
+  messages: OpenAIHistoryItem
+): { system: string; messages: AnthropicMessages } => {
+  const systemParts = [systemPrompt];
+  const result: AnthropicMessages = [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        systemParts.push(getTextContent(message.content));
+        break;
+      case "tool":
+        appendMessage(result, "user", [
+          {
+            type: "tool_result",
+            tool_use_id: message.tool_call_id,
+            content: getTextContent(message.content),
+          },
+        ]);
+        break;
+      case "assistant": {
+        const toolUses: AnthropicContentBlock[] = (
+          message.tool_calls ?? []
+        ).flatMap((toolCall) =>
+          toolCall.type === "function"
+            ? [
+                {
+                  type: "tool_use" as const,
+                  id: toolCall.id,
+                  name: toolCall.function.name,
+                  input: parseToolInput(toolCall.function.arguments),
+                },
+              ]
+            : []
+        );
+        appendMessage(result, "assistant", [
+          ...textBlocks(getTextContent(message.content)),
+          ...toolUses,
+        ]);
+        break;
+      }
+      default:
+        appendMessage(
+          result,
+          "user",
+          textBlocks(getTextContent(message.content))
+        );
+    }
+  }
+
+  return { system: systemParts.filter(Boolean).join("\n\n"), messages: result };
+};
+
+const toAnthropicTools = (
+  tools: NativeToolDefinition[]
+): Anthropic.Messages.Tool[] =>
+  tools.map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description,
+    input_schema: (tool.function.parameters ?? {
+      type: "object",
+    }) as Anthropic.Messages.Tool.InputSchema,
+  }));
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  constructor(private apiConfiguration: ApiConfiguration) {}
+
+  private createClient(): Anthropic {
+    return new Anthropic({
+      baseURL: this.apiConfiguration.baseUrl || undefined,
+      apiKey: this.apiConfiguration.apiKey,
+    });
+  }
+
+  async *createMessage(
+    systemPrompt: string,
+    messages: OpenAIHistoryItem,
+    signal?: AbortSignal,
+    tools?: NativeToolDefinition[]
+  ): AsyncGenerator<ChatStreamEvent> {
+    const client = this.createClient();
+    const converted = toAnthropicMessages(systemPrompt, messages);
+
+    const request: Anthropic.Messages.MessageCreateParamsStreaming = {
+      stream: true,
+      model: this.apiConfiguration.model,
+      system: converted.system,
+      messages: converted.messages,
+      max_tokens: this.apiConfiguration.maxTokens ?? DEFAULT_MAX_TOKENS,
+    };
+
+    if (this.apiConfiguration.temperature !== undefined) {
+      request.temperature = Math.min(
+        this.apiConfiguration.temperature,
+        MAX_TEMPERATURE
+      );
+    }
+
+    if (tools && tools.length > 0) {
+      request.tools = toAnthropicTools(tools);
+    }
+
+    const stream = await client.messages.create(request, { signal });
+
+    const usage: Required<TokenUsage> = {
+      totalTokens: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    };
+    let hasUsage = false;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start": {
+          const startUsage = event.message.usage;
+          usage.promptTokens = startUsage.input_tokens;
+          usage.completionTokens = startUsage.output_tokens;
+          usage.cacheReadTokens = startUsage.cache_read_input_tokens ?? 0;
+          usage.cacheWriteTokens = startUsage.cache_creation_input_tokens ?? 0;
+          hasUsage = true;
+          break;
+        }
+        case "message_delta": {
+          // Delta usage counts are cumulative for the message
+          const deltaUsage = event.usage;
+          usage.completionTokens = deltaUsage.output_tokens;
+          usage.promptTokens = deltaUsage.input_tokens ?? usage.promptTokens;
+          usage.cacheReadTokens =
+            deltaUsage.cache_read_input_tokens ?? usage.cacheReadTokens;
+          usage.cacheWriteTokens =
+            deltaUsage.cache_creation_input_tokens ?? usage.cacheWriteTokens;
+          hasUsage = true;
+          break;
+        }
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            yield {
+              type: "tool_call_delta",
+              delta: {
+                index: event.index,
+                id: event.content_block.id,
+                name: event.content_block.name,
+              },
+            };
+          } else if (
+            event.content_block.type === "text" &&
+            event.content_block.text
+          ) {
+            yield { type: "content", content: event.content_block.text };
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            yield { type: "content", content: event.delta.text };
+          } else if (event.delta.type === "input_json_delta") {
+            yield {
+              type: "tool_call_delta",
+              delta: {
+                index: event.index,
+                arguments: event.delta.partial_json,
+              },
+            };
+          }
+          break;
+      }
+    }
+
+    if (hasUsage) {
+      // input_tokens excludes cached input, which TokenUsage counts as prompt
+      usage.promptTokens +=
+        usage.cacheReadTokens + usage.cacheWriteTokens;
+      usage.totalTokens = usage.promptTokens + usage.completionTokens;
+      yield { type: "usage", usage };
+    }
+  }
+
+  async validateConfiguration(): Promise<void> {
+    await this.createClient().models.list({ limit: 1 });
+  }
+}
@@ -1,7 +1,9 @@
-import { OpenAI } from "openai";
+import type { OpenAI } from "openai";
 import type { ToolResult, ToolUse } from "code-sidecar-shared/types/tools";
 import type { ApiConfiguration } from "code-sidecar-shared/types/api";
 import { logger } from "code-sidecar-shared/utils/logger";
+import { AnthropicProvider } from "./anthropicProvider";
+import { OpenAIProvider } from "./openAIProvider";
 
 /**
  * Message history item
@@ -12,74 +14,101 @@ export type HistoryItem = {
   content: string | ToolResult;
   toolCalls?: ToolUse[];
   toolResults?: ToolResult[];
+  checkpointId?: string;
 };
 
 export type OpenAIHistoryItem =
   OpenAI.Chat.Completions.ChatCompletionMessageParam[];
 
+/**
+ * Token usage reported by the provider.
+ * promptTokens includes cached input tokens; the cache fields are only
+ * filled in by providers that report prompt caching.
+ */
 export type TokenUsage = {
   totalTokens: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+};
+
+/**
+ * Fragment of a native tool call streamed by the model.
+ * Fragments sharing the same index belong to the same call.
+ */
+export type NativeToolCallDelta = {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
 };
 
+export type NativeToolDefinition =
+  OpenAI.Chat.Completions.ChatCompletionFunctionTool;
+
 export type ChatStreamEvent =
   | { type: "content"; content: string }
+  | { type: "tool_call_delta"; delta: NativeToolCallDelta }
   | { type: "usage"; usage: TokenUsage };
 
+/**
+ * Provider-specific client used by ApiHandler.
+ * Messages and tools are always passed in OpenAI chat format; each provider
+ * converts them to its own wire format and maps its stream to ChatStreamEvent.
+ */
+export interface LlmProvider {
+  createMessage(
+    systemPrompt: string,
+    messages: OpenAIHistoryItem,
+    signal?: AbortSignal,
+    tools?: NativeToolDefinition[]
+  ): AsyncGenerator<ChatStreamEvent>;
+
+  /**
+   * Make a lightweight request to check the endpoint and credentials
+   * @throws Error if the request fails
+   */
+  validateConfiguration(): Promise<void>;
+}
+
+const createProvider = (apiConfiguration: ApiConfiguration): LlmProvider => {
+  switch (apiConfiguration.provider) {
+    case "anthropic":
+      return new AnthropicProvider(apiConfiguration);
+    case "openai":
+    default:
+      return new OpenAIProvider(apiConfiguration);
+  }
+};
+
 /**
  * API Handler for communicating with LLM service
  */
 export class ApiHandler {
-  constructor(private apiConfiguration: ApiConfiguration) {}
+  private readonly provider: LlmProvider;
+
+  constructor(private apiConfiguration: ApiConfiguration) {
+    this.provider = createProvider(apiConfiguration);
+  }
 
   /**
    * Create a streaming message request to the LLM
    * @param systemPrompt System prompt for the LLM
    * @param messages Conversation history
    * @param signal Optional abort signal to cancel the request
+   * @param tools Optional native tool definitions (native tool protocol only)
    * @returns AsyncGenerator yielding message chunks
    * @throws Error if API call fails (Requirements 12.1, 12.4)
    */
   async *createMessage(
     systemPrompt: string,
     messages: OpenAIHistoryItem,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    tools?: NativeToolDefinition[]
   ): AsyncGenerator<ChatStreamEvent> {
     try {
-      const client = new OpenAI({
-        baseURL: this.apiConfiguration.baseUrl,
-        apiKey: this.apiConfiguration.apiKey,
-      });
-
-      const request: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming =
-        {
-          stream: true,
-          messages: [{ role: "system", content: systemPrompt }, ...messages],
-          model: this.apiConfiguration.model,
-          temperature: this.apiConfiguration.temperature,
-          max_tokens: this.apiConfiguration.maxTokens,
-          stream_options: { include_usage: true },
-        };
-
-      const { data: completion } = await client.chat.completions
-        .create(request, { signal })
-        .withResponse();
-
-      for await (const chunk of completion) {
-        const content = chunk.choices?.[0]?.delta?.content;
-
-        if (content) {
-          yield { type: "content", content };
-        }
-
-        if (chunk.usage) {
-          yield {
-            type: "usage",
-            usage: {
-              totalTokens: chunk.usage.total_tokens ?? 0,
-            },
-          };
-        }
-      }
+      yield* this.provider.createMessage(systemPrompt, messages, signal, tools);
     } catch (error) {
       // Re-throw with more context for error handler (Requirement 12.1)
       if (error instanceof Error) {
@@ -95,18 +124,14 @@ export class ApiHandler {
    */
   async validateConfiguration(): Promise<boolean> {
     try {
-      const client = new OpenAI({
-        baseURL: this.apiConfiguration.baseUrl,
-        apiKey: this.apiConfiguration.apiKey,
-      });
-
-      // Try a simple request to validate
-      await client.models.list();
+      await this.provider.validateConfiguration();
       return true;
     } catch (error) {
-      logger.debug("API configuration validation failed:", error);
+      logger.debug(
+        `API configuration validation failed (${this.apiConfiguration.provider ?? "openai"}):`,
+        error
+      );
       return false;
     }
   }
 }
-
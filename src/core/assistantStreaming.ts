@@ -4,6 +4,7 @@ import {
   TextContent,
 } from "./assistantMessage";
 import type { ChatStreamEvent, TokenUsage } from "./apiHandler";
+import { NativeToolCallAssembler } from "./toolProtocol";
 import type { ToolExecutor } from "../tools";
 import type { ToolUse } from "code-sidecar-shared/types/tools";
 
@@ -97,6 +98,7 @@ export async function streamAssistantResponse(
   let lastPublishedText = "";
   let usage: TokenUsage | undefined;
   let toolCallSequence = 0;
+  const nativeToolCalls = new NativeToolCallAssembler();
 
   type ToolCallSnapshot = {
     name: string;
@@ -198,6 +200,9 @@ export async function streamAssistantResponse(
         lastPublishedText = displayText;
         callbacks.onStreamChunk(displayText, true);
       }
+    } else if (chunk.type === "tool_call_delta") {
+      nativeToolCalls.push(chunk.delta);
+      publishToolCallUpdates(nativeToolCalls.getToolUses());
     } else if (chunk.type === "usage") {
       usage = chunk.usage;
     }
@@ -205,7 +210,10 @@ export async function streamAssistantResponse(
 
   parser.finalizeContentBlocks();
 
-  const finalizedBlocks = parser.getContentBlocks();
+  const finalizedBlocks = [
+    ...parser.getContentBlocks(),
+    ...nativeToolCalls.finalize(),
+  ];
   const finalizedText = getAssistantDisplayText(finalizedBlocks);
   const finalDisplayText = finalizedText || lastPublishedText;
 
@@ -0,0 +1,314 @@
+import { ApiHandler, HistoryItem } from "./apiHandler";
+import { formatToolResult } from "./toolCallHandler";
+import { sumPromptTokens, type TokenCounter } from "./tokenCounter";
+import type { HistoryConfig } from "../managers";
+import { logger } from "code-sidecar-shared/utils/logger";
+import type { ApiConfiguration } from "code-sidecar-shared/types/api";
+import type { CompactionSettings } from "code-sidecar-shared/types/config";
+import type { ToolResult, ToolUse } from "code-sidecar-shared/types/tools";
+
+const SUMMARY_PREFIX = "[CONVERSATION SUMMARY]";
+
+/** Longest text kept per message when building the summarization transcript */
+const MAX_TRANSCRIPT_ITEM_CHARS = 4000;
+
+const SUMMARY_SYSTEM_PROMPT = `You compact the history of a coding agent session so that it fits in the model's context window.
+Summarize the conversation for the agent that will continue the task. Keep:
+- the user's goals, constraints and any decisions made so far
+- files that were read, created or modified, with the relevant details of each change
+- commands that were run and their important results or errors
+- open problems and the next planned steps
+
+Be concise and factual. Do not invent details. Reply with the summary only.`;
+
+type ContextCompactorOptions = {
+  taskId: string;
+  apiConfiguration: ApiConfiguration;
+  historyConfig: HistoryConfig;
+  settings: CompactionSettings;
+  tokenCounter: TokenCounter;
+};
+
+export type CompactionResult = {
+  history: HistoryItem[];
+  summarizedCount: number;
+};
+
+type ToolExchange = {
+  toolCall: ToolUse;
+  result: ToolResult;
+};
+
+const truncate = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const omitted = text.length - maxChars;
+  return `${text.slice(0, maxChars)}\n...[truncated ${omitted} chars]`;
+};
+
+const normalizePath = (filePath: string): string =>
+  filePath.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+
+/**
+ * Pair each tool call with its result. Results carry the call id in native
+ * mode; in XML mode they follow the assistant message in call order.
+ */
+const collectToolExchanges = (items: HistoryItem[]): ToolExchange[] => {
+  const exchanges: ToolExchange[] = [];
+  let pendingCalls: ToolUse[] = [];
+
+  for (const item of items) {
+    if (item.role === "assistant") {
+      pendingCalls = [...(item.toolCalls ?? [])];
+      continue;
+    }
+    if (item.role !== "tool_result" || typeof item.content === "string") {
+      continue;
+    }
+
+    const result = item.content;
+    const index = result.tool_call_id
+      ? pendingCalls.findIndex((call) => call.id === result.tool_call_id)
+      : pendingCalls.findIndex((call) => call.name === result.tool_name);
+    if (index >= 0) {
+      exchanges.push({ toolCall: pendingCalls[index], result });
+      pendingCalls.splice(index, 1);
+    }
+  }
+
+  return exchanges;
+};
+
+const buildTranscript = (items: HistoryItem[]): string =>
+  items
+    .map((item) => {
+      if (item.role === "tool_result" && typeof item.content !== "string") {
+        return truncate(
+          formatToolResult(item.content),
+          MAX_TRANSCRIPT_ITEM_CHARS
+        );
+      }
+
+      const lines = [
+        `${item.role.toUpperCase()}:`,
+        truncate(item.content as string, MAX_TRANSCRIPT_ITEM_CHARS),
+      ];
+      for (const toolCall of item.toolCalls ?? []) {
+        lines.push(
+          truncate(
+            `[TOOL CALL: ${toolCall.name}] ${JSON.stringify(toolCall.params)}`,
+            MAX_TRANSCRIPT_ITEM_CHARS
+          )
+        );
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+
+/**
+ * Mechanical summary used when the summarization request fails
+ */
+const buildFallbackSummary = (items: HistoryItem[]): string => {
+  const lines = collectToolExchanges(items).map(({ toolCall, result }) => {
+    const target = toolCall.params.path ?? toolCall.params.command ?? "";
+    const status = result.is_error ? "failed" : "succeeded";
+    return `- ${toolCall.name}${target ? ` ${target}` : ""} (${status})`;
+  });
+
+  return lines.length > 0
+    ? `Tool calls made earlier in this task:\n${lines.join("\n")}`
+    : "Earlier messages were removed to save context.";
+};
+
+/**
+ * ContextCompactor keeps a task's history within the context window by
+ * summarizing older turns into a single synthetic message.
+ * A turn starts with an assistant message and includes the tool results and
+ * user messages that follow it. The first user message (the task request),
+ * the latest turns and pinned files are always kept verbatim.
+ */
+export class ContextCompactor {
+  /** Latest content of each pinned file, carried across compactions */
+  private pinnedFiles = new Map<string, string>();
+
+  constructor(private options: ContextCompactorOptions) {}
+
+  /**
+   * Estimate the tokens used by the history and system prompt
+   */
+  estimateTokens(history: HistoryItem[], systemPrompt = ""): number {
+    return sumPromptTokens(
+      this.options.tokenCounter.countPrompt(systemPrompt, history)
+    );
+  }
+
+  /**
+   * Check whether the history crossed the compaction threshold
+   * @param reportedTokens Token usage reported by the provider for the last request
+   */
+  shouldCompact(
+    history: HistoryItem[],
+    systemPrompt: string,
+    reportedTokens = 0
+  ): boolean {
+    const { historyConfig, settings } = this.options;
+    if (!settings.enabled) {
+      return false;
+    }
+
+    if (
+      historyConfig.maxMessages > 0 &&
+      history.length > historyConfig.maxMessages
+    ) {
+      return true;
+    }
+
+    if (historyConfig.maxTokens <= 0) {
+      return false;
+    }
+
+    const usedTokens = Math.max(
+      this.estimateTokens(history, systemPrompt),
+      reportedTokens
+    );
+    return usedTokens >= historyConfig.maxTokens * settings.threshold;
+  }
+
+  /**
+   * Summarize older turns of the history
+   * @returns Compacted history, or undefined when there is nothing to compact
+   */
+  async compact(
+    history: HistoryItem[],
+    signal?: AbortSignal
+  ): Promise<CompactionResult | undefined> {
+    const headLength = history[0]?.role === "user" ? 1 : 0;
+    const keepRecentTurns = Math.max(1, this.options.settings.keepRecentTurns);
+
+    const turnStarts: number[] = [];
+    history.forEach((item, index) => {
+      if (index >= headLength && item.role === "assistant") {
+        turnStarts.push(index);
+      }
+    });
+
+    if (turnStarts.length <= keepRecentTurns) {
+      return undefined;
+    }
+
+    const cutIndex = turnStarts[turnStarts.length - keepRecentTurns];
+    const compacted = history.slice(headLength, cutIndex);
+    if (compacted.length === 0) {
+      return undefined;
+    }
+
+    let summary: string;
+    try {
+      summary = await this.summarize(compacted, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.warn(
+        `[Task ${this.options.taskId}] Context summarization failed, using fallback summary:`,
+        error
+      );
+      summary = buildFallbackSummary(compacted);
+    }
+
+    const summaryItem: HistoryItem = {
+      role: "user",
+      content: this.buildSummaryMessage(summary, compacted),
+    };
+
+    logger.debug(
+      `[Task ${this.options.taskId}] Compacted ${compacted.length} history items`
+    );
+
+    return {
+      history: [
+        ...history.slice(0, headLength),
+        summaryItem,
+        ...history.slice(cutIndex),
+      ],
+      summarizedCount: compacted.length,
+    };
+  }
+
+  private async summarize(
+    items: HistoryItem[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const apiHandler = new ApiHandler(this.options.apiConfiguration);
+    const stream = apiHandler.createMessage(
+      SUMMARY_SYSTEM_PROMPT,
+      [{ role: "user", content: buildTranscript(items) }],
+      signal
+    );
+
+    let summary = "";
+    for await (const event of stream) {
+      if (event.type === "content") {
+        summary += event.content;
+      }
+    }
+
+    if (!summary.trim()) {
+      throw new Error("Summarization returned an empty response");
+    }
+    return summary.trim();
+  }
+
+  /**
+   * Record the latest content of pinned files seen in the compacted items
+   */
+  private collectPinnedFiles(items: HistoryItem[]): Map<string, string> {
+    const pinnedPaths = new Set(
+      (this.options.settings.pinnedFiles ?? []).map(normalizePath)
+    );
+    const pinned = this.pinnedFiles;
+    if (pinnedPaths.size === 0) {
+      return pinned;
+    }
+
+    for (const { toolCall, result } of collectToolExchanges(items)) {
+      const filePath =
+        typeof toolCall.params.path === "string"
+          ? normalizePath(toolCall.params.path)
+          : "";
+      if (!pinnedPaths.has(filePath) || result.is_error) {
+        continue;
+      }
+
+      if (toolCall.name === "read_file") {
+        pinned.set(filePath, result.content);
+      } else if (
+        toolCall.name === "write_file" &&
+        typeof toolCall.params.content === "string"
+      ) {
+        pinned.set(filePath, toolCall.params.content);
+      }
+    }
+
+    return pinned;
+  }
+
+  private buildSummaryMessage(summary: string, items: HistoryItem[]): string {
+    const parts = [
+      SUMMARY_PREFIX,
+      "Earlier messages in this task were summarized to save context. Summary of the work so far:",
+      summary,
+    ];
+
+    const pinnedFiles = this.collectPinnedFiles(items);
+    if (pinnedFiles.size > 0) {
+      parts.push("# Pinned Files");
+      for (const [filePath, content] of pinnedFiles) {
+        parts.push(`## ${filePath}\n${content}`);
+      }
+    }
+
+    return parts.join("\n\n");
+  }
+}
@@ -0,0 +1,82 @@
+import type {
+  ModelPrice,
+  ModelPriceTable,
+} from "code-sidecar-shared/types/config";
+import type { TokenUsage } from "./apiHandler";
+
+const TOKENS_PER_MILLION = 1_000_000;
+
+/**
+ * Find the price of a model. Exact names win over prefixes, and longer
+ * prefixes win over shorter ones, so "gpt-4o-mini" is not priced as "gpt-4o".
+ */
+export const findModelPrice = (
+  prices: ModelPriceTable,
+  model: string
+): ModelPrice | undefined => {
+  // Proxies often prefix the model with a vendor, e.g. "openai/gpt-4o"
+  const candidates = [model, model.split("/").pop() ?? ""].map((name) =>
+    name.trim().toLowerCase()
+  );
+  const entries = Object.entries(prices).map(
+    ([name, price]) => [name.trim().toLowerCase(), price] as const
+  );
+
+  for (const candidate of candidates) {
+    const exact = entries.find(([name]) => name === candidate);
+    if (exact) {
+      return exact[1];
+    }
+  }
+
+  let match: readonly [string, ModelPrice] | undefined;
+  for (const candidate of candidates) {
+    for (const entry of entries) {
+      if (
+        entry[0] &&
+        candidate.startsWith(entry[0]) &&
+        entry[0].length > (match?.[0].length ?? 0)
+      ) {
+        match = entry;
+      }
+    }
+  }
+  return match?.[1];
+};
+
+/**
+ * Cost of a request in USD. Cached input is billed at the cache prices
+ * when they are configured.
+ */
+export const calculateCost = (usage: TokenUsage, price: ModelPrice): number => {
+  const cacheReadTokens = usage.cacheReadTokens ?? 0;
+  const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+  const uncachedTokens = Math.max(
+    (usage.promptTokens ?? 0) - cacheReadTokens - cacheWriteTokens,
+    0
+  );
+
+  const cost =
+    uncachedTokens * price.inputPerMillion +
+    cacheReadTokens * (price.cacheReadPerMillion ?? price.inputPerMillion) +
+    cacheWriteTokens * (price.cacheWritePerMillion ?? price.inputPerMillion) +
+    (usage.completionTokens ?? 0) * price.outputPerMillion;
+
+  return cost / TOKENS_PER_MILLION;
+};
+
+/**
+ * Spend limit after the user approves going over the current one: the next
+ * step of the cap above the expected spend, so the user is asked again each
+ * time spending grows by another cap
+ */
+export const getNextSpendLimit = (
+  expectedSpend: number,
+  spendCap: number
+): number => (Math.floor(expectedSpend / spendCap) + 1) * spendCap;
+
+/**
+ * Format a USD amount with enough precision for small requests
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
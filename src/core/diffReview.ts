@@ -0,0 +1,191 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ToolFileSystem } from "../tools";
+
+import type {
+  DiffHunk,
+  DiffLine,
+  DiffReviewDecisions,
+  DiffReviewSummary,
+  FileDiff,
+  FileReviewResult,
+  TaskDiff,
+} from "code-sidecar-shared/types/diff";
+
+/**
+ * Group consecutive added and removed lines into hunks
+ */
+export const buildDiffHunks = (lines: DiffLine[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let oldLine = 1;
+  let newLine = 1;
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      current = undefined;
+      oldLine += 1;
+      newLine += 1;
+      return;
+    }
+
+    if (!current) {
+      current = {
+        startIndex: index,
+        endIndex: index,
+        oldStart: oldLine,
+        oldLines: 0,
+        newStart: newLine,
+        newLines: 0,
+      };
+      hunks.push(current);
+    }
+
+    current.endIndex = index + 1;
+    if (line.type === "add") {
+      current.newLines += 1;
+      newLine += 1;
+    } else {
+      current.oldLines += 1;
+      oldLine += 1;
+    }
+  });
+
+  return hunks;
+};
+
+/**
+ * Rebuild the lines of a file, keeping accepted hunks and reverting
+ * rejected hunks to their original lines
+ */
+export const applyHunkDecisions = (
+  file: FileDiff,
+  rejectedHunks: Set<number>
+): string[] => {
+  const result: string[] = [];
+  let hunkIndex = 0;
+
+  file.lines.forEach((line, index) => {
+    while (
+      hunkIndex < file.hunks.length &&
+      file.hunks[hunkIndex].endIndex <= index
+    ) {
+      hunkIndex += 1;
+    }
+
+    if (line.type === "context") {
+      result.push(line.content);
+      return;
+    }
+
+    const keepType = rejectedHunks.has(hunkIndex) ? "remove" : "add";
+    if (line.type === keepType) {
+      result.push(line.content);
+    }
+  });
+
+  return result;
+};
+
+const splitLines = (content: string): string[] => {
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+const resolveWorkspaceFile = async (
+  filePath: string,
+  fileSystem: ToolFileSystem
+): Promise<vscode.Uri | undefined> => {
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.file(path.resolve(folder.uri.fsPath, filePath));
+    try {
+      await fileSystem.stat(uri);
+      return uri;
+    } catch {
+      // Try the next workspace folder
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Write the reviewed content of a file, reverting its rejected hunks
+ * @throws Error if the file is missing or changed since the diff was built
+ */
+const revertRejectedHunks = async (
+  file: FileDiff,
+  rejectedHunks: Set<number>,
+  fileSystem: ToolFileSystem
+): Promise<void> => {
+  const uri = await resolveWorkspaceFile(file.path, fileSystem);
+  if (!uri) {
+    throw new Error("File not found");
+  }
+
+  const content = Buffer.from(await fileSystem.readFile(uri)).toString("utf8");
+  const expected = file.lines
+    .filter((line) => line.type !== "remove")
+    .map((line) => line.content);
+  const current = splitLines(content);
+  if (
+    current.length !== expected.length ||
+    current.some((line, index) => line !== expected[index])
+  ) {
+    throw new Error("File changed since the diff was created");
+  }
+
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = applyHunkDecisions(file, rejectedHunks);
+  const trailingEol = lines.length > 0 && /\r?\n$/.test(content) ? eol : "";
+  await fileSystem.writeFile(
+    uri,
+    Buffer.from(lines.join(eol) + trailingEol, "utf8")
+  );
+};
+
+/**
+ * Apply the hunk decisions of a task diff to the workspace.
+ * Accepted hunks are already applied; rejected hunks are reverted.
+ */
+export const applyDiffReview = async (
+  diff: TaskDiff,
+  decisions: DiffReviewDecisions,
+  fileSystem: ToolFileSystem = vscode.workspace.fs
+): Promise<DiffReviewSummary> => {
+  const files: FileReviewResult[] = [];
+
+  for (const file of diff.files) {
+    const rejectedHunks = new Set(
+      (decisions[file.path] ?? []).filter(
+        (index) => index >= 0 && index < file.hunks.length
+      )
+    );
+    const result: FileReviewResult = {
+      path: file.path,
+      keptHunks: file.hunks.length - rejectedHunks.size,
+      rejectedHunks: rejectedHunks.size,
+    };
+
+    if (rejectedHunks.size > 0) {
+      try {
+        await revertRejectedHunks(file, rejectedHunks, fileSystem);
+      } catch (error) {
+        result.keptHunks = file.hunks.length;
+        result.rejectedHunks = 0;
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    files.push(result);
+  }
+
+  return {
+    taskId: diff.taskId,
+    keptHunks: files.reduce((total, file) => total + file.keptHunks, 0),
+    rejectedHunks: files.reduce((total, file) => total + file.rejectedHunks, 0),
+    files,
+  };
+};
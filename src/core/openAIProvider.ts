@@ -0,0 +1,88 @@
+import { OpenAI } from "openai";
+import type { ApiConfiguration } from "code-sidecar-shared/types/api";
+import type {
+  ChatStreamEvent,
+  LlmProvider,
+  NativeToolDefinition,
+  OpenAIHistoryItem,
+} from "./apiHandler";
+
+/**
+ * Provider for OpenAI-compatible Chat Completions endpoints
+ */
+export class OpenAIProvider implements LlmProvider {
+  constructor(private apiConfiguration: ApiConfiguration) {}
+
+  private createClient(): OpenAI {
+    return new OpenAI({
+      baseURL: this.apiConfiguration.baseUrl,
+      apiKey: this.apiConfiguration.apiKey,
+    });
+  }
+
+  async *createMessage(
+    systemPrompt: string,
+    messages: OpenAIHistoryItem,
+    signal?: AbortSignal,
+    tools?: NativeToolDefinition[]
+  ): AsyncGenerator<ChatStreamEvent> {
+    const client = this.createClient();
+
+    const request: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming =
+      {
+        stream: true,
+        messages: [{ role: "system", content: systemPrompt }, ...messages],
+        model: this.apiConfiguration.model,
+        temperature: this.apiConfiguration.temperature,
+        max_tokens: this.apiConfiguration.maxTokens,
+        stream_options: { include_usage: true },
+      };
+
+    if (tools && tools.length > 0) {
+      request.tools = tools;
+    }
+
+    const { data: completion } = await client.chat.completions
+      .create(request, { signal })
+      .withResponse();
+
+    for await (const chunk of completion) {
+      const delta = chunk.choices?.[0]?.delta;
+      const content = delta?.content;
+
+      if (content) {
+        yield { type: "content", content };
+      }
+
+      for (const toolCall of delta?.tool_calls ?? []) {
+        yield {
+          type: "tool_call_delta",
+          delta: {
+            index: toolCall.index,
+            id: toolCall.id,
+            name: toolCall.function?.name,
+            arguments: toolCall.function?.arguments,
+          },
+        };
+      }
+
+      if (chunk.usage) {
+        yield {
+          type: "usage",
+          usage: {
+            totalTokens: chunk.usage.total_tokens ?? 0,
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            cacheReadTokens:
+              chunk.usage.prompt_tokens_details?.cached_tokens ?? undefined,
+          },
+        };
+      }
+    }
+  }
+
+  async validateConfiguration(): Promise<void> {
+    // Try a simple request to validate
+    await this.createClient().models.list();
+  }
+}
@@ -1,15 +1,13 @@
-import {
-  ApiHandler,
-  HistoryItem,
-  OpenAIHistoryItem,
-  TokenUsage,
-} from "./apiHandler";
+import { ApiHandler, HistoryItem, TokenUsage } from "./apiHandler";
 import { AgentWebviewProvider } from "../ui/AgentWebviewProvider";
 import { ToolExecutor } from "../tools";
 import { PromptBuilder } from "../managers/PromptBuilder";
 import { ContextCollector, ProjectContext } from "../managers/ContextCollector";
 import { ErrorHandler } from "../managers/ErrorHandler";
-import { ConversationHistoryManager } from "../managers";
+import {
+  ConversationHistoryManager,
+  DEFAULT_HISTORY_CONFIG,
+} from "../managers";
 import { TaskDiffTracker } from "./TaskDiffTracker";
 import { logger } from "code-sidecar-shared/utils/logger";
 import {
@@ -18,15 +16,36 @@ import {
   getAssistantDisplayText,
   streamAssistantResponse,
 } from "./assistantStreaming";
-import {
-  formatToolResult,
-  hasAttemptCompletion,
-  ToolCallHandler,
-} from "./toolCallHandler";
+import { hasAttemptCompletion, ToolCallHandler } from "./toolCallHandler";
 import { TaskErrorHandler } from "./taskErrorHandler";
-
-import type { ApiConfiguration } from "code-sidecar-shared/types/api";
-import type { ToolUse, ToolResult } from "code-sidecar-shared/types/tools";
+import { buildNativeTools, buildRequestMessages } from "./toolProtocol";
+import { ContextCompactor } from "./contextCompactor";
+import {
+  createTokenizer,
+  sumPromptTokens,
+  TokenCounter,
+} from "./tokenCounter";
+import * as vscode from "vscode";
+import {
+  calculateCost,
+  findModelPrice,
+  formatCost,
+  getNextSpendLimit,
+} from "./costCalculator";
+
+import type {
+  ApiConfiguration,
+  ToolProtocol,
+} from "code-sidecar-shared/types/api";
+import {
+  DEFAULT_COMPACTION_SETTINGS,
+  DEFAULT_COST_SETTINGS,
+  type CompactionSettings,
+  type CostSettings,
+  type ModelPrice,
+} from "code-sidecar-shared/types/config";
+import type { PromptTokenBreakdown } from "code-sidecar-shared/types/messages";
+import type { ToolUse } from "code-sidecar-shared/types/tools";
 
 /**
  * Task class manages the ReAct (Reasoning and Acting) loop
@@ -50,7 +69,19 @@ export class Task {
   private isCancelled = false;
   private isCompleted = false;
   private abortController: AbortController | null = null;
+  /** Aborted on cancel to stop running tools such as commands */
+  private toolAbortController = new AbortController();
   private diffTracker: TaskDiffTracker;
+  private contextCompactor: ContextCompactor;
+  private tokenCounter: TokenCounter;
+  private lastReportedTokens = 0;
+  private modelPrice: ModelPrice | undefined;
+  /** Spend the user approved for the conversation, in steps of the spend cap */
+  private approvedSpendLimit: number;
+  private unpricedModelWarned = false;
+  private taskCheckpointId: string | undefined;
+  /** Checkpoints of the tool calls, which tools add the files they change to */
+  private toolCallCheckpointIds = new WeakMap<ToolUse, string>();
 
   constructor(
     private provider: AgentWebviewProvider,
@@ -63,7 +94,10 @@ export class Task {
     conversationHistoryManager: ConversationHistoryManager,
     errorHandler: ErrorHandler,
     contextWindowTokens: number,
-    displayMessage?: string
+    displayMessage?: string,
+    compactionSettings: CompactionSettings = DEFAULT_COMPACTION_SETTINGS,
+    private costSettings: CostSettings = DEFAULT_COST_SETTINGS,
+    maxParallelToolCalls = 4
   ) {
     this.id = `task-${Date.now()}-${Math.random()
       .toString(36)
@@ -77,13 +111,50 @@ export class Task {
     this.contextWindowTokens = contextWindowTokens || 0;
     this.displayMessage = displayMessage ?? message;
     this.diffTracker = new TaskDiffTracker(this.id);
+    this.modelPrice = findModelPrice(
+      this.costSettings.modelPrices ?? {},
+      this.apiConfiguration.model
+    );
+    this.approvedSpendLimit = this.costSettings.spendCap;
+    const historyConfig = {
+      ...DEFAULT_HISTORY_CONFIG,
+      maxTokens: this.contextWindowTokens,
+    };
+    this.tokenCounter = new TokenCounter(
+      createTokenizer(
+        this.apiConfiguration,
+        historyConfig.estimatedCharsPerToken
+      ),
+      this.getToolProtocol()
+    );
+    this.contextCompactor = new ContextCompactor({
+      taskId: this.id,
+      apiConfiguration: this.apiConfiguration,
+      historyConfig,
+      settings: compactionSettings,
+      tokenCounter: this.tokenCounter,
+    });
     this.toolCallHandler = new ToolCallHandler({
       taskId: this.id,
       toolExecutor: this.toolExecutor,
       conversationHistoryManager: this.conversationHistoryManager,
       publishToolCall: (toolCall) =>
         this.provider.postMessageToWebview({ type: "tool_call", toolCall }),
+      createCheckpoint: (toolCall) => this.createToolCallCheckpoint(toolCall),
       isCancelled: () => this.isCancelled,
+      createExecutionContext: (toolCall) => ({
+        taskId: this.id,
+        signal: this.toolAbortController.signal,
+        checkpointFiles: (paths) => this.addCheckpointFiles(toolCall, paths),
+        onOutput: (chunk) =>
+          this.provider.postMessageToWebview({
+            type: "command_output",
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            chunk,
+          }),
+      }),
+      maxParallelToolCalls,
     });
     this.taskErrorHandler = new TaskErrorHandler({
       errorHandler: this.errorHandler,
@@ -104,6 +175,7 @@ export class Task {
   async start() {
     try {
       this.toolExecutor.setFileChangeTracker(this.diffTracker);
+      this.toolExecutor.resetEditedFiles();
       // Collect context before starting
       logger.debug(`[Task ${this.id}] Collecting project context...`);
       const context = await this.contextCollector.collectContext();
@@ -126,9 +198,11 @@ export class Task {
       // Save user message to history
       // TODO 这块的 history 和 展示的, 思考vscode workspace context
 
+      this.taskCheckpointId = this.createTaskCheckpoint();
       this.conversationHistoryManager.addMessage({
         role: "user",
         content: this.displayMessage,
+        checkpointId: this.taskCheckpointId,
       });
       logger.debug("save", this.displayMessage);
       await this.recursivelyMakeRequest(this.history);
@@ -183,24 +257,46 @@ export class Task {
 
       const apiHandler = new ApiHandler(this.apiConfiguration);
       const systemPrompt = await this.getSystemPrompt();
-
-      history = history.map((item) => {
-        if (item.role === "tool_result") {
-          const content = formatToolResult(item.content as ToolResult);
-          return {
-            role: "user",
-            content,
-          };
-        } else {
-          return item;
+      await this.compactHistoryIfNeeded(systemPrompt);
+      if (this.isCancelled) {
+        return;
+      }
+      const toolProtocol = this.getToolProtocol();
+      const tools =
+        toolProtocol === "native"
+          ? buildNativeTools(this.toolExecutor.getToolDefinitions())
+          : undefined;
+
+      // Publish the local estimate before the provider reports usage
+      const promptTokens = this.tokenCounter.countPrompt(
+        systemPrompt,
+        history,
+        tools
+      );
+      this.publishTokenUsage(promptTokens);
+
+      if (!(await this.confirmSpendIfNeeded(promptTokens))) {
+        if (!this.isCancelled) {
+          this.provider.postMessageToWebview({
+            type: "error",
+            message: `Stopped: the conversation reached its spend cap of ${formatCost(
+              this.costSettings.spendCap
+            )}.`,
+          });
+          this.completeTask();
         }
-      });
+        return;
+      }
+      if (this.isCancelled) {
+        return;
+      }
 
       // Stream LLM response
       const stream = apiHandler.createMessage(
         systemPrompt,
-        history as OpenAIHistoryItem,
-        this.createAbortController().signal
+        buildRequestMessages(history, toolProtocol),
+        this.createAbortController().signal,
+        tools
       );
 
       const parser = createAssistantMessageParser(this.toolExecutor);
@@ -230,9 +326,17 @@ export class Task {
 
       this.abortController = null;
 
-      if (usage) {
-        this.publishTokenUsage(usage);
-      }
+      const requestUsage: TokenUsage = usage ?? {
+        promptTokens: sumPromptTokens(promptTokens),
+        completionTokens: this.tokenCounter.countText(assistantMessage),
+        totalTokens: 0,
+      };
+      this.recordCost(requestUsage);
+      this.lastReportedTokens = this.publishTokenUsage(
+        promptTokens,
+        requestUsage,
+        !usage
+      );
 
       logger.debug(
         `[Task ${this.id}] Loop ${this.loopCount}: Assistant response received`
@@ -244,11 +348,19 @@ export class Task {
         assistantMessage
       );
 
-      // Add assistant message to history for the LLM
+      const toolCalls = assistantContent.filter(
+        (content): content is ToolUse => content.type === "tool_use"
+      );
+
+      // Add assistant message to history for the LLM. Tool calls are kept in
+      // both protocols so compaction can pair them with their results.
       const assistantHistoryItem: HistoryItem = {
         role: "assistant",
         content: assistantMessage,
       };
+      if (toolCalls.length > 0) {
+        assistantHistoryItem.toolCalls = toolCalls;
+      }
       this.history.push(assistantHistoryItem);
 
       // Save assistant message to display history (tool XML stripped)
@@ -261,9 +373,6 @@ export class Task {
           content: assistantDisplayContent,
         });
       }
-      const toolCalls = assistantContent.filter(
-        (content): content is ToolUse => content.type === "tool_use"
-      );
 
       // If no tool calls found, prompt LLM to use tools (Requirement 6.6)
       if (toolCalls.length === 0) {
@@ -335,6 +444,192 @@ export class Task {
     }
   }
 
+  /**
+   * Record the workspace at the start of the task
+   */
+  private createTaskCheckpoint(): string {
+    const checkpoint = this.provider
+      .getCheckpointManager()
+      .createTaskCheckpoint(this.getCheckpointContext(), this.displayMessage);
+    this.provider.postMessageToWebview({
+      type: "checkpoint_created",
+      checkpoint,
+    });
+    return checkpoint.id;
+  }
+
+  /**
+   * Record the file a tool call is about to change
+   */
+  private async createToolCallCheckpoint(
+    toolCall: ToolUse
+  ): Promise<string | undefined> {
+    const checkpoint = await this.provider
+      .getCheckpointManager()
+      .createToolCallCheckpoint(this.getCheckpointContext(), toolCall);
+    if (!checkpoint) {
+      return undefined;
+    }
+
+    this.toolCallCheckpointIds.set(toolCall, checkpoint.id);
+    this.provider.postMessageToWebview({
+      type: "checkpoint_created",
+      checkpoint,
+    });
+    return checkpoint.id;
+  }
+
+  /**
+   * Record files a tool call is about to change in its checkpoint
+   */
+  private async addCheckpointFiles(
+    toolCall: ToolUse,
+    paths: string[]
+  ): Promise<void> {
+    const checkpointId = this.toolCallCheckpointIds.get(toolCall);
+    if (!checkpointId) {
+      return;
+    }
+    await this.provider
+      .getCheckpointManager()
+      .addCheckpointFiles(
+        this.getCheckpointContext().conversationId,
+        checkpointId,
+        paths
+      );
+  }
+
+  private getCheckpointContext() {
+    return {
+      taskId: this.id,
+      conversationId:
+        this.conversationHistoryManager.getCurrentConversationId() ?? "",
+      messageIndex: this.conversationHistoryManager.getMessageCount(),
+    };
+  }
+
+  /**
+   * Summarize older turns when the history approaches the context window
+   */
+  private async compactHistoryIfNeeded(systemPrompt: string): Promise<void> {
+    if (
+      !this.contextCompactor.shouldCompact(
+        this.history,
+        systemPrompt,
+        this.lastReportedTokens
+      )
+    ) {
+      return;
+    }
+
+    logger.debug(`[Task ${this.id}] Compacting conversation context...`);
+    const result = await this.contextCompactor.compact(
+      this.history,
+      this.createAbortController().signal
+    );
+    this.abortController = null;
+
+    if (!result || this.isCancelled) {
+      return;
+    }
+
+    // Replace in place so callers holding the history array see the result
+    this.history.splice(0, this.history.length, ...result.history);
+    this.lastReportedTokens = 0;
+
+    this.provider.postMessageToWebview({
+      type: "context_compacted",
+      summarizedMessages: result.summarizedCount,
+    });
+    this.publishTokenUsage(
+      this.tokenCounter.countPrompt(systemPrompt, this.history)
+    );
+  }
+
+  /**
+   * Ask the user to continue when the next request could push the
+   * conversation over its approved spend. Each approval raises the limit by
+   * one spend cap, so a runaway task is stopped again at the next step.
+   * Models without a configured price cannot be capped; the user is warned.
+   */
+  private async confirmSpendIfNeeded(
+    breakdown: PromptTokenBreakdown
+  ): Promise<boolean> {
+    const { spendCap } = this.costSettings;
+    if (spendCap <= 0) {
+      return true;
+    }
+    if (!this.modelPrice) {
+      this.warnUnpricedModel();
+      return true;
+    }
+
+    // Assume the response uses the whole completion budget
+    const nextCost = calculateCost(
+      {
+        promptTokens: sumPromptTokens(breakdown),
+        completionTokens: this.apiConfiguration.maxTokens ?? 0,
+        totalTokens: 0,
+      },
+      this.modelPrice
+    );
+    const spent = this.conversationHistoryManager.getConversationCost();
+    const limit = this.approvedSpendLimit;
+    if (spent + nextCost <= limit) {
+      return true;
+    }
+
+    logger.debug(
+      `[Task ${this.id}] Spend limit reached: ${formatCost(spent)} of ${formatCost(limit)}`
+    );
+    const nextLimit = getNextSpendLimit(spent + nextCost, spendCap);
+    const approved = await this.provider
+      .getPermissionManager()
+      .requestUserConfirmation({
+        toolName: "spend_cap",
+        operation: "spend",
+        target: `${formatCost(spent)} of ${formatCost(limit)} spent`,
+        details: `The next request to ${this.apiConfiguration.model} may cost up to ${formatCost(
+          nextCost
+        )} and exceed the approved spend of ${formatCost(
+          limit
+        )}. Continue the task? You will be asked again at ${formatCost(
+          nextLimit
+        )}.`,
+      });
+    if (approved) {
+      this.approvedSpendLimit = nextLimit;
+    }
+    return approved;
+  }
+
+  /**
+   * Tell the user once per task that the spend cap is not enforced because
+   * the model has no configured price
+   */
+  private warnUnpricedModel(): void {
+    if (this.unpricedModelWarned) {
+      return;
+    }
+    this.unpricedModelWarned = true;
+    vscode.window.showWarningMessage(
+      `The spend cap is not enforced: no price is configured for ${this.apiConfiguration.model}. Add it to the codeSidecar.cost.modelPrices setting.`
+    );
+  }
+
+  /**
+   * Add the cost of a request to the task and conversation totals
+   */
+  private recordCost(usage: TokenUsage): void {
+    if (!this.modelPrice) {
+      return;
+    }
+    this.conversationHistoryManager.addCost(
+      this.id,
+      calculateCost(usage, this.modelPrice)
+    );
+  }
+
   /**
    * Check if the loop should continue
    */
@@ -352,10 +647,19 @@ export class Task {
     }
 
     // Use PromptBuilder if available (dynamic prompt generation)
-    this.systemPrompt = this.promptBuilder.buildSystemPrompt();
+    this.systemPrompt = this.promptBuilder.buildSystemPrompt(
+      this.getToolProtocol()
+    );
     return this.systemPrompt;
   }
 
+  /**
+   * Get the tool protocol configured for this task
+   */
+  private getToolProtocol(): ToolProtocol {
+    return this.apiConfiguration.toolProtocol ?? "xml";
+  }
+
   /**
    * Get task ID
    */
@@ -408,6 +712,7 @@ export class Task {
     this.isCancelled = true;
     this.abortController?.abort();
     this.abortController = null;
+    this.toolAbortController.abort();
     this.completeTask();
   }
 
@@ -417,27 +722,50 @@ export class Task {
     }
     this.isCompleted = true;
     this.toolExecutor.setFileChangeTracker(undefined);
+    void this.provider.getProcessManager().stopTaskProcesses(this.id);
 
     const diff = this.diffTracker.buildTaskDiff();
     if (diff) {
+      diff.checkpointId = this.taskCheckpointId;
       this.provider.postMessageToWebview({ type: "task_diff", diff });
     }
+    void this.provider.getStagedEditManager().promptReview();
 
     this.provider.postMessageToWebview({ type: "task_complete" });
   }
 
   /**
-   * Publish token usage to the webview
+   * Publish token usage to the webview.
+   * Counts reported by the provider take precedence over local estimates.
+   * @returns Total tokens of the request
    */
-  private publishTokenUsage(usage: TokenUsage): void {
-    const totalTokens = usage.totalTokens;
+  private publishTokenUsage(
+    breakdown: PromptTokenBreakdown,
+    usage?: TokenUsage,
+    estimated = !usage
+  ): number {
+    const promptTokens = usage?.promptTokens ?? sumPromptTokens(breakdown);
+    const completionTokens = usage?.completionTokens ?? 0;
+    const totalTokens = usage?.totalTokens || promptTokens + completionTokens;
+
     this.provider.postMessageToWebview({
       type: "token_usage",
       usage: {
         totalTokens,
         availableTokens: this.contextWindowTokens,
+        promptTokens,
+        completionTokens,
+        breakdown,
+        estimated,
+        taskCost: this.modelPrice
+          ? this.conversationHistoryManager.getTaskCost(this.id)
+          : undefined,
+        conversationCost: this.modelPrice
+          ? this.conversationHistoryManager.getConversationCost()
+          : undefined,
       },
     });
+    return totalTokens;
   }
 
   private createAbortController(): AbortController {
@@ -450,6 +778,17 @@ export class Task {
    * This prompts the LLM to use the proper tool format
    */
   private noToolsUsed(): string {
+    if (this.getToolProtocol() === "native") {
+      return `[ERROR] You did not use a tool in your previous response! Please retry with a tool call.
+
+# Reminder: Instructions for Tool Use
+
+Call tools through the native function-calling interface. Do not describe tool calls in text or XML.
+
+When the task is finished, call the attempt_completion tool with a summary of the result.
+`;
+    }
+
     return `[ERROR] You did not use a tool in your previous response! Please retry with a tool use.
 
 # Reminder: Instructions for Tool Use
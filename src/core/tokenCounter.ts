@@ -0,0 +1,175 @@
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+import type {
+  ApiConfiguration,
+  ToolProtocol,
+} from "code-sidecar-shared/types/api";
+import type { PromptTokenBreakdown } from "code-sidecar-shared/types/messages";
+import type { HistoryItem, NativeToolDefinition } from "./apiHandler";
+import { formatToolResult } from "./toolCallHandler";
+
+/** Approximate per-message overhead added by chat formatting */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Counts tokens for a piece of text
+ */
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * Creates a tokenizer for an API configuration, or undefined if the model is not supported
+ */
+export type TokenizerFactory = (
+  apiConfiguration: ApiConfiguration
+) => Tokenizer | undefined;
+
+/**
+ * Fallback tokenizer that assumes a fixed number of characters per token
+ */
+export class CharRatioTokenizer implements Tokenizer {
+  readonly name = "char-ratio";
+
+  constructor(private charsPerToken: number) {}
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
+
+/**
+ * Byte-pair encoding tokenizer for OpenAI-family models
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private count: typeof countO200kTokens
+  ) {}
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    // Treat special-token text as plain text instead of throwing
+    return this.count(text, { disallowedSpecial: new Set() });
+  }
+}
+
+const o200kTokenizer = new BpeTokenizer("o200k_base", countO200kTokens);
+const cl100kTokenizer = new BpeTokenizer("cl100k_base", countCl100kTokens);
+
+const createOpenAITokenizer: TokenizerFactory = (apiConfiguration) => {
+  // Proxies often prefix the model with a vendor, e.g. "openai/gpt-4o"
+  const model = apiConfiguration.model.toLowerCase().split("/").pop() ?? "";
+
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/.test(model)) {
+    return o200kTokenizer;
+  }
+  if (/^(gpt-4|gpt-3\.5|gpt-35)/.test(model)) {
+    return cl100kTokenizer;
+  }
+  return undefined;
+};
+
+const tokenizerFactories: TokenizerFactory[] = [createOpenAITokenizer];
+
+/**
+ * Register a tokenizer factory. Later registrations take precedence.
+ */
+export const registerTokenizerFactory = (factory: TokenizerFactory): void => {
+  tokenizerFactories.unshift(factory);
+};
+
+/**
+ * Pick the tokenizer for a configuration, falling back to a char ratio
+ */
+export const createTokenizer = (
+  apiConfiguration: ApiConfiguration,
+  charsPerToken: number
+): Tokenizer => {
+  for (const factory of tokenizerFactories) {
+    const tokenizer = factory(apiConfiguration);
+    if (tokenizer) {
+      return tokenizer;
+    }
+  }
+  return new CharRatioTokenizer(charsPerToken);
+};
+
+/**
+ * TokenCounter estimates request sizes before they are sent.
+ * Counts of history items are cached, since items do not change once added.
+ */
+export class TokenCounter {
+  private itemCounts = new WeakMap<HistoryItem, number>();
+
+  constructor(
+    private tokenizer: Tokenizer,
+    private toolProtocol: ToolProtocol = "xml"
+  ) {}
+
+  getTokenizerName(): string {
+    return this.tokenizer.name;
+  }
+
+  countText(text: string): number {
+    return this.tokenizer.countTokens(text);
+  }
+
+  /**
+   * Count the system prompt, native tool definitions and each history item
+   */
+  countPrompt(
+    systemPrompt: string,
+    history: HistoryItem[],
+    tools?: NativeToolDefinition[]
+  ): PromptTokenBreakdown {
+    let systemTokens = this.countText(systemPrompt) + MESSAGE_OVERHEAD_TOKENS;
+    if (tools && tools.length > 0) {
+      systemTokens += this.countText(JSON.stringify(tools));
+    }
+
+    let messageTokens = 0;
+    let toolResultTokens = 0;
+    for (const item of history) {
+      const tokens = this.countItem(item);
+      if (item.role === "tool_result") {
+        toolResultTokens += tokens;
+      } else {
+        messageTokens += tokens;
+      }
+    }
+
+    return { systemTokens, messageTokens, toolResultTokens };
+  }
+
+  private countItem(item: HistoryItem): number {
+    const cached = this.itemCounts.get(item);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const content =
+      typeof item.content === "string"
+        ? item.content
+        : formatToolResult(item.content);
+    let tokens = this.countText(content) + MESSAGE_OVERHEAD_TOKENS;
+    // XML tool calls are already part of the assistant text
+    const toolCalls = this.toolProtocol === "native" ? item.toolCalls : [];
+    for (const toolCall of toolCalls ?? []) {
+      tokens += this.countText(toolCall.name);
+      tokens += this.countText(JSON.stringify(toolCall.params ?? {}));
+    }
+
+    this.itemCounts.set(item, tokens);
+    return tokens;
+  }
+}
+
+/**
+ * Total prompt tokens of a breakdown
+ */
+export const sumPromptTokens = (breakdown: PromptTokenBreakdown): number =>
+  breakdown.systemTokens + breakdown.messageTokens + breakdown.toolResultTokens;
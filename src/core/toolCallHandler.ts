@@ -1,5 +1,5 @@
 import { ConversationHistoryManager } from "../managers";
-import { ToolExecutor } from "../tools";
+import { ToolExecutionContext, ToolExecutor } from "../tools";
 import { logger } from "code-sidecar-shared/utils/logger";
 import type { ToolResult, ToolUse } from "code-sidecar-shared/types/tools";
 
@@ -8,7 +8,40 @@ type ToolCallHandlerOptions = {
   toolExecutor: ToolExecutor;
   conversationHistoryManager: ConversationHistoryManager;
   publishToolCall: (toolCall: ToolUse) => void;
+  /** Record a checkpoint before the tool call runs, returns its id if taken */
+  createCheckpoint?: (toolCall: ToolUse) => Promise<string | undefined>;
   isCancelled: () => boolean;
+  /** Cancellation and live output of a tool call */
+  createExecutionContext?: (toolCall: ToolUse) => ToolExecutionContext;
+  /** Maximum number of read-only tool calls that run at the same time */
+  maxParallelToolCalls?: number;
+};
+
+/**
+ * Split tool calls into batches that run one after another. Consecutive
+ * read-only calls share a batch; every other call gets a batch of its own.
+ */
+const buildBatches = (
+  toolCalls: ToolUse[],
+  isReadOnly: (toolCall: ToolUse) => boolean
+): ToolUse[][] => {
+  const batches: ToolUse[][] = [];
+  let readOnlyBatch: ToolUse[] | undefined;
+
+  for (const toolCall of toolCalls) {
+    if (!isReadOnly(toolCall)) {
+      readOnlyBatch = undefined;
+      batches.push([toolCall]);
+      continue;
+    }
+    if (!readOnlyBatch) {
+      readOnlyBatch = [];
+      batches.push(readOnlyBatch);
+    }
+    readOnlyBatch.push(toolCall);
+  }
+
+  return batches;
 };
 
 export const formatToolResult = (result: ToolResult): string => {
@@ -24,33 +57,77 @@ export const hasAttemptCompletion = (toolCalls: ToolUse[]): boolean =>
 export class ToolCallHandler {
   constructor(private options: ToolCallHandlerOptions) {}
 
+  /**
+   * Execute tool calls and return their results in call order.
+   * Read-only calls run concurrently up to the configured limit; mutating
+   * and exec calls run alone, after every call requested before them.
+   */
   async executeToolCalls(toolCalls: ToolUse[]): Promise<ToolResult[]> {
+    const { toolExecutor } = this.options;
+    const batches = buildBatches(
+      toolCalls,
+      (toolCall) => toolExecutor.getToolSideEffect(toolCall.name) === "read_only"
+    );
     const results: ToolResult[] = [];
 
-    for (const toolCall of toolCalls) {
+    for (const batch of batches) {
       if (this.options.isCancelled()) {
         break;
       }
-      logger.debug(
-        `[Task ${this.options.taskId}] Executing tool: ${toolCall.name}`
-      );
-
-      this.options.publishToolCall(toolCall);
-
-      this.options.conversationHistoryManager.addMessage({
-        role: "system",
-        content: "",
-        toolCalls: [toolCall],
-      });
 
-      const result = await this.options.toolExecutor.executeTool(toolCall);
-      if (toolCall.id) {
-        result.tool_call_id = toolCall.id;
+      // Announce the calls in order before any of them starts running
+      for (const toolCall of batch) {
+        await this.announceToolCall(toolCall);
       }
 
-      results.push(result);
+      results.push(...(await this.runBatch(batch)));
     }
 
     return results;
   }
+
+  private async announceToolCall(toolCall: ToolUse): Promise<void> {
+    this.options.publishToolCall(toolCall);
+
+    const checkpointId = await this.options.createCheckpoint?.(toolCall);
+    this.options.conversationHistoryManager.addMessage({
+      role: "system",
+      content: "",
+      toolCalls: [toolCall],
+      checkpointId,
+    });
+  }
+
+  private async runBatch(batch: ToolUse[]): Promise<ToolResult[]> {
+    const results: ToolResult[] = new Array(batch.length);
+    const limit = Math.max(1, this.options.maxParallelToolCalls ?? 1);
+    let nextIndex = 0;
+
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < batch.length) {
+        const index = nextIndex++;
+        results[index] = await this.runToolCall(batch[index]);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(limit, batch.length) }, runNext)
+    );
+    return results;
+  }
+
+  private async runToolCall(toolCall: ToolUse): Promise<ToolResult> {
+    logger.debug(
+      `[Task ${this.options.taskId}] Executing tool: ${toolCall.name}`
+    );
+
+    const result = await this.options.toolExecutor.executeTool(
+      toolCall,
+      this.options.createExecutionContext?.(toolCall)
+    );
+    if (toolCall.id) {
+      result.tool_call_id = toolCall.id;
+    }
+    return result;
+  }
 }
@@ -0,0 +1,201 @@
+import type { ToolProtocol } from "code-sidecar-shared/types/api";
+import type { ToolResult, ToolUse } from "code-sidecar-shared/types/tools";
+import type { ParameterDefinition, ToolDefinition } from "../tools";
+import type {
+  HistoryItem,
+  NativeToolCallDelta,
+  NativeToolDefinition,
+  OpenAIHistoryItem,
+} from "./apiHandler";
+import { formatToolResult } from "./toolCallHandler";
+
+type JsonSchema = Record<string, unknown>;
+
+const buildParameterSchema = (param: ParameterDefinition): JsonSchema => {
+  if (param.schema) {
+    return { ...param.schema, description: param.description };
+  }
+
+  const schema: JsonSchema = {
+    type: param.type,
+    description: param.description,
+  };
+
+  if (param.type === "array") {
+    schema.items = {};
+  }
+
+  return schema;
+};
+
+/**
+ * Convert registered tool definitions into native function definitions
+ */
+export const buildNativeTools = (
+  definitions: ToolDefinition[]
+): NativeToolDefinition[] =>
+  definitions.map((definition) => {
+    const properties: Record<string, JsonSchema> = {};
+    for (const param of definition.parameters) {
+      properties[param.name] = buildParameterSchema(param);
+    }
+
+    return {
+      type: "function",
+      function: {
+        name: definition.name,
+        description: definition.description,
+        parameters: {
+          type: "object",
+          properties,
+          required: definition.parameters
+            .filter((param) => param.required)
+            .map((param) => param.name),
+        },
+      },
+    };
+  });
+
+const parseArguments = (
+  rawArguments: string
+): Record<string, unknown> | undefined => {
+  if (!rawArguments.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(rawArguments);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Assembles streamed native tool call fragments into ToolUse objects.
+ * Parameters are refreshed whenever the accumulated arguments form valid JSON.
+ */
+export class NativeToolCallAssembler {
+  private readonly calls = new Map<
+    number,
+    { toolUse: ToolUse; rawArguments: string }
+  >();
+
+  push(delta: NativeToolCallDelta): void {
+    let entry = this.calls.get(delta.index);
+    if (!entry) {
+      entry = {
+        toolUse: {
+          type: "tool_use",
+          name: "",
+          params: {},
+          partial: true,
+        },
+        rawArguments: "",
+      };
+      this.calls.set(delta.index, entry);
+    }
+
+    if (delta.id && !entry.toolUse.id) {
+      entry.toolUse.id = delta.id;
+    }
+    if (delta.name) {
+      entry.toolUse.name += delta.name;
+    }
+    if (delta.arguments) {
+      entry.rawArguments += delta.arguments;
+      const params = parseArguments(entry.rawArguments);
+      if (params) {
+        entry.toolUse.params = params;
+      }
+    }
+  }
+
+  /**
+   * Tool calls received so far, in stream order. Calls without a name yet are skipped.
+   */
+  getToolUses(): ToolUse[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, entry]) => entry.toolUse)
+      .filter((toolUse) => toolUse.name.length > 0);
+  }
+
+  /**
+   * Mark every call as complete. Calls whose arguments never became valid
+   * JSON keep empty params so parameter validation reports the problem.
+   * Calls the provider sent without an id get one, so their results can
+   * be answered with a `tool` message.
+   */
+  finalize(): ToolUse[] {
+    for (const entry of this.calls.values()) {
+      entry.toolUse.partial = false;
+      entry.toolUse.params = parseArguments(entry.rawArguments) ?? {};
+      if (!entry.toolUse.id) {
+        entry.toolUse.id = `call-${Date.now()}-${Math.random()
+          .toString(36)
+          .substring(2, 11)}`;
+      }
+    }
+    return this.getToolUses();
+  }
+}
+
+const toNativeToolCalls = (toolCalls: ToolUse[]) =>
+  toolCalls
+    .filter((toolCall) => !!toolCall.id)
+    .map((toolCall) => ({
+      id: toolCall.id as string,
+      type: "function" as const,
+      function: {
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.params ?? {}),
+      },
+    }));
+
+/**
+ * Convert task history into chat messages for the selected tool protocol.
+ * XML mode replays tool results as user messages; native mode keeps the
+ * assistant tool_calls and answers each one with a `tool` message.
+ */
+export const buildRequestMessages = (
+  history: HistoryItem[],
+  toolProtocol: ToolProtocol
+): OpenAIHistoryItem =>
+  history.map((item) => {
+    // Providers reject an empty tool_calls list
+    const toolCalls =
+      toolProtocol === "native" && item.role === "assistant"
+        ? toNativeToolCalls(item.toolCalls ?? [])
+        : [];
+
+    if (item.role === "tool_result") {
+      const result = item.content as ToolResult;
+      const content = formatToolResult(result);
+
+      if (toolProtocol === "native" && result.tool_call_id) {
+        return {
+          role: "tool",
+          tool_call_id: result.tool_call_id,
+          content,
+        };
+      }
+
+      return { role: "user", content };
+    }
+
+    if (toolCalls.length > 0) {
+      return {
+        role: "assistant",
+        content: (item.content as string) || null,
+        tool_calls: toolCalls,
+      };
+    }
+
+    return {
+      role: item.role,
+      content: item.content,
+    } as OpenAIHistoryItem[number];
+  });
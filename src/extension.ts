@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { AgentWebviewProvider } from "./ui/AgentWebviewProvider";
+import { STAGED_EDIT_SCHEME } from "./managers/StagedEditManager";
 
 export async function activate(context: vscode.ExtensionContext) {
   const provider = new AgentWebviewProvider(context);
@@ -14,6 +15,24 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  const stagedEditManager = provider.getStagedEditManager();
+  context.subscriptions.push(
+    stagedEditManager,
+    vscode.workspace.registerTextDocumentContentProvider(
+      STAGED_EDIT_SCHEME,
+      stagedEditManager
+    ),
+    vscode.commands.registerCommand("code-sidecar.reviewStagedEdits", () =>
+      stagedEditManager.review()
+    ),
+    vscode.commands.registerCommand("code-sidecar.commitStagedEdits", () =>
+      stagedEditManager.commit()
+    ),
+    vscode.commands.registerCommand("code-sidecar.discardStagedEdits", () =>
+      stagedEditManager.discard()
+    )
+  );
+
   // 注册分析选中代码的命令
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -0,0 +1,558 @@
+import * as vscode from "vscode";
+import { logger } from "code-sidecar-shared/utils/logger";
+import type { ApiConfiguration } from "code-sidecar-shared/types/api";
+import {
+  DEFAULT_CODEBASE_INDEX_SETTINGS,
+  type CodebaseIndexSettings,
+} from "code-sidecar-shared/types/config";
+import { chunkFile, type CodeChunk, type SymbolRange } from "./codeChunker";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./EmbeddingProvider";
+import type { IgnoreService } from "../managers/IgnoreService";
+import {
+  isInsideRoot,
+  resolveWorkspacePath,
+  toWorkspacePath,
+} from "../tools/workspacePaths";
+
+const INDEX_FILE_NAME = "codebase-index.json";
+/** Bumped when the stored format or the chunking changes */
+const INDEX_VERSION = 2;
+/** Larger files are left out of the index */
+const MAX_FILE_BYTES = 512 * 1024;
+/** Files containing a NUL byte in this many leading bytes are binary */
+const BINARY_CHECK_BYTES = 8000;
+/** Time a language server gets to return the symbols of a file */
+const SYMBOL_TIMEOUT_MS = 5000;
+/** Delay before the index is written after an update */
+const SAVE_DELAY_MS = 2000;
+/** Failed files in a row after which a refresh gives up */
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+/** Chunk text is read from the file when a search returns the chunk */
+type ChunkLocation = Omit<CodeChunk, "text">;
+
+type IndexedChunk = ChunkLocation & { vector: Float32Array };
+
+type IndexedFile = {
+  mtime: number;
+  size: number;
+  chunks: IndexedChunk[];
+};
+
+type StoredIndex = {
+  version: number;
+  providerId: string;
+  files: Record<
+    string,
+    {
+      mtime: number;
+      size: number;
+      chunks: (ChunkLocation & { vector: string })[];
+    }
+  >;
+};
+
+export type CodebaseSearchResult = {
+  /** Absolute path of the file */
+  path: string;
+  chunk: CodeChunk;
+  /** Cosine similarity to the query, higher is closer */
+  score: number;
+};
+
+export type CodebaseIndexStatus = {
+  enabled: boolean;
+  indexing: boolean;
+  indexedFiles: number;
+  /** Files found by the last refresh */
+  totalFiles?: number;
+  /** Why the last refresh stopped early */
+  lastError?: string;
+};
+
+const encodeVector = (vector: Float32Array): string =>
+  Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString(
+    "base64"
+  );
+
+const decodeVector = (encoded: string): Float32Array => {
+  const bytes = Buffer.from(encoded, "base64");
+  // Copy, as pooled buffers are not aligned for a Float32Array view
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+};
+
+const dotProduct = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let index = 0; index < a.length; index++) {
+    sum += a[index] * b[index];
+  }
+  return sum;
+};
+
+const toSymbolRanges = (
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]
+): SymbolRange[] =>
+  symbols.map((symbol) =>
+    "children" in symbol
+      ? {
+          name: symbol.name,
+          startLine: symbol.range.start.line,
+          endLine: symbol.range.end.line,
+          children: toSymbolRanges(symbol.children),
+        }
+      : {
+          name: symbol.name,
+          startLine: symbol.location.range.start.line,
+          endLine: symbol.location.range.end.line,
+        }
+  );
+
+/**
+ * CodebaseIndex keeps a semantic index of the workspace for
+ * `search_codebase`. Files are split into chunks along the symbols of the
+ * document symbol provider, embedded with the configured embedding
+ * provider and stored in the extension storage, without the chunk text. The
+ * index is brought up to date when it is enabled and refreshed file by file
+ * when files are saved, renamed or deleted.
+ */
+export class CodebaseIndex implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private settings: CodebaseIndexSettings = DEFAULT_CODEBASE_INDEX_SETTINGS;
+  /** Undefined while the index is disabled */
+  private provider: EmbeddingProvider | undefined;
+  private files = new Map<string, IndexedFile>();
+  /** Provider the vectors in `files` were embedded with */
+  private filesProviderId: string | undefined;
+  private loading: Promise<void> | undefined;
+  /** Pending updates, so they run one at a time and in order */
+  private updating: Promise<void> = Promise.resolve();
+  private indexing = false;
+  private totalFiles: number | undefined;
+  private lastError: string | undefined;
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly storageUri: vscode.Uri,
+    private readonly ignoreService: IgnoreService
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.updateFiles([document.uri])
+      ),
+      vscode.workspace.onDidRenameFiles((event) => {
+        this.removeFiles(event.files.map((file) => file.oldUri));
+        this.updateFiles(event.files.map((file) => file.newUri));
+      }),
+      vscode.workspace.onDidDeleteFiles((event) =>
+        this.removeFiles(event.files)
+      ),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+    );
+  }
+
+  /**
+   * Apply the settings, and bring the index up to date with the new
+   * embedding provider. Files are only embedded again when the provider id
+   * changes.
+   */
+  updateSettings(
+    settings: Partial<CodebaseIndexSettings>,
+    apiConfiguration: ApiConfiguration
+  ): void {
+    this.settings = { ...DEFAULT_CODEBASE_INDEX_SETTINGS, ...settings };
+    this.provider = this.settings.enabled
+      ? createEmbeddingProvider(this.settings, apiConfiguration)
+      : undefined;
+    if (this.provider) {
+      // A running refresh stops at the replaced provider and this one
+      // continues where it left off
+      this.refresh();
+    }
+  }
+
+  /**
+   * Bring the index up to date with the workspace: index new and changed
+   * files and drop removed ones
+   */
+  refresh(): Promise<void> {
+    return this.enqueue(() => this.refreshFiles());
+  }
+
+  getStatus(): CodebaseIndexStatus {
+    return {
+      enabled: this.provider !== undefined,
+      indexing: this.indexing,
+      indexedFiles:
+        this.filesProviderId === this.provider?.id ? this.files.size : 0,
+      totalFiles: this.totalFiles,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Chunks closest in meaning to a query, best first. Searches the files
+   * indexed so far while the index is being built.
+   * @param scope Absolute path of a folder or file to search in
+   * @throws Error if the index is disabled or the query cannot be embedded
+   */
+  async search(
+    query: string,
+    limit: number,
+    scope?: string,
+    signal?: AbortSignal
+  ): Promise<CodebaseSearchResult[]> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error(
+        "The codebase index is disabled. Enable the codeSidecar.codebaseIndex.enabled setting to use it."
+      );
+    }
+    await this.ensureLoaded();
+    if (this.filesProviderId !== provider.id) {
+      return [];
+    }
+
+    const [queryVector] = await provider.embed([query], signal);
+    const matches: { path: string; chunk: ChunkLocation; score: number }[] = [];
+    for (const [filePath, file] of this.files) {
+      if (scope && !isInsideRoot(scope, filePath)) {
+        continue;
+      }
+      for (const { vector, ...chunk } of file.chunks) {
+        if (vector.length === queryVector.length) {
+          matches.push({
+            path: filePath,
+            chunk,
+            score: dotProduct(queryVector, vector),
+          });
+        }
+      }
+    }
+    matches.sort((a, b) => b.score - a.score);
+
+    const results: CodebaseSearchResult[] = [];
+    const fileLines = new Map<string, string[] | undefined>();
+    for (const match of matches) {
+      if (results.length >= limit) {
+        break;
+      }
+      if (!fileLines.has(match.path)) {
+        fileLines.set(match.path, await this.readLines(match.path));
+      }
+      const lines = fileLines.get(match.path);
+      const text = lines
+        ?.slice(match.chunk.startLine, match.chunk.endLine + 1)
+        .join("\n");
+      // Files removed or shortened since they were indexed
+      if (text?.trim()) {
+        results.push({ ...match, chunk: { ...match.chunk, text } });
+      }
+    }
+    return results;
+  }
+
+  dispose(): void {
+    clearTimeout(this.saveTimer);
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+
+  private enqueue(update: () => Promise<void>): Promise<void> {
+    this.updating = this.updating.then(update).catch((error) => {
+      logger.warn("[CodebaseIndex] Update failed:", error);
+    });
+    return this.updating;
+  }
+
+  private updateFiles(uris: vscode.Uri[]): void {
+    if (!this.provider) {
+      return;
+    }
+    void this.enqueue(async () => {
+      const provider = this.provider;
+      if (!provider || this.filesProviderId !== provider.id) {
+        return;
+      }
+      for (const uri of uris) {
+        if (await this.isIndexable(uri)) {
+          await this.indexFile(uri, provider);
+        }
+      }
+      this.scheduleSave();
+    });
+  }
+
+  private removeFiles(uris: readonly vscode.Uri[]): void {
+    let removed = false;
+    for (const filePath of [...this.files.keys()]) {
+      if (uris.some((uri) => isInsideRoot(uri.fsPath, filePath))) {
+        this.files.delete(filePath);
+        removed = true;
+      }
+    }
+    if (removed) {
+      this.scheduleSave();
+    }
+  }
+
+  private async readLines(filePath: string): Promise<string[] | undefined> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(
+        vscode.Uri.file(filePath)
+      );
+      return Buffer.from(bytes).toString("utf-8").split(/\r?\n/);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async refreshFiles(): Promise<void> {
+    const provider = this.provider;
+    if (!provider) {
+      return;
+    }
+    await this.ensureLoaded();
+    if (this.filesProviderId !== provider.id) {
+      this.files.clear();
+      this.filesProviderId = provider.id;
+    }
+
+    this.indexing = true;
+    this.lastError = undefined;
+    try {
+      const uris = await this.findIndexableFiles();
+      this.totalFiles = uris.length;
+      const found = new Set(uris.map((uri) => uri.fsPath));
+      for (const filePath of [...this.files.keys()]) {
+        if (!found.has(filePath)) {
+          this.files.delete(filePath);
+        }
+      }
+
+      let failures = 0;
+      for (const uri of uris) {
+        // Settings changed; the refresh they queued takes over
+        if (this.provider !== provider) {
+          return;
+        }
+        try {
+          const stat = await vscode.workspace.fs.stat(uri);
+          const indexed = this.files.get(uri.fsPath);
+          if (indexed?.mtime !== stat.mtime || indexed.size !== stat.size) {
+            await this.indexFile(uri, provider, stat);
+          }
+          failures = 0;
+        } catch (error) {
+          logger.debug(`[CodebaseIndex] Failed to index ${uri.fsPath}:`, error);
+          if (++failures >= MAX_CONSECUTIVE_FAILURES) {
+            this.lastError =
+              error instanceof Error ? error.message : String(error);
+            logger.warn(`[CodebaseIndex] Indexing stopped: ${this.lastError}`);
+            break;
+          }
+        }
+      }
+      logger.debug(`[CodebaseIndex] Indexed ${this.files.size} files`);
+    } finally {
+      this.indexing = false;
+      this.scheduleSave();
+    }
+  }
+
+  private async indexFile(
+    uri: vscode.Uri,
+    provider: EmbeddingProvider,
+    stat?: vscode.FileStat
+  ): Promise<void> {
+    stat ??= await vscode.workspace.fs.stat(uri);
+    if (stat.size > MAX_FILE_BYTES) {
+      this.files.delete(uri.fsPath);
+      return;
+    }
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    if (bytes.subarray(0, BINARY_CHECK_BYTES).includes(0)) {
+      this.files.delete(uri.fsPath);
+      return;
+    }
+
+    const content = Buffer.from(bytes).toString("utf-8");
+    const chunks = chunkFile(content, await this.getSymbols(uri));
+    // The path and symbol name help to find chunks by what they are about
+    const workspacePath = toWorkspacePath(uri.fsPath);
+    const vectors =
+      chunks.length > 0
+        ? await provider.embed(
+            chunks.map(
+              (chunk) => `${workspacePath} ${chunk.symbol ?? ""}\n${chunk.text}`
+            )
+          )
+        : [];
+
+    this.files.set(uri.fsPath, {
+      mtime: stat.mtime,
+      size: stat.size,
+      chunks: chunks.map(({ text: _text, ...chunk }, index) => ({
+        ...chunk,
+        vector: vectors[index],
+      })),
+    });
+  }
+
+  private async getSymbols(uri: vscode.Uri): Promise<SymbolRange[]> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const symbols = await Promise.race([
+        vscode.commands.executeCommand<
+          (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+        >("vscode.executeDocumentSymbolProvider", uri),
+        new Promise<undefined>((resolve) => {
+          timer = setTimeout(() => resolve(undefined), SYMBOL_TIMEOUT_MS);
+        }),
+      ]);
+      return symbols ? toSymbolRanges(symbols) : [];
+    } catch {
+      // Files without a symbol provider are chunked by lines
+      return [];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Walk the workspace folders breadth first, without descending into
+   * ignored directories, so that dependency and build folders are never
+   * listed
+   */
+  private async findIndexableFiles(): Promise<vscode.Uri[]> {
+    const uris: vscode.Uri[] = [];
+    const directories = (vscode.workspace.workspaceFolders ?? []).map(
+      (folder) => folder.uri
+    );
+    for (const directory of directories) {
+      let entries: [string, vscode.FileType][];
+      try {
+        entries = await vscode.workspace.fs.readDirectory(directory);
+      } catch (error) {
+        logger.debug(
+          `[CodebaseIndex] Failed to read ${directory.fsPath}:`,
+          error
+        );
+        continue;
+      }
+      entries.sort(([a], [b]) => a.localeCompare(b));
+
+      for (const [name, type] of entries) {
+        const uri = vscode.Uri.joinPath(directory, name);
+        // Linked directories may lead outside the workspace or in a cycle
+        if (type === vscode.FileType.Directory) {
+          if (!(await this.ignoreService.isIgnored(uri.fsPath, true))) {
+            directories.push(uri);
+          }
+        } else if (type & vscode.FileType.File) {
+          if (uris.length >= this.settings.maxFiles) {
+            logger.debug(
+              `[CodebaseIndex] Indexing the first ${this.settings.maxFiles} files`
+            );
+            return uris;
+          }
+          if (await this.isIndexable(uri)) {
+            uris.push(uri);
+          }
+        }
+      }
+    }
+    return uris;
+  }
+
+  private async isIndexable(uri: vscode.Uri): Promise<boolean> {
+    if (uri.scheme !== "file") {
+      return false;
+    }
+    try {
+      resolveWorkspacePath(uri.fsPath);
+    } catch {
+      // Outside the workspace or denied by the path sandbox
+      return false;
+    }
+    return !(await this.ignoreService.isIgnored(uri.fsPath, false));
+  }
+
+  private get indexUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    let stored: StoredIndex;
+    try {
+      const content = await vscode.workspace.fs.readFile(this.indexUri);
+      stored = JSON.parse(Buffer.from(content).toString("utf-8"));
+    } catch {
+      // Nothing indexed yet
+      return;
+    }
+    if (stored.version !== INDEX_VERSION) {
+      return;
+    }
+
+    this.filesProviderId = stored.providerId;
+    for (const [filePath, file] of Object.entries(stored.files)) {
+      this.files.set(filePath, {
+        mtime: file.mtime,
+        size: file.size,
+        chunks: file.chunks.map(({ vector, ...chunk }) => ({
+          ...chunk,
+          vector: decodeVector(vector),
+        })),
+      });
+    }
+    logger.debug(`[CodebaseIndex] Loaded ${this.files.size} indexed files`);
+  }
+
+  private scheduleSave(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => void this.save(), SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    if (this.filesProviderId === undefined) {
+      return;
+    }
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      providerId: this.filesProviderId,
+      files: {},
+    };
+    for (const [filePath, file] of this.files) {
+      stored.files[filePath] = {
+        mtime: file.mtime,
+        size: file.size,
+        chunks: file.chunks.map(({ vector, ...chunk }) => ({
+          ...chunk,
+          vector: encodeVector(vector),
+        })),
+      };
+    }
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(
+        this.indexUri,
+        Buffer.from(JSON.stringify(stored))
+      );
+    } catch (error) {
+      logger.warn("[CodebaseIndex] Failed to save the index:", error);
+    }
+  }
+}
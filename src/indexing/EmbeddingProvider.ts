@@ -0,0 +1,201 @@
+import { OpenAI } from "openai";
+import type { ApiConfiguration } from "code-sidecar-shared/types/api";
+import type { CodebaseIndexSettings } from "code-sidecar-shared/types/config";
+
+/** Dimensions of the hashing embeddings */
+const HASHING_DIMENSIONS = 256;
+/** Texts sent to an embedding endpoint per request */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** Words too common in code to tell chunks apart */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "as",
+  "async",
+  "await",
+  "const",
+  "do",
+  "else",
+  "export",
+  "for",
+  "from",
+  "function",
+  "if",
+  "import",
+  "in",
+  "is",
+  "let",
+  "new",
+  "of",
+  "or",
+  "return",
+  "the",
+  "this",
+  "to",
+  "var",
+  "we",
+  "where",
+  "with",
+]);
+
+/**
+ * Turns texts into vectors whose dot product measures their similarity
+ */
+export interface EmbeddingProvider {
+  /** Identifies the vector space; indexes built by another id are rebuilt */
+  readonly id: string;
+  /** Embed texts into unit-length vectors, in input order */
+  embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]>;
+}
+
+const normalize = (vector: Float32Array): Float32Array => {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let index = 0; index < vector.length; index++) {
+      vector[index] /= norm;
+    }
+  }
+  return vector;
+};
+
+/** 32-bit FNV-1a hash */
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < token.length; index++) {
+    hash ^= token.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Lowercase words of a text, with identifiers split into their parts, e.g.
+ * `fetchWithRetry` yields `fetchwithretry`, `fetch`, `with` and `retry`
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9]+/)) {
+    if (!word) {
+      continue;
+    }
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .toLowerCase()
+      .split(" ");
+    if (parts.length > 1) {
+      tokens.push(word.toLowerCase());
+    }
+    tokens.push(...parts);
+  }
+  return tokens.filter(
+    (token) =>
+      token.length > 1 && !/^\d+$/.test(token) && !STOP_WORDS.has(token)
+  );
+};
+
+/**
+ * HashingEmbeddingProvider embeds the words of a text with feature hashing.
+ * It needs no model or network access and always returns the same vector
+ * for the same text, which makes it a stand-in for a real embedding model:
+ * it finds chunks that share words and identifier parts with the query.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `hashing-${HASHING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      // The prefix lets word forms such as `retry` and `retries` match
+      if (token.length > 4) {
+        const stem = `~${token.slice(0, 4)}`;
+        counts.set(stem, (counts.get(stem) ?? 0) + 0.5);
+      }
+    }
+
+    const vector = new Float32Array(HASHING_DIMENSIONS);
+    for (const [token, count] of counts) {
+      const hash = hashToken(token);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % HASHING_DIMENSIONS] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * OpenAICompatibleEmbeddingProvider embeds texts with the `/embeddings`
+ * endpoint of an OpenAI-compatible API, such as OpenAI itself or a local
+ * Ollama or LM Studio server
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private readonly client: OpenAI;
+
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    private readonly model: string
+  ) {
+    this.id = `openai-compatible:${baseUrl}:${model}`;
+    // Local servers accept any key, but the client requires one
+    this.client = new OpenAI({
+      baseURL: baseUrl || undefined,
+      apiKey: apiKey || "none",
+    });
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create(
+        {
+          model: this.model,
+          input: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+        },
+        { signal }
+      );
+      const data = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(
+        ...data.map((item) => normalize(Float32Array.from(item.embedding)))
+      );
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Embedding provider selected by the settings. The OpenAI-compatible
+ * provider falls back to the base URL and key of the chat API; a separate
+ * embedding base URL is called without the chat API key.
+ */
+export const createEmbeddingProvider = (
+  settings: CodebaseIndexSettings,
+  apiConfiguration: ApiConfiguration
+): EmbeddingProvider => {
+  if (settings.embeddingProvider === "openai-compatible") {
+    return settings.embeddingBaseUrl
+      ? new OpenAICompatibleEmbeddingProvider(
+          settings.embeddingBaseUrl,
+          "",
+          settings.embeddingModel
+        )
+      : new OpenAICompatibleEmbeddingProvider(
+          apiConfiguration.baseUrl,
+          apiConfiguration.apiKey,
+          settings.embeddingModel
+        );
+  }
+  return new HashingEmbeddingProvider();
+};
@@ -0,0 +1,124 @@
+/** Chunks longer than this are split along child symbols or into windows */
+export const MAX_CHUNK_LINES = 80;
+/** Characters of a chunk that are embedded and stored */
+export const MAX_CHUNK_CHARS = 4000;
+
+/**
+ * Range of a document symbol, with 0-based inclusive lines
+ */
+export type SymbolRange = {
+  name: string;
+  startLine: number;
+  endLine: number;
+  children?: SymbolRange[];
+};
+
+/**
+ * Part of a file that is embedded and returned by searches
+ */
+export type CodeChunk = {
+  /** 0-based inclusive lines */
+  startLine: number;
+  endLine: number;
+  /** Qualified name of the symbol the chunk belongs to, e.g. `Task.run` */
+  symbol?: string;
+  text: string;
+};
+
+const createChunk = (
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  symbol?: string
+): CodeChunk | undefined => {
+  const text = lines.slice(startLine, endLine + 1).join("\n");
+  if (!text.trim()) {
+    return undefined;
+  }
+  return { startLine, endLine, symbol, text: text.slice(0, MAX_CHUNK_CHARS) };
+};
+
+/**
+ * Split lines into consecutive windows of at most MAX_CHUNK_LINES
+ */
+const chunkWindows = (
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  symbol?: string
+): CodeChunk[] => {
+  const chunks: CodeChunk[] = [];
+  for (let line = startLine; line <= endLine; line += MAX_CHUNK_LINES) {
+    const chunk = createChunk(
+      lines,
+      line,
+      Math.min(line + MAX_CHUNK_LINES - 1, endLine),
+      symbol
+    );
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Chunk the lines from `startLine` to `endLine` along the given symbols.
+ * Lines between symbols form chunks of their own, attributed to `parent`.
+ */
+const chunkRange = (
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  symbols: SymbolRange[],
+  parent?: string
+): CodeChunk[] => {
+  const chunks: CodeChunk[] = [];
+  let nextLine = startLine;
+
+  const sorted = symbols
+    .filter(
+      (symbol) => symbol.endLine >= startLine && symbol.startLine <= endLine
+    )
+    .sort((a, b) => a.startLine - b.startLine);
+
+  for (const symbol of sorted) {
+    // Symbols nested in an earlier one, such as overloads, are covered
+    if (symbol.startLine < nextLine) {
+      continue;
+    }
+    const symbolEnd = Math.min(symbol.endLine, endLine);
+    chunks.push(...chunkWindows(lines, nextLine, symbol.startLine - 1, parent));
+
+    const name = parent ? `${parent}.${symbol.name}` : symbol.name;
+    if (symbolEnd - symbol.startLine < MAX_CHUNK_LINES) {
+      const chunk = createChunk(lines, symbol.startLine, symbolEnd, name);
+      if (chunk) {
+        chunks.push(chunk);
+      }
+    } else if (symbol.children && symbol.children.length > 0) {
+      chunks.push(
+        ...chunkRange(lines, symbol.startLine, symbolEnd, symbol.children, name)
+      );
+    } else {
+      chunks.push(...chunkWindows(lines, symbol.startLine, symbolEnd, name));
+    }
+    nextLine = symbolEnd + 1;
+  }
+
+  chunks.push(...chunkWindows(lines, nextLine, endLine, parent));
+  return chunks;
+};
+
+/**
+ * Split a file into chunks along its symbols. Symbols that fit are one
+ * chunk each, longer ones are split along their children, and files
+ * without symbols are split into windows of lines.
+ */
+export const chunkFile = (
+  content: string,
+  symbols: SymbolRange[]
+): CodeChunk[] => {
+  const lines = content.split(/\r?\n/);
+  return chunkRange(lines, 0, lines.length - 1, symbols);
+};
@@ -0,0 +1,22 @@
+/**
+ * Codebase index exports
+ */
+
+export {
+  CodebaseIndex,
+  CodebaseIndexStatus,
+  CodebaseSearchResult,
+} from "./CodebaseIndex";
+export {
+  EmbeddingProvider,
+  HashingEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  createEmbeddingProvider,
+  tokenize,
+} from "./EmbeddingProvider";
+export {
+  CodeChunk,
+  MAX_CHUNK_LINES,
+  SymbolRange,
+  chunkFile,
+} from "./codeChunker";
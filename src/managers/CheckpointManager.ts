@@ -0,0 +1,278 @@
+import * as vscode from "vscode";
+import {
+  FILE_CHANGE_TOOL_NAMES,
+  WORKSPACE_EDIT_TOOL_NAMES,
+} from "../tools/fileChangeTracker";
+import type { ToolFileSystem } from "../tools/toolFileSystem";
+import { resolveWorkspacePath } from "../tools/workspacePaths";
+import { logger } from "code-sidecar-shared/utils/logger";
+import type { CheckpointSummary } from "code-sidecar-shared/types/checkpoints";
+import type { ToolUse } from "code-sidecar-shared/types/tools";
+
+/**
+ * Content of a file when a checkpoint was taken.
+ * Content is undefined when the file did not exist yet.
+ */
+interface FileState {
+  absolutePath: string;
+  content: Uint8Array | undefined;
+}
+
+interface Checkpoint extends CheckpointSummary {
+  conversationId: string;
+  /** Number of display messages in the conversation when the checkpoint was taken */
+  messageIndex: number;
+  files: FileState[];
+}
+
+type CheckpointContext = {
+  taskId: string;
+  conversationId: string;
+  messageIndex: number;
+};
+
+/**
+ * Result of restoring a checkpoint
+ */
+export interface CheckpointRestoreResult {
+  checkpoint: CheckpointSummary;
+  messageIndex: number;
+  restoredFiles: string[];
+}
+
+const toSummary = ({
+  id,
+  taskId,
+  kind,
+  label,
+  createdAt,
+  toolName,
+  toolCallId,
+}: Checkpoint): CheckpointSummary => ({
+  id,
+  taskId,
+  kind,
+  label,
+  createdAt,
+  toolName,
+  toolCallId,
+});
+
+/**
+ * CheckpointManager records workspace file states so tasks can be rolled back.
+ * A checkpoint is taken at the start of every task and before every tool
+ * call that changes a file. Restoring a checkpoint reverts all files changed
+ * since then and drops the later checkpoints. Checkpoints are kept in memory
+ * for the lifetime of the extension host.
+ *
+ * Files are read and restored through the file system of the tools, so
+ * with staged edits a checkpoint holds the content the agent saw and a
+ * restore replaces the staged edits.
+ */
+export class CheckpointManager {
+  private checkpoints = new Map<string, Checkpoint[]>();
+
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {}
+
+  /**
+   * Record the start of a task
+   */
+  createTaskCheckpoint(
+    context: CheckpointContext,
+    label: string
+  ): CheckpointSummary {
+    return this.addCheckpoint({
+      ...context,
+      id: this.generateCheckpointId(),
+      kind: "task_start",
+      label,
+      createdAt: new Date().toISOString(),
+      files: [],
+    });
+  }
+
+  /**
+   * Record the target file of a tool call before it runs. Tools that find
+   * out which files they change while running get an empty checkpoint,
+   * which `addCheckpointFiles` fills in before the files are changed.
+   * @returns The checkpoint, or undefined when the tool does not change files
+   */
+  async createToolCallCheckpoint(
+    context: CheckpointContext,
+    toolCall: ToolUse
+  ): Promise<CheckpointSummary | undefined> {
+    if (WORKSPACE_EDIT_TOOL_NAMES.has(toolCall.name)) {
+      return this.addCheckpoint({
+        ...context,
+        id: this.generateCheckpointId(),
+        kind: "tool_call",
+        label: toolCall.name,
+        createdAt: new Date().toISOString(),
+        toolName: toolCall.name,
+        toolCallId: toolCall.id,
+        files: [],
+      });
+    }
+
+    const filePath =
+      typeof toolCall.params.path === "string" ? toolCall.params.path : "";
+    if (!FILE_CHANGE_TOOL_NAMES.has(toolCall.name) || !filePath) {
+      return undefined;
+    }
+
+    const absolutePath = this.resolveFilePath(filePath);
+    if (!absolutePath) {
+      return undefined;
+    }
+
+    return this.addCheckpoint({
+      ...context,
+      id: this.generateCheckpointId(),
+      kind: "tool_call",
+      label: `${toolCall.name} ${filePath}`,
+      createdAt: new Date().toISOString(),
+      toolName: toolCall.name,
+      toolCallId: toolCall.id,
+      files: [{ absolutePath, content: await this.readFile(absolutePath) }],
+    });
+  }
+
+  /**
+   * Record the current content of files in a checkpoint, before a tool
+   * changes them. Files the checkpoint already holds keep their content.
+   * @param absolutePaths Absolute paths of the files
+   * @throws Error if the checkpoint does not exist in the conversation
+   */
+  async addCheckpointFiles(
+    conversationId: string,
+    checkpointId: string,
+    absolutePaths: string[]
+  ): Promise<void> {
+    const checkpoint = this.checkpoints
+      .get(conversationId)
+      ?.find((item) => item.id === checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    for (const absolutePath of absolutePaths) {
+      if (
+        !checkpoint.files.some((file) => file.absolutePath === absolutePath)
+      ) {
+        checkpoint.files.push({
+          absolutePath,
+          content: await this.readFile(absolutePath),
+        });
+      }
+    }
+  }
+
+  /**
+   * Get a checkpoint of a conversation
+   */
+  getCheckpoint(
+    conversationId: string,
+    checkpointId: string
+  ): CheckpointSummary | undefined {
+    const checkpoint = this.checkpoints
+      .get(conversationId)
+      ?.find((item) => item.id === checkpointId);
+    return checkpoint ? toSummary(checkpoint) : undefined;
+  }
+
+  /**
+   * Revert the workspace files to their state at a checkpoint.
+   * The checkpoint and every later one are removed.
+   * @throws Error if the checkpoint does not exist in the conversation
+   */
+  async restoreCheckpoint(
+    conversationId: string,
+    checkpointId: string
+  ): Promise<CheckpointRestoreResult> {
+    const checkpoints = this.checkpoints.get(conversationId) ?? [];
+    const index = checkpoints.findIndex((item) => item.id === checkpointId);
+    if (index < 0) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const target = checkpoints[index];
+    const laterCheckpoints = checkpoints.slice(index);
+    const restoredFiles = new Set<string>();
+
+    // Undo the newest changes first so each file ends at its earliest state
+    for (const checkpoint of [...laterCheckpoints].reverse()) {
+      for (const file of checkpoint.files) {
+        await this.writeFileState(file);
+        restoredFiles.add(vscode.workspace.asRelativePath(file.absolutePath));
+      }
+    }
+
+    this.checkpoints.set(conversationId, checkpoints.slice(0, index));
+    logger.debug(
+      `[CheckpointManager] Restored checkpoint ${checkpointId}, reverted ${restoredFiles.size} files`
+    );
+
+    return {
+      checkpoint: toSummary(target),
+      messageIndex: target.messageIndex,
+      restoredFiles: [...restoredFiles],
+    };
+  }
+
+  /**
+   * Drop the checkpoints of a conversation
+   */
+  clearConversation(conversationId: string): void {
+    this.checkpoints.delete(conversationId);
+  }
+
+  /**
+   * Drop all checkpoints
+   */
+  clearAll(): void {
+    this.checkpoints.clear();
+  }
+
+  private addCheckpoint(checkpoint: Checkpoint): CheckpointSummary {
+    const checkpoints = this.checkpoints.get(checkpoint.conversationId) ?? [];
+    checkpoints.push(checkpoint);
+    this.checkpoints.set(checkpoint.conversationId, checkpoints);
+    return toSummary(checkpoint);
+  }
+
+  private resolveFilePath(filePath: string): string | null {
+    try {
+      return resolveWorkspacePath(filePath);
+    } catch {
+      return null;
+    }
+  }
+
+  private async readFile(absolutePath: string): Promise<Uint8Array | undefined> {
+    try {
+      return await this.fileSystem.readFile(vscode.Uri.file(absolutePath));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeFileState(file: FileState): Promise<void> {
+    const uri = vscode.Uri.file(file.absolutePath);
+    if (file.content) {
+      await this.fileSystem.writeFile(uri, file.content);
+      return;
+    }
+
+    try {
+      await this.fileSystem.delete(uri);
+    } catch {
+      // The file was never created
+    }
+  }
+
+  private generateCheckpointId(): string {
+    return `ckpt-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+  }
+}
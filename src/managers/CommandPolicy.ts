@@ -0,0 +1,579 @@
+import * as path from "path";
+import {
+  DEFAULT_COMMAND_POLICY_SETTINGS,
+  type CommandPolicySettings,
+} from "code-sidecar-shared/types/config";
+import {
+  getWorkspaceRoots,
+  isInsideRoot,
+  resolveWorkspacePath,
+} from "../tools/workspacePaths";
+
+/**
+ * Syntax of a command that runs the command given in its arguments
+ */
+type WrapperSyntax = {
+  /** Short options followed by an argument, e.g. `s` of `timeout -s KILL` */
+  shortOptions?: string;
+  /** Long options followed by an argument unless written as `--name=value` */
+  longOptions?: string[];
+  /** Options whose argument is a command line, e.g. `-S` of `env -S` */
+  commandOptions?: string[];
+  /** Arguments before the command, e.g. the duration of `timeout` */
+  operands?: number;
+};
+
+/** Commands that run the command given in their arguments */
+const WRAPPER_COMMANDS = new Map<string, WrapperSyntax>([
+  ["builtin", {}],
+  ["busybox", {}],
+  ["command", {}],
+  ["doas", { shortOptions: "Cu" }],
+  [
+    "env",
+    {
+      shortOptions: "uCS",
+      longOptions: ["--unset", "--chdir", "--split-string"],
+      commandOptions: ["-S", "--split-string"],
+    },
+  ],
+  ["exec", { shortOptions: "a" }],
+  ["nice", { shortOptions: "n", longOptions: ["--adjustment"] }],
+  ["nohup", {}],
+  ["setsid", {}],
+  [
+    "stdbuf",
+    { shortOptions: "ioe", longOptions: ["--input", "--output", "--error"] },
+  ],
+  [
+    "sudo",
+    {
+      shortOptions: "CDgpRrTtUu",
+      longOptions: [
+        "--chdir",
+        "--chroot",
+        "--close-from",
+        "--command-timeout",
+        "--group",
+        "--host",
+        "--other-user",
+        "--prompt",
+        "--role",
+        "--type",
+        "--user",
+      ],
+    },
+  ],
+  ["time", { shortOptions: "fo", longOptions: ["--format", "--output"] }],
+  [
+    "timeout",
+    {
+      shortOptions: "sk",
+      longOptions: ["--signal", "--kill-after"],
+      operands: 1,
+    },
+  ],
+  ["toybox", {}],
+  [
+    "xargs",
+    {
+      shortOptions: "aEdILnPs",
+      longOptions: [
+        "--arg-file",
+        "--delimiter",
+        "--max-args",
+        "--max-chars",
+        "--max-procs",
+        "--process-slot-var",
+      ],
+    },
+  ],
+]);
+
+/** Options of `find` that run the command after them, up to `;` or `{} +` */
+const FIND_EXEC_OPTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+/** Shells whose `-c` argument is a command line of its own */
+const SHELL_COMMANDS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const EXECUTABLE_EXTENSION = /\.(exe|cmd|bat|com)$/i;
+
+/** Nested command lines are checked up to this depth */
+const MAX_NESTING_DEPTH = 4;
+
+export type ParsedCommandLine = {
+  /** Words of each simple command, e.g. `a | b` has two */
+  commands: string[][];
+  /** Bodies of `$(...)`, backtick and `<(...)` substitutions */
+  substitutions: string[];
+};
+
+export type CommandPolicyRule =
+  "denied_command" | "command_not_allowed" | "chaining" | "working_directory";
+
+export type CommandPolicyViolation = {
+  rule: CommandPolicyRule;
+  message: string;
+};
+
+/**
+ * Index of the parenthesis closing the one before `start`
+ */
+const findClosingParen = (text: string, start: number): number => {
+  let depth = 1;
+  let quote: string | undefined;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === "\\" && quote === '"') {
+        index++;
+      }
+    } else if (char === "\\") {
+      index++;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return index;
+    }
+  }
+  return text.length;
+};
+
+/**
+ * Split a POSIX shell command line into simple commands and words.
+ *
+ * Handles quotes, escapes, the `&&`, `||`, `;`, `|`, `&` and newline
+ * separators, subshell parentheses, redirections and substitutions. This is
+ * not a full shell grammar: it is meant to find the programs a command line
+ * runs, and errs towards reporting more commands rather than fewer.
+ */
+export const parseCommandLine = (commandLine: string): ParsedCommandLine => {
+  const commands: string[][] = [];
+  const substitutions: string[] = [];
+  let words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let redirectTarget = false;
+
+  const endWord = () => {
+    if (inWord) {
+      if (redirectTarget) {
+        redirectTarget = false;
+      } else {
+        words.push(word);
+      }
+    }
+    word = "";
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) {
+      commands.push(words);
+    }
+    words = [];
+  };
+  const addSubstitution = (body: string) => {
+    substitutions.push(body);
+    word += "$SUBSTITUTION";
+    inWord = true;
+  };
+
+  let quote: string | undefined;
+  for (let index = 0; index < commandLine.length; index++) {
+    const char = commandLine[index];
+    const next = commandLine[index + 1];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === "\\") {
+      if (next !== undefined && next !== "\n") {
+        word += next;
+        inWord = true;
+      }
+      index++;
+      continue;
+    }
+
+    if (char === "$" && next === "(") {
+      const end = findClosingParen(commandLine, index + 2);
+      addSubstitution(commandLine.slice(index + 2, end));
+      index = end;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = commandLine.indexOf("`", index + 1);
+      const body = commandLine.slice(
+        index + 1,
+        end < 0 ? commandLine.length : end
+      );
+      addSubstitution(body);
+      index = end < 0 ? commandLine.length : end;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+      continue;
+    }
+
+    if ((char === "<" || char === ">") && next === "(") {
+      const end = findClosingParen(commandLine, index + 2);
+      addSubstitution(commandLine.slice(index + 2, end));
+      index = end;
+      continue;
+    }
+
+    if (char === "<" || char === ">" || (char === "&" && next === ">")) {
+      // A file descriptor number belongs to the redirection, e.g. `2>`
+      if (/^\d+$/.test(word)) {
+        word = "";
+        inWord = false;
+      }
+      endWord();
+      let operator = char;
+      while (/[<>&|]/.test(commandLine[index + 1] ?? "")) {
+        operator += commandLine[++index];
+      }
+      // `>&2` duplicates a descriptor instead of naming a file
+      const duplicate =
+        /&$/.test(operator) && /\d|-/.test(commandLine[index + 1] ?? "");
+      if (duplicate) {
+        while (/[\d-]/.test(commandLine[index + 1] ?? "")) {
+          index++;
+        }
+      } else {
+        redirectTarget = true;
+      }
+      continue;
+    }
+
+    if (
+      char === ";" ||
+      char === "|" ||
+      char === "&" ||
+      char === "\n" ||
+      char === "(" ||
+      char === ")"
+    ) {
+      endCommand();
+      if ((char === "&" || char === "|") && next === char) {
+        index++;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      endWord();
+      continue;
+    }
+
+    word += char;
+    inWord = true;
+  }
+  endCommand();
+
+  return { commands, substitutions };
+};
+
+/**
+ * Program name of a command word, e.g. `/usr/bin/git` and `git.exe` are `git`
+ */
+const toProgramName = (word: string): string =>
+  path.basename(word.replace(/\\/g, "/")).replace(EXECUTABLE_EXTENSION, "");
+
+const matchesName = (pattern: string, name: string): boolean =>
+  new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    "i"
+  ).test(name);
+
+/**
+ * Index of the command a wrapper runs, after the wrapper's options and
+ * operands. The arguments of options that are command lines are added to
+ * `nested`.
+ */
+const findWrappedCommand = (
+  words: string[],
+  start: number,
+  syntax: WrapperSyntax,
+  nested: string[]
+): number => {
+  const addCommandLine = (option: string, value: string | undefined) => {
+    if (value !== undefined && syntax.commandOptions?.includes(option)) {
+      nested.push(value);
+    }
+  };
+
+  let index = start;
+  while (index < words.length && words[index].startsWith("-")) {
+    const word = words[index++];
+    if (word === "--") {
+      break;
+    }
+
+    if (word.startsWith("--")) {
+      const separator = word.indexOf("=");
+      const name = separator < 0 ? word : word.slice(0, separator);
+      let value = separator < 0 ? undefined : word.slice(separator + 1);
+      if (value === undefined && syntax.longOptions?.includes(name)) {
+        value = words[index++];
+      }
+      addCommandLine(name, value);
+      continue;
+    }
+
+    // Short options may be grouped, e.g. `-is`. The first one taking an
+    // argument takes the rest of the word, or else the next word.
+    for (let position = 1; position < word.length; position++) {
+      const option = word[position];
+      if (syntax.shortOptions?.includes(option)) {
+        addCommandLine(
+          `-${option}`,
+          position + 1 < word.length ? word.slice(position + 1) : words[index++]
+        );
+        break;
+      }
+    }
+  }
+  return index + (syntax.operands ?? 0);
+};
+
+/**
+ * Programs a simple command runs, including the ones started by wrappers
+ * such as `env` and `xargs`, by `find -exec`, and nested command lines such
+ * as the script of `bash -c`
+ */
+const getPrograms = (
+  words: string[]
+): { programs: string[]; nested: string[] } => {
+  const programs: string[] = [];
+  const nested: string[] = [];
+
+  let index = 0;
+  while (index < words.length) {
+    while (index < words.length && ENV_ASSIGNMENT.test(words[index])) {
+      index++;
+    }
+    if (index >= words.length) {
+      break;
+    }
+
+    const program = toProgramName(words[index]);
+    programs.push(program);
+    const args = words.slice(index + 1);
+
+    if (program === "eval") {
+      nested.push(args.join(" "));
+      break;
+    }
+    if (SHELL_COMMANDS.has(program)) {
+      const scriptIndex = args.findIndex((arg) => /^-\w*c\w*$/.test(arg));
+      if (scriptIndex >= 0 && args[scriptIndex + 1] !== undefined) {
+        nested.push(args[scriptIndex + 1]);
+      }
+      break;
+    }
+    if (program === "find") {
+      for (let start = 0; start < args.length; start++) {
+        if (!FIND_EXEC_OPTIONS.has(args[start])) {
+          continue;
+        }
+        let end = start + 1;
+        while (
+          end < args.length &&
+          args[end] !== ";" &&
+          !(args[end] === "+" && args[end - 1] === "{}")
+        ) {
+          end++;
+        }
+        const executed = getPrograms(args.slice(start + 1, end));
+        programs.push(...executed.programs);
+        nested.push(...executed.nested);
+        start = end;
+      }
+      break;
+    }
+
+    const syntax = WRAPPER_COMMANDS.get(program);
+    if (!syntax) {
+      break;
+    }
+    index = findWrappedCommand(words, index + 1, syntax, nested);
+  }
+
+  return { programs, nested };
+};
+
+const checkCommandLine = (
+  settings: CommandPolicySettings,
+  commandLine: string,
+  depth: number
+): CommandPolicyViolation | undefined => {
+  if (depth > MAX_NESTING_DEPTH) {
+    return {
+      rule: "chaining",
+      message: "The command nests shells too deeply to be checked",
+    };
+  }
+
+  const { commands, substitutions } = parseCommandLine(commandLine);
+  if (
+    !settings.allowChaining &&
+    (depth > 0 || commands.length > 1 || substitutions.length > 0)
+  ) {
+    return {
+      rule: "chaining",
+      message:
+        "Chaining commands with ;, &&, ||, |, & or substitutions is not allowed. Run each command on its own.",
+    };
+  }
+
+  const nestedLines = [...substitutions];
+  for (const words of commands) {
+    const { programs, nested } = getPrograms(words);
+    nestedLines.push(...nested);
+
+    for (const program of programs) {
+      if (
+        program.includes("$") &&
+        (settings.allowedCommands.length > 0 ||
+          settings.deniedCommands.length > 0)
+      ) {
+        return {
+          rule: "command_not_allowed",
+          message: `The program '${program}' is only known when the command runs, so it cannot be checked against the command lists`,
+        };
+      }
+      if (settings.deniedCommands.some((name) => matchesName(name, program))) {
+        return {
+          rule: "denied_command",
+          message: `'${program}' is on the list of denied commands`,
+        };
+      }
+      if (
+        settings.allowedCommands.length > 0 &&
+        !settings.allowedCommands.some((name) => matchesName(name, program))
+      ) {
+        return {
+          rule: "command_not_allowed",
+          message: `'${program}' is not on the list of allowed commands: ${settings.allowedCommands.join(", ")}`,
+        };
+      }
+    }
+  }
+
+  for (const nestedLine of nestedLines) {
+    const violation = checkCommandLine(settings, nestedLine, depth + 1);
+    if (violation) {
+      return violation;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check a command line against the command policy
+ * @returns The violated rule, or undefined if the command may run
+ */
+export const evaluateCommandPolicy = (
+  settings: CommandPolicySettings,
+  commandLine: string
+): CommandPolicyViolation | undefined =>
+  checkCommandLine(settings, commandLine, 0);
+
+/**
+ * Copy of an environment without the variables matching any of the patterns
+ */
+export const scrubEnvironment = (
+  env: NodeJS.ProcessEnv,
+  sensitivePatterns: string[]
+): NodeJS.ProcessEnv =>
+  Object.fromEntries(
+    Object.entries(env).filter(
+      ([name]) =>
+        !sensitivePatterns.some((pattern) => matchesName(pattern, name))
+    )
+  );
+
+/**
+ * CommandPolicy decides which command lines the command tools may run,
+ * and provides the environment and working directory they run with.
+ * The ToolExecutor checks commands before asking for permission, so a
+ * blocked command never reaches the user or the shell.
+ */
+export class CommandPolicy {
+  private settings: CommandPolicySettings = DEFAULT_COMMAND_POLICY_SETTINGS;
+
+  updateSettings(settings: Partial<CommandPolicySettings>): void {
+    this.settings = { ...DEFAULT_COMMAND_POLICY_SETTINGS, ...settings };
+  }
+
+  /**
+   * Check a command and its working directory
+   * @param cwd Working directory, absolute or a workspace path
+   * @returns The violated rule, or undefined if the command may run
+   */
+  evaluate(
+    command: string,
+    cwd: string | undefined
+  ): CommandPolicyViolation | undefined {
+    const restrictedCwd = this.settings.restrictedCwd;
+    if (restrictedCwd && getWorkspaceRoots().length > 0) {
+      const violation: CommandPolicyViolation = {
+        rule: "working_directory",
+        message: `Commands have to run inside '${restrictedCwd}'`,
+      };
+      try {
+        const restrictedPath = resolveWorkspacePath(restrictedCwd);
+        const targetPath = resolveWorkspacePath(cwd || restrictedCwd);
+        if (!isInsideRoot(restrictedPath, targetPath)) {
+          return violation;
+        }
+      } catch {
+        return violation;
+      }
+    }
+    return evaluateCommandPolicy(this.settings, command);
+  }
+
+  /**
+   * Working directory used when a command does not set one
+   */
+  getDefaultCwd(): string | undefined {
+    return this.settings.restrictedCwd || undefined;
+  }
+
+  /**
+   * Environment of the extension host without the sensitive variables
+   */
+  getEnvironment(): NodeJS.ProcessEnv {
+    return scrubEnvironment(process.env, this.settings.sensitiveEnvPatterns);
+  }
+}
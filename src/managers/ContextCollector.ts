@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
-import * as path from "path";
+import { getWorkspaceRoots, toWorkspacePath } from "../tools/workspacePaths";
+import type { IgnoreService } from "./IgnoreService";
 
 /**
  * Diagnostic information from VSCode
@@ -53,17 +54,19 @@ export interface ProjectContext {
   // Project file tree
   fileTree?: FileNode[];
 
-  // AGENTS.md instructions
+  // AGENTS.md instructions, one per workspace folder that has them
   agentInstructions?: {
     path: string;
     content: string;
-  };
+  }[];
 }
 
 /**
  * ContextCollector collects project context information
  */
 export class ContextCollector {
+  constructor(private readonly ignoreService: IgnoreService) {}
+
   /**
    * Collect current project context
    */
@@ -77,7 +80,7 @@ export class ContextCollector {
       // Collect active file
       const content = document.getText();
       context.activeFile = {
-        path: this.getRelativePath(document.uri.fsPath),
+        path: toWorkspacePath(document.uri.fsPath),
         content: content,
         language: document.languageId,
       };
@@ -151,9 +154,9 @@ export class ContextCollector {
       blocks.push(`## Workspace Structure\n${treeContent}`);
     }
 
-    if (context.agentInstructions) {
+    for (const instructions of context.agentInstructions ?? []) {
       blocks.push(
-        `## AGENTS.md (${context.agentInstructions.path})\n${context.agentInstructions.content}`
+        `## AGENTS.md (${instructions.path})\n${instructions.content}`
       );
     }
 
@@ -169,7 +172,7 @@ export class ContextCollector {
     const allDiagnostics = vscode.languages.getDiagnostics();
 
     for (const [uri, uriDiagnostics] of allDiagnostics) {
-      const relativePath = this.getRelativePath(uri.fsPath);
+      const relativePath = toWorkspacePath(uri.fsPath);
 
       for (const diagnostic of uriDiagnostics) {
         diagnostics.push({
@@ -187,50 +190,53 @@ export class ContextCollector {
   }
 
   /**
-   * Collect project file tree
+   * Collect project file tree, one root node per workspace folder
    */
   async collectFileTree(): Promise<FileNode[]> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return [];
+    const trees: FileNode[] = [];
+    for (const root of getWorkspaceRoots()) {
+      const tree = await this.buildFileTree(
+        vscode.Uri.file(root.path),
+        root.name
+      );
+      if (tree) {
+        trees.push(tree);
+      }
     }
 
-    const rootFolder = workspaceFolders[0];
-    const tree = await this.buildFileTree(rootFolder.uri, rootFolder.name);
-
-    return tree ? [tree] : [];
+    return trees;
   }
 
   /**
-   * Collect AGENTS.md if it exists at the workspace root
+   * Collect AGENTS.md from the root of each workspace folder
    */
   private async collectAgentInstructions(): Promise<{
     path: string;
     content: string;
-  } | undefined> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return undefined;
-    }
+  }[]> {
+    const instructions: { path: string; content: string }[] = [];
 
-    const agentsUri = vscode.Uri.joinPath(
-      workspaceFolders[0].uri,
-      "AGENTS.md"
-    );
+    for (const root of getWorkspaceRoots()) {
+      const agentsUri = vscode.Uri.joinPath(
+        vscode.Uri.file(root.path),
+        "AGENTS.md"
+      );
 
-    try {
-      const contentBytes = await vscode.workspace.fs.readFile(agentsUri);
-      const content = Buffer.from(contentBytes).toString("utf-8");
-      if (!content.trim()) {
-        return undefined;
+      try {
+        const contentBytes = await vscode.workspace.fs.readFile(agentsUri);
+        const content = Buffer.from(contentBytes).toString("utf-8");
+        if (content.trim()) {
+          instructions.push({
+            path: toWorkspacePath(agentsUri.fsPath),
+            content,
+          });
+        }
+      } catch (error) {
+        // The folder has no AGENTS.md
       }
-      return {
-        path: this.getRelativePath(agentsUri.fsPath),
-        content,
-      };
-    } catch (error) {
-      return undefined;
     }
+
+    return instructions;
   }
 
   /**
@@ -245,20 +251,25 @@ export class ContextCollector {
     if (stat.type === vscode.FileType.File) {
       return {
         name: name,
-        path: this.getRelativePath(uri.fsPath),
+        path: toWorkspacePath(uri.fsPath),
         type: "file",
       };
     } else if (stat.type === vscode.FileType.Directory) {
-      // Skip common directories that should be ignored
-      if (this.shouldIgnoreDirectory(name)) {
-        return null;
-      }
-
       const children: FileNode[] = [];
       const entries = await vscode.workspace.fs.readDirectory(uri);
 
       for (const [entryName, entryType] of entries) {
         const entryUri = vscode.Uri.joinPath(uri, entryName);
+        // Skip paths excluded by ignore files and exclude settings
+        if (
+          await this.ignoreService.isIgnored(
+            entryUri.fsPath,
+            entryType === vscode.FileType.Directory
+          )
+        ) {
+          continue;
+        }
+
         const childNode = await this.buildFileTree(entryUri, entryName);
 
         if (childNode) {
@@ -268,7 +279,7 @@ export class ContextCollector {
 
       return {
         name: name,
-        path: this.getRelativePath(uri.fsPath),
+        path: toWorkspacePath(uri.fsPath),
         type: "directory",
         children: children.length > 0 ? children : undefined,
       };
@@ -277,52 +288,6 @@ export class ContextCollector {
     return null;
   }
 
-  /**
-   * Check if directory should be ignored
-   */
-  private shouldIgnoreDirectory(name: string): boolean {
-    const ignoredDirs = [
-      "node_modules",
-      ".git",
-      ".vscode",
-      "dist",
-      "build",
-      "out",
-      ".next",
-      ".nuxt",
-      "coverage",
-      ".cache",
-      ".temp",
-      ".tmp",
-      "__pycache__",
-      ".pytest_cache",
-      ".mypy_cache",
-      "venv",
-      ".venv",
-      "env",
-      ".env",
-    ];
-
-    return ignoredDirs.includes(name) || name.startsWith(".");
-  }
-
-  /**
-   * Get relative path from workspace root
-   */
-  private getRelativePath(absolutePath: string): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return absolutePath;
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    if (absolutePath.startsWith(workspaceRoot)) {
-      return path.relative(workspaceRoot, absolutePath);
-    }
-
-    return absolutePath;
-  }
-
   /**
    * Map VSCode diagnostic severity to string
    */
@@ -9,6 +9,15 @@ export interface ConversationEntry {
   id: string;
   timestamp: Date;
   messages: HistoryItem[];
+  costs?: ConversationCosts;
+}
+
+/**
+ * Accumulated spend in USD of a conversation and of each of its tasks
+ */
+export interface ConversationCosts {
+  total: number;
+  tasks: Record<string, number>;
 }
 
 /**
@@ -20,6 +29,15 @@ export interface HistoryConfig {
   estimatedCharsPerToken: number;
 }
 
+/**
+ * Default history limits; maxTokens is usually replaced by the configured context window size
+ */
+export const DEFAULT_HISTORY_CONFIG: HistoryConfig = {
+  maxTokens: 100000,
+  maxMessages: 200,
+  estimatedCharsPerToken: 4,
+};
+
 /**
  * Conversation History Manager
  * Handles persistence, loading, and intelligent truncation of conversation history
@@ -71,6 +89,55 @@ export class ConversationHistoryManager {
     this.saveCurrentConversation();
   }
 
+  /**
+   * Add the cost of a request to its task and the current conversation
+   */
+  addCost(taskId: string, cost: number): void {
+    if (!this.currentConversation) {
+      this.startNewConversation();
+    }
+
+    const costs = (this.currentConversation!.costs ??= {
+      total: 0,
+      tasks: {},
+    });
+    costs.total += cost;
+    costs.tasks[taskId] = (costs.tasks[taskId] ?? 0) + cost;
+    this.saveCurrentConversation();
+  }
+
+  /**
+   * Get the accumulated cost of a task in the current conversation
+   */
+  getTaskCost(taskId: string): number {
+    return this.currentConversation?.costs?.tasks[taskId] ?? 0;
+  }
+
+  /**
+   * Get the accumulated cost of the current conversation
+   */
+  getConversationCost(): number {
+    return this.currentConversation?.costs?.total ?? 0;
+  }
+
+  /**
+   * Drop the messages of the current conversation from an index on
+   */
+  truncateMessages(messageCount: number): void {
+    if (!this.currentConversation) {
+      return;
+    }
+
+    this.currentConversation.messages =
+      this.currentConversation.messages.slice(0, messageCount);
+    if (this.currentConversation.messages.length === 0) {
+      // Empty conversations are not kept in storage
+      this.deleteConversation(this.currentConversation.id);
+      return;
+    }
+    this.saveCurrentConversation();
+  }
+
   /**
    * Get current conversation messages
    */
@@ -0,0 +1,264 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ModeDefinition, ModeManager } from "./ModeManager";
+import { logger } from "code-sidecar-shared/utils/logger";
+
+/** Workspace directory that holds the custom mode files */
+export const CUSTOM_MODES_DIR = ".codesidecar/modes";
+
+const MODE_FILE_PATTERN = /\.(md|json)$/i;
+const MODE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)([\s\S]*)$/;
+const DEFAULT_ICON = "🧩";
+
+type RawMode = Record<string, unknown>;
+
+/**
+ * Parse a frontmatter value: an inline list, a quoted string, an integer
+ * or a plain string
+ */
+const parseValue = (value: string): unknown => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+    return trimmed
+      .slice(1, -1)
+      .split(",")
+      .map(parseValue)
+      .filter((item) => item !== "");
+  }
+
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  if (quoted) {
+    return quoted[2];
+  }
+  return /^-?\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+};
+
+/**
+ * Parse the `key: value` lines of a frontmatter block. Lists are written
+ * inline (`[a, b]`) or as `- item` lines below an empty key.
+ */
+const parseFrontmatter = (block: string): RawMode => {
+  const result: RawMode = {};
+  let listKey: string | undefined;
+
+  for (const line of block.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const item = trimmed.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (result[listKey] as unknown[]).push(parseValue(item[1]));
+      continue;
+    }
+
+    const entry = trimmed.match(/^([A-Za-z][\w-]*):(.*)$/);
+    if (!entry) {
+      throw new Error(`Invalid frontmatter line: ${trimmed}`);
+    }
+
+    const [, key, value] = entry;
+    if (value.trim()) {
+      result[key] = parseValue(value);
+      listKey = undefined;
+    } else {
+      result[key] = [];
+      listKey = key;
+    }
+  }
+
+  return result;
+};
+
+const toModeDefinition = (
+  raw: RawMode,
+  sourcePath: string,
+  fallbackId?: string
+): ModeDefinition => {
+  const id = raw.id ?? fallbackId;
+  if (id === undefined) {
+    throw new Error("Missing mode id");
+  }
+  if (typeof id !== "string" || !MODE_ID_PATTERN.test(id)) {
+    throw new Error(
+      `Invalid mode id "${String(id)}": use lowercase letters, digits, "-" and "_"`
+    );
+  }
+
+  const { name, description, icon, prompt, maxFileEdits, allowedTools } =
+    raw;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error(`Mode ${id} has no name`);
+  }
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    throw new Error(`Mode ${id} has no prompt`);
+  }
+  if (
+    maxFileEdits !== undefined &&
+    !(Number.isInteger(maxFileEdits) && (maxFileEdits as number) >= 0)
+  ) {
+    throw new Error(`maxFileEdits of mode ${id} must be a non-negative integer`);
+  }
+  if (
+    allowedTools !== undefined &&
+    !(
+      Array.isArray(allowedTools) &&
+      allowedTools.every((tool) => typeof tool === "string")
+    )
+  ) {
+    throw new Error(`allowedTools of mode ${id} must be a list of tool names`);
+  }
+
+  return {
+    id,
+    name: name.trim(),
+    description: typeof description === "string" ? description.trim() : "",
+    icon: typeof icon === "string" && icon.trim() ? icon.trim() : DEFAULT_ICON,
+    systemPromptFragment: prompt.trim(),
+    maxFileEdits: maxFileEdits as number | undefined,
+    allowedTools: allowedTools as string[] | undefined,
+    sourcePath,
+  };
+};
+
+/**
+ * Parse a custom mode file.
+ *
+ * Markdown files hold one mode: the settings in a frontmatter block and the
+ * prompt fragment as the body. JSON files hold one mode object or a list of
+ * them, with the prompt fragment in `prompt`. The id defaults to the file
+ * name for single-mode files.
+ * @throws Error if the file is malformed or a mode is invalid
+ */
+export const parseCustomModeFile = (
+  filePath: string,
+  content: string
+): ModeDefinition[] => {
+  const fileId = path
+    .basename(filePath, path.extname(filePath))
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+
+  if (path.extname(filePath).toLowerCase() === ".json") {
+    const parsed: unknown = JSON.parse(content);
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    return entries.map((entry, index) => {
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        throw new Error(`Entry ${index + 1} is not a mode object`);
+      }
+      return toModeDefinition(
+        entry as RawMode,
+        filePath,
+        entries.length === 1 ? fileId : undefined
+      );
+    });
+  }
+
+  const match = content.replace(/^\uFEFF/, "").match(FRONTMATTER_PATTERN);
+  if (!match) {
+    throw new Error("Missing frontmatter block delimited by --- lines");
+  }
+  return [
+    toModeDefinition(
+      { ...parseFrontmatter(match[1]), prompt: match[2] },
+      filePath,
+      fileId
+    ),
+  ];
+};
+
+/**
+ * CustomModeLoader loads the modes defined in `.codesidecar/modes` of each
+ * workspace folder into the ModeManager, and reloads them whenever a mode
+ * file or the set of workspace folders changes.
+ */
+export class CustomModeLoader implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  /** Pending load, so reloads triggered in quick succession run in order */
+  private loading: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly modeManager: ModeManager,
+    private readonly onDidLoad: () => void
+  ) {}
+
+  /**
+   * Load the custom modes and start watching the mode files
+   */
+  start(): Promise<void> {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      `**/${CUSTOM_MODES_DIR}/*.{md,json}`
+    );
+    const reload = () => void this.reload();
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(reload),
+      watcher.onDidChange(reload),
+      watcher.onDidDelete(reload),
+      vscode.workspace.onDidChangeWorkspaceFolders(reload)
+    );
+    return this.reload();
+  }
+
+  reload(): Promise<void> {
+    this.loading = this.loading.then(() => this.load());
+    return this.loading;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+
+  private async load(): Promise<void> {
+    const modes: ModeDefinition[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      modes.push(...(await this.loadFolder(folder.uri)));
+    }
+
+    this.modeManager.setCustomModes(modes);
+    logger.debug(`[CustomModeLoader] Loaded ${modes.length} custom modes`);
+    this.onDidLoad();
+  }
+
+  private async loadFolder(folderUri: vscode.Uri): Promise<ModeDefinition[]> {
+    const dir = vscode.Uri.joinPath(folderUri, CUSTOM_MODES_DIR);
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(dir);
+    } catch {
+      // The folder defines no custom modes
+      return [];
+    }
+
+    const modes: ModeDefinition[] = [];
+    const fileNames = entries
+      .filter(
+        ([name, type]) =>
+          type === vscode.FileType.File && MODE_FILE_PATTERN.test(name)
+      )
+      .map(([name]) => name)
+      .sort();
+
+    for (const fileName of fileNames) {
+      const uri = vscode.Uri.joinPath(dir, fileName);
+      try {
+        const content = Buffer.from(
+          await vscode.workspace.fs.readFile(uri)
+        ).toString("utf-8");
+        modes.push(...parseCustomModeFile(uri.fsPath, content));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`[CustomModeLoader] Failed to load ${uri.fsPath}:`, error);
+        vscode.window.showWarningMessage(
+          `Invalid custom mode file ${vscode.workspace.asRelativePath(uri, false)}: ${message}`
+        );
+      }
+    }
+    return modes;
+  }
+}
@@ -93,7 +93,8 @@ export class ErrorHandler {
       return ErrorType.UNKNOWN_ERROR;
     }
 
-    const message = error.message.toLowerCase();
+    // Later lines can quote file content, such as the closest match of a search
+    const message = error.message.split('\n')[0].toLowerCase();
     const name = error.name.toLowerCase();
 
     // API errors (Requirement 12.1)
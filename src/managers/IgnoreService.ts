@@ -0,0 +1,242 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { logger } from "code-sidecar-shared/utils/logger";
+import { globToRegExp } from "./permissionRules";
+import { findWorkspaceRoot } from "../tools/workspacePaths";
+
+/**
+ * Ignore files read in every directory, in order of precedence: a later
+ * file can re-include what an earlier one ignores
+ */
+export const IGNORE_FILE_NAMES = [
+  ".gitignore",
+  ".ignore",
+  ".codesidecarignore",
+];
+
+/** Settings whose globs hide paths from the tools */
+const EXCLUDE_SETTINGS = ["files.exclude", "search.exclude"];
+
+export type IgnoreRule = {
+  regex: RegExp;
+  /** `!pattern`, re-including paths an earlier rule ignores */
+  negated: boolean;
+  /** `pattern/`, matching directories only */
+  directoryOnly: boolean;
+};
+
+/**
+ * Parse the rules of a `.gitignore`-style file. Patterns containing a `/`
+ * are relative to the directory of the file, others match at any depth.
+ */
+export const parseIgnoreFile = (content: string): IgnoreRule[] => {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const negated = line.startsWith("!");
+    if (negated || line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    if (!line) {
+      continue;
+    }
+
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    rules.push({
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+};
+
+/**
+ * IgnoreService decides which workspace paths the file tree, file listings
+ * and searches leave out. It honors the ignore files of every directory
+ * from the workspace folder down, and the `files.exclude` and
+ * `search.exclude` settings. Ignore files are re-read when they change.
+ */
+export class IgnoreService implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  /** Rules of the ignore files in a directory, by directory path */
+  private rulesCache = new Map<string, Promise<IgnoreRule[]>>();
+  /** Exclude setting globs, by workspace folder path */
+  private excludeCache = new Map<string, RegExp[]>();
+  /** Decisions for directories, which are checked for every path below them */
+  private directoryCache = new Map<string, boolean>();
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      `**/{${IGNORE_FILE_NAMES.join(",")}}`
+    );
+    const invalidate = (uri: vscode.Uri) => {
+      this.rulesCache.delete(path.dirname(uri.fsPath));
+      this.directoryCache.clear();
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(invalidate),
+      watcher.onDidChange(invalidate),
+      watcher.onDidDelete(invalidate),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          EXCLUDE_SETTINGS.some((setting) =>
+            event.affectsConfiguration(setting)
+          )
+        ) {
+          this.excludeCache.clear();
+          this.directoryCache.clear();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.excludeCache.clear();
+        this.directoryCache.clear();
+      })
+    );
+  }
+
+  /**
+   * Whether a path, or a directory containing it, is ignored. Paths outside
+   * the workspace folders are never ignored.
+   */
+  async isIgnored(
+    absolutePath: string,
+    isDirectory: boolean
+  ): Promise<boolean> {
+    const root = findWorkspaceRoot(absolutePath);
+    if (!root) {
+      return false;
+    }
+
+    const relative = path.relative(root.path, absolutePath);
+    if (!relative) {
+      return false;
+    }
+
+    const segments = relative.split(path.sep);
+    for (let index = 1; index <= segments.length; index++) {
+      const isLast = index === segments.length;
+      const ignored = await this.matches(
+        root.path,
+        segments.slice(0, index),
+        !isLast || isDirectory
+      );
+      if (ignored) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables.length = 0;
+  }
+
+  /**
+   * Whether the path itself matches, without looking at its parents
+   */
+  private async matches(
+    rootPath: string,
+    segments: string[],
+    isDirectory: boolean
+  ): Promise<boolean> {
+    const absolutePath = path.join(rootPath, ...segments);
+    const cached = isDirectory
+      ? this.directoryCache.get(absolutePath)
+      : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let ignored = false;
+    // Rules of deeper ignore files are applied last and take precedence
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = await this.getRules(
+        path.join(rootPath, ...segments.slice(0, depth))
+      );
+      const pathInDirectory = segments.slice(depth).join("/");
+      for (const rule of rules) {
+        if (
+          (!rule.directoryOnly || isDirectory) &&
+          rule.regex.test(pathInDirectory)
+        ) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+
+    ignored ||=
+      segments[segments.length - 1] === ".git" ||
+      this.getExcludePatterns(rootPath).some((regex) =>
+        regex.test(segments.join("/"))
+      );
+
+    if (isDirectory) {
+      this.directoryCache.set(absolutePath, ignored);
+    }
+    return ignored;
+  }
+
+  private getRules(directory: string): Promise<IgnoreRule[]> {
+    let rules = this.rulesCache.get(directory);
+    if (!rules) {
+      rules = this.readRules(directory);
+      this.rulesCache.set(directory, rules);
+    }
+    return rules;
+  }
+
+  private async readRules(directory: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+    for (const fileName of IGNORE_FILE_NAMES) {
+      try {
+        const content = await vscode.workspace.fs.readFile(
+          vscode.Uri.file(path.join(directory, fileName))
+        );
+        rules.push(...parseIgnoreFile(Buffer.from(content).toString("utf-8")));
+      } catch {
+        // The directory has no such ignore file
+      }
+    }
+    if (rules.length > 0) {
+      logger.debug(
+        `[IgnoreService] Loaded ${rules.length} rules in ${directory}`
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * Globs of the exclude settings that are switched on for a folder
+   */
+  private getExcludePatterns(rootPath: string): RegExp[] {
+    let patterns = this.excludeCache.get(rootPath);
+    if (!patterns) {
+      const scope = vscode.Uri.file(rootPath);
+      patterns = EXCLUDE_SETTINGS.flatMap((setting) => {
+        const [section, key] = setting.split(".");
+        const globs = vscode.workspace
+          .getConfiguration(section, scope)
+          .get<Record<string, unknown>>(key, {});
+        return Object.entries(globs)
+          .filter(([, enabled]) => enabled === true)
+          .map(([glob]) => globToRegExp(glob.replace(/^\//, "")));
+      });
+      this.excludeCache.set(rootPath, patterns);
+    }
+    return patterns;
+  }
+}
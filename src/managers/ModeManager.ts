@@ -1,6 +1,33 @@
-import type { WorkMode } from "code-sidecar-shared/types/modes";
+import type { ModeSummary, WorkMode } from "code-sidecar-shared/types/modes";
 import { logger } from "code-sidecar-shared/utils/logger";
 
+/** Tools every mode may use, so a task can always be finished */
+const ALWAYS_ALLOWED_TOOLS: ReadonlySet<string> = new Set(["attempt_completion"]);
+
+const READ_ONLY_TOOLS = [
+  "read_file",
+  "list_files",
+  "search_files",
+  "get_diagnostics",
+  "list_code_definition_names",
+  "search_codebase",
+  "find_symbol",
+  "go_to_definition",
+  "find_references",
+  "get_hover_info",
+  "get_call_hierarchy",
+  "get_code_actions",
+];
+
+const FILE_EDIT_TOOLS = [
+  "write_file",
+  "apply_diff",
+  "apply_patch",
+  "insert_content",
+  "rename_symbol",
+  "apply_code_action",
+];
+
 /**
  * Mode definition interface
  * Requirements: 7.1, 7.2, 7.3, 7.4
@@ -12,6 +39,13 @@ export interface ModeDefinition {
   icon: string;
   systemPromptFragment: string;
   maxFileEdits?: number;
+  /**
+   * Tool names the mode may use, all tools when unset.
+   * Entries ending in `*` match by prefix, e.g. `mcp__tracker__*`.
+   */
+  allowedTools?: string[];
+  /** File the mode was loaded from, only set for custom modes */
+  sourcePath?: string;
 }
 
 /**
@@ -21,6 +55,7 @@ export interface ModeDefinition {
 export class ModeManager {
   private currentMode: WorkMode = "code";
   private modes: Map<WorkMode, ModeDefinition> = new Map();
+  private customModeIds: Set<WorkMode> = new Set();
 
   constructor() {
     this.initializeDefaultModes();
@@ -61,6 +96,7 @@ You are operating in **Architect Mode**. Your primary focus is on:
 - Focus on planning rather than implementation
 `,
       maxFileEdits: 3,
+      allowedTools: [...READ_ONLY_TOOLS, ...FILE_EDIT_TOOLS],
     });
 
     // 💻 Code Mode - Code writing and refactoring
@@ -117,14 +153,15 @@ You are operating in **Ask Mode**. Your primary focus is on:
 2. **Use Examples**: Include code examples to illustrate concepts
 3. **Be Patient**: Break down complex topics into digestible parts
 4. **Provide Context**: Explain not just "how" but also "why"
-5. **Minimal Edits**: Avoid making code changes unless explicitly requested
+5. **No Edits**: Describe code changes instead of making them
 
 ## File Edit Restrictions:
-- Read-only access preferred
-- Only make changes if explicitly requested by the user
+- Read-only access: file edits and commands are not available
+- If the user asks for changes, suggest switching to Code mode
 - Focus on explaining rather than modifying
 `,
       maxFileEdits: 0,
+      allowedTools: READ_ONLY_TOOLS,
     });
 
     // 🐞 Debug Mode - Debugging and problem diagnosis
@@ -227,6 +264,22 @@ You are operating in **Debug Mode**. Your primary focus is on:
     return mode.maxFileEdits;
   }
 
+  /**
+   * Check if the current mode allows a tool
+   */
+  public isToolAllowed(toolName: string): boolean {
+    const { allowedTools } = this.getCurrentModeDefinition();
+    if (!allowedTools || ALWAYS_ALLOWED_TOOLS.has(toolName)) {
+      return true;
+    }
+
+    return allowedTools.some((pattern) =>
+      pattern.endsWith("*")
+        ? toolName.startsWith(pattern.slice(0, -1))
+        : pattern === toolName
+    );
+  }
+
   /**
    * Register a custom mode
    * Requirements: 7.1, 7.2, 7.3, 7.4
@@ -236,6 +289,46 @@ You are operating in **Debug Mode**. Your primary focus is on:
     logger.debug(`[ModeManager] Registered custom mode: ${mode.id}`);
   }
 
+  /**
+   * Replace the custom modes loaded from the workspace.
+   * Modes whose id is already taken are skipped, and the current mode
+   * falls back to Code mode when it was removed.
+   */
+  public setCustomModes(modes: ModeDefinition[]): void {
+    for (const id of this.customModeIds) {
+      this.modes.delete(id);
+    }
+    this.customModeIds.clear();
+
+    for (const mode of modes) {
+      if (this.modes.has(mode.id)) {
+        logger.warn(
+          `[ModeManager] Skipped custom mode ${mode.id} from ${mode.sourcePath}: the id is already taken`
+        );
+        continue;
+      }
+      this.registerMode(mode);
+      this.customModeIds.add(mode.id);
+    }
+
+    if (!this.modes.has(this.currentMode)) {
+      this.currentMode = "code";
+    }
+  }
+
+  /**
+   * Get the modes shown in the mode selector
+   */
+  public getModeSummaries(): ModeSummary[] {
+    return this.getAllModes().map((mode) => ({
+      id: mode.id,
+      name: mode.name,
+      description: mode.description,
+      icon: mode.icon,
+      custom: this.customModeIds.has(mode.id),
+    }));
+  }
+
   /**
    * Check if a mode exists
    */
@@ -2,12 +2,22 @@ import * as vscode from "vscode";
 import type {
   PermissionRequest,
   PermissionRequestWithId,
+  PermissionRule,
+  PermissionRuleScope,
 } from "code-sidecar-shared/types/permissions";
 import {
   DEFAULT_PERMISSION_SETTINGS,
   type PermissionSettings,
 } from "code-sidecar-shared/types/config";
 import { logger } from "code-sidecar-shared/utils/logger";
+import {
+  evaluatePermissionRules,
+  suggestPermissionRule,
+} from "./permissionRules";
+import {
+  resolveWorkspacePath,
+  toWorkspacePath,
+} from "../tools/workspacePaths";
 
 type PermissionSettingsWithDefaults = Required<PermissionSettings>;
 
@@ -24,6 +34,31 @@ const OPERATION_DEFAULTS: Record<
 const normalizeOperation = (operation: string): string =>
   operation.trim().toLowerCase();
 
+/**
+ * Workspace-relative path with `/` separators, as matched by rule globs.
+ * In multi-root workspaces the path starts with the folder name.
+ */
+const toRulePath = (filePath: string): string => {
+  let workspacePath = filePath;
+  try {
+    workspacePath = toWorkspacePath(resolveWorkspacePath(filePath));
+  } catch {
+    // Paths outside the workspace are matched as given
+  }
+  return workspacePath.replace(/\\/g, "/");
+};
+
+type PermissionDecision = {
+  action: "allow" | "deny" | "ask";
+  /** Rule the user can remember when approving */
+  suggestedRule?: PermissionRule;
+};
+
+type PermissionResolver = (
+  approved: boolean,
+  remember?: PermissionRuleScope
+) => void;
+
 /**
  * PermissionManager handles user authorization for tool operations
  */
@@ -31,7 +66,12 @@ export class PermissionManager {
   private settings: PermissionSettingsWithDefaults;
 
   private webviewProvider: any;
-  private pendingRequests: Map<string, (approved: boolean) => void> = new Map();
+  private pendingRequests: Map<string, PermissionResolver> = new Map();
+  /** Rules remembered from permission prompts until the window reloads */
+  private sessionRules: PermissionRule[] = [];
+  private saveWorkspaceRule:
+    | ((rule: PermissionRule) => Promise<void>)
+    | undefined;
 
   private static mergeSettings(
     base: PermissionSettingsWithDefaults,
@@ -49,6 +89,8 @@ export class PermissionManager {
       allowExecuteByDefault:
         updates?.allowExecuteByDefault ?? base.allowExecuteByDefault,
       alwaysConfirm,
+      stageEdits: updates?.stageEdits ?? base.stageEdits,
+      rules: updates?.rules ?? base.rules,
     };
   }
 
@@ -66,13 +108,25 @@ export class PermissionManager {
     this.webviewProvider = provider;
   }
 
+  /**
+   * Set how rules remembered for the workspace are persisted
+   */
+  setWorkspaceRuleSaver(save: (rule: PermissionRule) => Promise<void>): void {
+    this.saveWorkspaceRule = save;
+  }
+
   /**
    * Handle permission response from webview
+   * @param remember Scope in which to remember the suggested rule of an approved request
    */
-  handlePermissionResponse(requestId: string, approved: boolean): void {
+  handlePermissionResponse(
+    requestId: string,
+    approved: boolean,
+    remember?: PermissionRuleScope
+  ): void {
     const resolver = this.pendingRequests.get(requestId);
     if (resolver) {
-      resolver(approved);
+      resolver(approved, remember);
       this.pendingRequests.delete(requestId);
     }
   }
@@ -85,12 +139,82 @@ export class PermissionManager {
    * @returns Promise<boolean> True if operation is allowed
    */
   async checkPermission(request: PermissionRequest): Promise<boolean> {
+    const decision = this.decide(request);
+    if (decision.action === "ask") {
+      return await this.requestUserConfirmation(
+        request,
+        decision.suggestedRule
+      );
+    }
+    return decision.action === "allow";
+  }
+
+  /**
+   * Check an operation that changes several files at once, such as a rename
+   * across the workspace. A rule denying any of the files denies the
+   * operation; otherwise the user is asked once unless every file is allowed.
+   *
+   * @param request Permission request describing the whole operation
+   * @param paths Files the operation changes
+   */
+  async checkPermissionForPaths(
+    request: PermissionRequest,
+    paths: string[]
+  ): Promise<boolean> {
+    let needsConfirmation = false;
+    for (const filePath of paths) {
+      const decision = this.decide({
+        ...request,
+        target: filePath,
+        path: filePath,
+      });
+      if (decision.action === "deny") {
+        return false;
+      }
+      needsConfirmation ||= decision.action === "ask";
+    }
+    return needsConfirmation
+      ? await this.requestUserConfirmation(request)
+      : true;
+  }
+
+  /**
+   * Decide a request from the rules and the default settings
+   */
+  private decide(request: PermissionRequest): PermissionDecision {
     const operation = normalizeOperation(request.operation);
     const defaultSetting = OPERATION_DEFAULTS[operation];
+    const ruleRequest: PermissionRequest = {
+      ...request,
+      path: request.path === undefined ? undefined : toRulePath(request.path),
+    };
+
+    // Rules take precedence over the default settings
+    const ruleAction = evaluatePermissionRules(
+      [...this.sessionRules, ...this.settings.rules],
+      ruleRequest
+    );
+    if (ruleAction === "deny") {
+      logger.debug(
+        `[PermissionManager] Denied ${operation} operation by rule: ${request.target}`
+      );
+      return { action: "deny" };
+    }
+    if (ruleAction === "allow") {
+      logger.debug(
+        `[PermissionManager] Allowed ${operation} operation by rule: ${request.target}`
+      );
+      return { action: "allow" };
+    }
+    if (ruleAction === "ask") {
+      return { action: "ask" };
+    }
+
+    const suggestedRule = suggestPermissionRule(ruleRequest);
 
     // Check if this operation always requires confirmation (Requirement 5.5)
     if (this.settings.alwaysConfirm.includes(operation)) {
-      return await this.requestUserConfirmation(request);
+      return { action: "ask", suggestedRule };
     }
 
     // Check default permissions based on operation type
@@ -98,25 +222,27 @@ export class PermissionManager {
       logger.debug(
         `[PermissionManager] Auto-approved ${operation} operation: ${request.target}`
       );
-      return true;
+      return { action: "allow" };
     }
 
     // If not auto-approved, request user confirmation
-    return await this.requestUserConfirmation(request);
+    return { action: "ask", suggestedRule };
   }
 
   /**
-   * Request user confirmation for an operation
+   * Request user confirmation for an operation, regardless of the defaults
    *
    * @param request Permission request details
+   * @param suggestedRule Rule the user can remember when approving
    * @returns Promise<boolean> True if user approved
    */
-  private async requestUserConfirmation(
-    request: PermissionRequest
+  async requestUserConfirmation(
+    request: PermissionRequest,
+    suggestedRule?: PermissionRule
   ): Promise<boolean> {
     // If webview provider is available, use webview for confirmation
     if (this.webviewProvider) {
-      return await this.requestWebviewConfirmation(request);
+      return await this.requestWebviewConfirmation(request, suggestedRule);
     }
 
     // Fallback to VSCode modal dialog
@@ -141,7 +267,8 @@ export class PermissionManager {
    * Request confirmation through webview
    */
   private async requestWebviewConfirmation(
-    request: PermissionRequest
+    request: PermissionRequest,
+    suggestedRule?: PermissionRule
   ): Promise<boolean> {
     const requestId = `perm-${Date.now()}-${Math.random()
       .toString(36)
@@ -150,6 +277,7 @@ export class PermissionManager {
     const requestWithId: PermissionRequestWithId = {
       id: requestId,
       ...request,
+      suggestedRule,
     };
 
     // Send permission request to webview
@@ -160,7 +288,12 @@ export class PermissionManager {
 
     // Wait for response
     return new Promise<boolean>((resolve) => {
-      this.pendingRequests.set(requestId, resolve);
+      this.pendingRequests.set(requestId, (approved, remember) => {
+        if (approved && remember && suggestedRule) {
+          void this.rememberRule(suggestedRule, remember);
+        }
+        resolve(approved);
+      });
 
       // Timeout after 5 minutes
       setTimeout(() => {
@@ -175,6 +308,29 @@ export class PermissionManager {
     });
   }
 
+  /**
+   * Remember a rule for the session, and persist it for the workspace
+   */
+  private async rememberRule(
+    rule: PermissionRule,
+    scope: PermissionRuleScope
+  ): Promise<void> {
+    this.sessionRules.push(rule);
+    logger.debug(`[PermissionManager] Remembered rule for ${scope}:`, rule);
+
+    if (scope !== "workspace" || !this.saveWorkspaceRule) {
+      return;
+    }
+    try {
+      await this.saveWorkspaceRule(rule);
+    } catch (error) {
+      logger.warn("[PermissionManager] Failed to save permission rule:", error);
+      vscode.window.showWarningMessage(
+        "Failed to save the permission rule for the workspace. It applies to this session only."
+      );
+    }
+  }
+
   /**
    * Build a user-friendly confirmation message
    *
@@ -208,6 +364,7 @@ export class PermissionManager {
     return {
       ...this.settings,
       alwaysConfirm: [...this.settings.alwaysConfirm],
+      rules: [...this.settings.rules],
     };
   }
 }
@@ -0,0 +1,430 @@
+import { ChildProcess, spawn } from "child_process";
+import * as vscode from "vscode";
+import { logger } from "code-sidecar-shared/utils/logger";
+
+/** Time a stopped process gets to exit before it is killed */
+const KILL_GRACE_PERIOD_MS = 2000;
+/** Time a killed process gets to exit before it is given up on */
+const KILL_TIMEOUT_MS = 3000;
+/** Output kept per process; older output is dropped */
+const MAX_BUFFERED_OUTPUT_CHARS = 200000;
+/** Output returned by one read; the middle of longer output is omitted */
+const MAX_READ_OUTPUT_CHARS = 20000;
+
+/**
+ * Stop a process and the processes it started. On POSIX the process has to
+ * lead its own process group, i.e. be spawned with `detached: true`, and
+ * the group is signalled even after the process itself has exited, since
+ * the processes it started may still be running.
+ */
+export const killProcessTree = (child: ChildProcess): void => {
+  const pid = child.pid;
+  if (pid === undefined) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    spawn("taskkill", ["/pid", String(pid), "/T", "/F"], {
+      windowsHide: true,
+    });
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The group is gone, or the process does not lead one
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill(signal);
+      }
+    }
+  };
+  signalGroup("SIGTERM");
+  // Children may outlive the shell, so the group is killed regardless
+  setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_PERIOD_MS).unref();
+};
+
+export type BackgroundProcessInfo = {
+  name: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  running: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+export type ProcessOutput = {
+  info: BackgroundProcessInfo;
+  output: string;
+  /** Characters dropped before they were read */
+  droppedChars: number;
+};
+
+type BackgroundProcess = BackgroundProcessInfo & {
+  taskId: string | undefined;
+  child: ChildProcess;
+  /** Buffered output, starting at absolute offset `bufferStart` */
+  buffer: string;
+  bufferStart: number;
+  /** Absolute offset up to which the output has been read */
+  readOffset: number;
+  exited: Promise<void>;
+};
+
+/**
+ * Shorten output to its beginning and end
+ */
+const capOutput = (output: string): string => {
+  if (output.length <= MAX_READ_OUTPUT_CHARS) {
+    return output;
+  }
+  const headLength = Math.floor(MAX_READ_OUTPUT_CHARS / 4);
+  const omitted = output.length - MAX_READ_OUTPUT_CHARS;
+  return `${output.slice(0, headLength)}\n[... ${omitted} characters omitted ...]\n${output.slice(headLength + omitted)}`;
+};
+
+/**
+ * Describe a process and its output for a tool result
+ */
+export const formatProcessOutput = ({
+  info,
+  output,
+  droppedChars,
+}: ProcessOutput): string => {
+  const status = info.running
+    ? "running"
+    : info.signal
+      ? `stopped by ${info.signal}`
+      : `exited with code ${info.exitCode}`;
+  let result = `Process "${info.name}" (pid ${info.pid ?? "unknown"}): ${status}\n`;
+  result += `Command: ${info.command}\n\n`;
+  if (droppedChars > 0) {
+    result += `[${droppedChars} characters of older output were dropped]\n`;
+  }
+  result += output.trim() ? `Output:\n${output.trimEnd()}\n` : "No new output.";
+  return result;
+};
+
+/**
+ * ProcessManager runs long-lived shell commands such as dev servers and
+ * watchers in the background. Processes are owned by the task that
+ * started them, keep a bounded buffer of their combined stdout and stderr,
+ * and are stopped when the task ends or the extension is deactivated.
+ */
+export class ProcessManager implements vscode.Disposable {
+  private processes = new Map<string, BackgroundProcess>();
+  /** Fires when a process prints output or exits */
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<string>();
+
+  /**
+   * Start a named process
+   * @param env Environment of the process, defaults to the extension host's
+   * @throws Error if a process with the name is still running
+   */
+  start(
+    taskId: string | undefined,
+    name: string,
+    command: string,
+    cwd: string,
+    env?: NodeJS.ProcessEnv
+  ): BackgroundProcessInfo {
+    const existing = this.processes.get(name);
+    if (existing?.running) {
+      throw new Error(
+        `A process named "${name}" is already running. Stop it first or use another name.`
+      );
+    }
+
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      windowsHide: true,
+      stdio: ["pipe", "pipe", "pipe"],
+      // Lead a process group so the whole tree can be stopped
+      detached: process.platform !== "win32",
+      env,
+    });
+
+    const entry: BackgroundProcess = {
+      name,
+      command,
+      cwd,
+      pid: child.pid,
+      running: true,
+      exitCode: null,
+      signal: null,
+      taskId,
+      child,
+      buffer: "",
+      bufferStart: 0,
+      readOffset: 0,
+      exited: new Promise((resolve) => {
+        child.on("close", (code, signal) => {
+          entry.running = false;
+          entry.exitCode = code;
+          entry.signal = signal;
+          logger.debug(
+            `[ProcessManager] Process ${name} exited (code ${code}, signal ${signal})`
+          );
+          this.onDidChangeEmitter.fire(name);
+          resolve();
+        });
+      }),
+    };
+
+    const append = (chunk: string) => {
+      entry.buffer += chunk;
+      const overflow = entry.buffer.length - MAX_BUFFERED_OUTPUT_CHARS;
+      if (overflow > 0) {
+        entry.buffer = entry.buffer.slice(overflow);
+        entry.bufferStart += overflow;
+      }
+      this.onDidChangeEmitter.fire(name);
+    };
+    child.stdout?.setEncoding("utf-8");
+    child.stderr?.setEncoding("utf-8");
+    child.stdout?.on("data", append);
+    child.stderr?.on("data", append);
+    child.on("error", (error) => append(`${error.message}\n`));
+    // Writing to a process that exited must not crash the extension host
+    child.stdin?.on("error", (error) =>
+      logger.debug(`[ProcessManager] stdin of ${name} failed:`, error)
+    );
+
+    this.processes.set(name, entry);
+    logger.debug(`[ProcessManager] Started ${name} (pid ${child.pid})`);
+    return this.toInfo(entry);
+  }
+
+  /**
+   * Read the output printed since the previous read, or the last lines of
+   * the buffered output when `tailLines` is given
+   */
+  readOutput(
+    taskId: string | undefined,
+    name: string,
+    tailLines?: number
+  ): ProcessOutput {
+    const entry = this.getProcess(taskId, name);
+    if (tailLines !== undefined) {
+      const lines = entry.buffer.split("\n");
+      if (lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+      entry.readOffset = entry.bufferStart + entry.buffer.length;
+      return {
+        info: this.toInfo(entry),
+        output: capOutput(lines.slice(-tailLines).join("\n")),
+        droppedChars: 0,
+      };
+    }
+    return this.consumeOutput(entry);
+  }
+
+  /**
+   * Wait until the unread output matches a pattern
+   * @returns The output read up to the match
+   * @throws Error if the process exits, the wait times out or is aborted
+   */
+  waitForOutput(
+    taskId: string | undefined,
+    name: string,
+    pattern: RegExp,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<ProcessOutput> {
+    const entry = this.getProcess(taskId, name);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined;
+      let subscription: vscode.Disposable | undefined;
+
+      const finish = (error?: string) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        subscription?.dispose();
+        signal?.removeEventListener("abort", onAbort);
+        const result = this.consumeOutput(entry);
+        if (error) {
+          reject(new Error(`${error}\n\n${formatProcessOutput(result)}`));
+        } else {
+          resolve(result);
+        }
+      };
+      const check = () => {
+        const unread = entry.buffer.slice(
+          Math.max(entry.readOffset - entry.bufferStart, 0)
+        );
+        if (pattern.test(unread)) {
+          finish();
+        } else if (!entry.running) {
+          finish(
+            `Process "${name}" exited before its output matched ${pattern}`
+          );
+        }
+      };
+      const onAbort = () => finish("Waiting was cancelled");
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      check();
+      if (settled) {
+        return;
+      }
+
+      subscription = this.onDidChangeEmitter.event((changed) => {
+        if (changed === name) {
+          check();
+        }
+      });
+      timer = setTimeout(
+        () =>
+          finish(
+            `Output of "${name}" did not match ${pattern} within ${timeoutMs / 1000} seconds`
+          ),
+        timeoutMs
+      );
+      signal?.addEventListener("abort", onAbort);
+    });
+  }
+
+  /**
+   * Write text to the standard input of a process
+   */
+  sendInput(taskId: string | undefined, name: string, input: string): void {
+    const entry = this.getProcess(taskId, name);
+    if (!entry.running || !entry.child.stdin?.writable) {
+      throw new Error(`Process "${name}" is not accepting input`);
+    }
+    entry.child.stdin.write(input);
+  }
+
+  /**
+   * Stop a process and wait for it to exit
+   */
+  async stop(taskId: string | undefined, name: string): Promise<ProcessOutput> {
+    const entry = this.getProcess(taskId, name);
+    await this.stopProcess(entry);
+    const result = this.consumeOutput(entry);
+    this.processes.delete(name);
+    return result;
+  }
+
+  /**
+   * Processes started by a task
+   */
+  list(taskId: string | undefined): BackgroundProcessInfo[] {
+    return [...this.processes.values()]
+      .filter((entry) => entry.taskId === taskId)
+      .map((entry) => this.toInfo(entry));
+  }
+
+  /**
+   * Stop and forget the processes started by a task
+   */
+  async stopTaskProcesses(taskId: string | undefined): Promise<void> {
+    const entries = [...this.processes.values()].filter(
+      (entry) => entry.taskId === taskId
+    );
+    for (const entry of entries) {
+      this.processes.delete(entry.name);
+    }
+    await Promise.all(entries.map((entry) => this.stopProcess(entry)));
+  }
+
+  dispose(): void {
+    for (const entry of this.processes.values()) {
+      killProcessTree(entry.child);
+    }
+    this.processes.clear();
+    this.onDidChangeEmitter.dispose();
+  }
+
+  private getProcess(
+    taskId: string | undefined,
+    name: string
+  ): BackgroundProcess {
+    const entry = this.processes.get(name);
+    if (!entry || entry.taskId !== taskId) {
+      const names = this.list(taskId).map((info) => info.name);
+      throw new Error(
+        `No background process named "${name}". ${
+          names.length > 0
+            ? `Known processes: ${names.join(", ")}`
+            : "No background processes were started in this task."
+        }`
+      );
+    }
+    return entry;
+  }
+
+  private async stopProcess(entry: BackgroundProcess): Promise<void> {
+    if (!entry.running) {
+      return;
+    }
+    killProcessTree(entry.child);
+
+    // killProcessTree sends SIGKILL after the grace period. A process can
+    // still hang on, e.g. in uninterruptible IO, or its output pipes can be
+    // held open by processes that left its group, so the wait is bounded.
+    let timer: NodeJS.Timeout | undefined;
+    const exited = await Promise.race([
+      entry.exited.then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(
+          () => resolve(false),
+          KILL_GRACE_PERIOD_MS + KILL_TIMEOUT_MS
+        );
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!exited) {
+      // Closing the pipes lets the close event fire once the process is gone
+      entry.child.stdin?.destroy();
+      entry.child.stdout?.destroy();
+      entry.child.stderr?.destroy();
+      logger.warn(
+        `[ProcessManager] ${entry.name} did not exit after it was killed`
+      );
+      return;
+    }
+    logger.debug(`[ProcessManager] Stopped ${entry.name}`);
+  }
+
+  private consumeOutput(entry: BackgroundProcess): ProcessOutput {
+    const droppedChars = Math.max(entry.bufferStart - entry.readOffset, 0);
+    const output = entry.buffer.slice(
+      Math.max(entry.readOffset - entry.bufferStart, 0)
+    );
+    entry.readOffset = entry.bufferStart + entry.buffer.length;
+    return {
+      info: this.toInfo(entry),
+      output: capOutput(output),
+      droppedChars,
+    };
+  }
+
+  private toInfo(entry: BackgroundProcess): BackgroundProcessInfo {
+    return {
+      name: entry.name,
+      command: entry.command,
+      cwd: entry.cwd,
+      pid: entry.pid,
+      running: entry.running,
+      exitCode: entry.exitCode,
+      signal: entry.signal,
+    };
+  }
+}
@@ -1,8 +1,8 @@
-import * as vscode from "vscode";
 import { ModeManager } from "./ModeManager";
-import { ToolExecutor } from "../tools";
+import { ToolExecutor, getWorkspaceRoots } from "../tools";
 import * as os from "os";
 import * as path from "path";
+import type { ToolProtocol } from "code-sidecar-shared/types/api";
 
 /**
  * PromptBuilder dynamically constructs system prompts
@@ -15,8 +15,9 @@ export class PromptBuilder {
 
   /**
    * Build the complete system prompt
+   * @param toolProtocol How tools are exposed to the model (defaults to XML)
    */
-  public buildSystemPrompt(): string {
+  public buildSystemPrompt(toolProtocol: ToolProtocol = "xml"): string {
     const sections: string[] = [];
 
     // 1. Role and Identity
@@ -26,7 +27,11 @@ export class PromptBuilder {
     sections.push(this.modeManager.getCurrentModePromptFragment());
 
     // 3. Tool Definitions
-    sections.push(this.getToolDefinitionsSection());
+    sections.push(
+      toolProtocol === "native"
+        ? this.getNativeToolsSection()
+        : this.getToolDefinitionsSection()
+    );
 
     // 4. Context Information
     sections.push(this.getContextSection());
@@ -101,6 +106,37 @@ You are an AI coding assistant integrated into Visual Studio Code. You help deve
     return section;
   }
 
+  /**
+   * Get tools section for the native function-calling protocol.
+   * Parameter schemas are sent with the request, so only usage rules are listed here.
+   */
+  private getNativeToolsSection(): string {
+    const tools = this.toolExecutor.getToolDefinitions();
+
+    if (tools.length === 0) {
+      return "# Available Tools\n\nNo tools are currently available.";
+    }
+
+    const toolList = tools
+      .map((tool) => `- \`${tool.name}\`: ${tool.description}`)
+      .join("\n");
+
+    return `# Available Tools
+
+You have access to the following tools to interact with the project:
+
+${toolList}
+
+## Tool Usage Instructions
+
+Tools are provided through the native function-calling interface, together with their parameter schemas.
+
+**Important Rules:**
+1. Call tools directly through function calls; never write tool calls as XML or plain text
+2. Required parameters must be provided with the types declared in the schema
+3. You can call multiple tools in one response. Independent reads and searches run in parallel, so batch them instead of making one call per response`;
+  }
+
   /**
    * Get tool usage instructions
    */
@@ -114,7 +150,7 @@ Tool uses are formatted using XML-style tags. The tool name itself becomes the X
 2. Each parameter must be in its own tag
 3. Required parameters must be provided
 4. Tool calls must be properly formatted XML
-5. You can call multiple tools in sequence
+5. You can call multiple tools in one response. Independent reads and searches run in parallel, so batch them instead of making one call per response
 
 **Example:**
 \`\`\`xml
@@ -130,16 +166,23 @@ Tool uses are formatted using XML-style tags. The tool name itself becomes the X
    * Get context information section
    */
   private getContextSection(): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const workspacePath =
-      workspaceFolders && workspaceFolders.length > 0
-        ? workspaceFolders[0].uri.fsPath
-        : "No workspace open";
+    const roots = getWorkspaceRoots();
+    let workspace: string;
+    if (roots.length === 0) {
+      workspace = "No workspace open";
+    } else if (roots.length === 1) {
+      workspace = roots[0].path;
+    } else {
+      workspace = `Multi-root workspace with ${roots.length} folders
+${roots.map((root) => `- ${root.name}: ${root.path}`).join("\n")}
+
+Start relative paths with the folder name, e.g. \`${roots[1].name}/README.md\`. Paths without a folder name refer to ${roots[0].name}.`;
+    }
 
     return `# Context Information
 
 **Operating System**: ${os.platform()} (${os.arch()})
-**Workspace**: ${workspacePath}`;
+**Workspace**: ${workspace}`;
   }
 
   /**
@@ -151,8 +194,13 @@ Tool uses are formatted using XML-style tags. The tool name itself becomes the X
 You can:
 - Read and analyze code files
 - Write and modify files (with user permission)
+- Apply unified diffs that change, create, delete and rename several files at once
 - Search for patterns in the codebase
+- Search the codebase by meaning, e.g. to find where a behavior is handled
+- Trace code like an IDE: find symbols, definitions, references, types and callers
+- Rename symbols and apply quick fixes and refactorings through the language servers
 - Execute commands in the terminal
+- Run dev servers and watchers in the background and read their output
 - Access diagnostic information (errors, warnings)
 - Navigate the project structure
 - Provide explanations and suggestions
@@ -174,9 +222,9 @@ Your responses should be:
     let editRestriction = "";
     if (maxEdits === 0) {
       editRestriction =
-        "- **File Editing**: Avoid making file changes unless explicitly requested";
+        "- **File Editing**: File edits are not allowed in this mode";
     } else if (maxEdits !== undefined) {
-      editRestriction = `- **File Editing**: Limit file modifications to ${maxEdits} files per task`;
+      editRestriction = `- **File Editing**: You can modify at most ${maxEdits} files per task; edits to further files are rejected`;
     } else {
       editRestriction =
         "- **File Editing**: You can modify files as needed for the task";
@@ -192,7 +240,11 @@ Your responses should be:
 - Provide reasoning for your actions
 
 ## Mode-Specific Rules:
-${editRestriction}
+${editRestriction}${
+      mode.allowedTools
+        ? "\n- **Tools**: Only the tools listed above are available in this mode; other tool calls are rejected"
+        : ""
+    }
 - Follow the guidelines specific to ${mode.name} mode
 - Stay focused on the mode's primary objectives
 
@@ -0,0 +1,278 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ToolFileSystem } from "../tools/toolFileSystem";
+import { isInsideRoot } from "../tools/workspacePaths";
+import { logger } from "code-sidecar-shared/utils/logger";
+
+/** URI scheme of the read-only documents shown in the review diff */
+export const STAGED_EDIT_SCHEME = "codesidecar-staged";
+
+/** Query of the review URI that shows the content on disk */
+const ORIGINAL_QUERY = "original";
+
+/**
+ * StagedEditManager is an in-memory overlay over the workspace files.
+ * While staging is enabled, file edits made by tools are kept here instead
+ * of being written to disk, and reads through the overlay see the staged
+ * content. The user reviews the staged edits in the native multi-file diff
+ * editor and then commits them to disk or discards them.
+ */
+export class StagedEditManager
+  implements ToolFileSystem, vscode.TextDocumentContentProvider
+{
+  private enabled = false;
+  private staged = new Map<string, Uint8Array>();
+  /** Files whose deletion is staged */
+  private deleted = new Set<string>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Absolute paths of the files with staged edits
+   */
+  getStagedPaths(): string[] {
+    return [...this.staged.keys(), ...this.deleted];
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    if (this.deleted.has(uri.fsPath)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return this.staged.get(uri.fsPath) ?? vscode.workspace.fs.readFile(uri);
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    this.deleted.delete(uri.fsPath);
+    if (!this.enabled) {
+      // A direct write supersedes an edit staged before staging was turned off
+      this.staged.delete(uri.fsPath);
+      await vscode.workspace.fs.writeFile(uri, content);
+      return;
+    }
+
+    this.staged.set(uri.fsPath, content);
+    this.onDidChangeEmitter.fire(this.toReviewUri(uri.fsPath));
+    logger.debug(`[StagedEditManager] Staged edit: ${uri.fsPath}`);
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    if (this.deleted.has(uri.fsPath)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const content = this.staged.get(uri.fsPath);
+    if (!content) {
+      if (this.stagedEntries(uri.fsPath).size === 0) {
+        return vscode.workspace.fs.stat(uri);
+      }
+      // A directory that exists on disk, or only holds new staged files
+      return vscode.workspace.fs.stat(uri).then(undefined, () => ({
+        type: vscode.FileType.Directory,
+        ctime: Date.now(),
+        mtime: Date.now(),
+        size: 0,
+      }));
+    }
+    return {
+      type: vscode.FileType.File,
+      ctime: Date.now(),
+      mtime: Date.now(),
+      size: content.byteLength,
+    };
+  }
+
+  /**
+   * Directory entries on disk without the staged deletions, plus the
+   * staged files and the directories that only hold staged files
+   */
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const staged = this.stagedEntries(uri.fsPath);
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(uri);
+    } catch (error) {
+      if (staged.size === 0) {
+        throw error;
+      }
+    }
+
+    const names = new Set(entries.map(([name]) => name));
+    return [
+      ...entries.filter(
+        ([name]) => !this.deleted.has(path.join(uri.fsPath, name))
+      ),
+      ...[...staged].filter(([name]) => !names.has(name)),
+    ];
+  }
+
+  async createDirectory(uri: vscode.Uri): Promise<void> {
+    // Directories of staged files are created when the edits are committed
+    if (!this.enabled) {
+      await vscode.workspace.fs.createDirectory(uri);
+    }
+  }
+
+  async delete(uri: vscode.Uri): Promise<void> {
+    const wasStaged = this.staged.delete(uri.fsPath);
+    if (!this.enabled) {
+      this.deleted.delete(uri.fsPath);
+      await vscode.workspace.fs.delete(uri);
+      return;
+    }
+
+    // A file that only exists as a staged edit has nothing to delete on disk
+    const onDisk = await vscode.workspace.fs.stat(uri).then(
+      () => true,
+      () => false
+    );
+    if (onDisk) {
+      this.deleted.add(uri.fsPath);
+    } else if (!wasStaged) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    this.onDidChangeEmitter.fire(this.toReviewUri(uri.fsPath));
+    logger.debug(`[StagedEditManager] Staged deletion: ${uri.fsPath}`);
+  }
+
+  /**
+   * Entries of a directory leading to staged files, by name
+   */
+  private stagedEntries(dirPath: string): Map<string, vscode.FileType> {
+    const entries = new Map<string, vscode.FileType>();
+    for (const filePath of this.staged.keys()) {
+      if (filePath === dirPath || !isInsideRoot(dirPath, filePath)) {
+        continue;
+      }
+      const [name, ...rest] = path.relative(dirPath, filePath).split(path.sep);
+      entries.set(
+        name,
+        rest.length > 0 ? vscode.FileType.Directory : vscode.FileType.File
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Content of the review documents: the file on disk, or the staged edit.
+   * Deleted files have no staged content.
+   */
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const filePath = vscode.Uri.file(uri.path).fsPath;
+    if (uri.query !== ORIGINAL_QUERY) {
+      return Buffer.from(this.staged.get(filePath) ?? []).toString("utf-8");
+    }
+
+    try {
+      const content = await vscode.workspace.fs.readFile(
+        vscode.Uri.file(filePath)
+      );
+      return Buffer.from(content).toString("utf-8");
+    } catch {
+      // New files have no content on disk yet
+      return "";
+    }
+  }
+
+  /**
+   * Open the staged edits in the multi-file diff editor
+   */
+  async review(): Promise<void> {
+    const resources = this.getStagedPaths().map((filePath) => [
+      vscode.Uri.file(filePath),
+      this.toReviewUri(filePath, ORIGINAL_QUERY),
+      this.toReviewUri(filePath),
+    ]);
+    if (resources.length === 0) {
+      vscode.window.showInformationMessage("There are no staged edits");
+      return;
+    }
+
+    await vscode.commands.executeCommand(
+      "vscode.changes",
+      "CodeSidecar Staged Edits",
+      resources
+    );
+  }
+
+  /**
+   * Write the staged edits to disk and delete the files staged for deletion
+   * @returns Workspace-relative paths of the written and deleted files
+   */
+  async commit(): Promise<string[]> {
+    const written: string[] = [];
+    for (const filePath of this.deleted) {
+      await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+      this.deleted.delete(filePath);
+      written.push(vscode.workspace.asRelativePath(filePath, false));
+    }
+    for (const [filePath, content] of this.staged) {
+      await vscode.workspace.fs.createDirectory(
+        vscode.Uri.file(path.dirname(filePath))
+      );
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(filePath), content);
+      this.staged.delete(filePath);
+      written.push(vscode.workspace.asRelativePath(filePath, false));
+    }
+
+    logger.debug(`[StagedEditManager] Committed ${written.length} staged edits`);
+    vscode.window.showInformationMessage(
+      `Wrote staged edits to ${written.length} ${written.length === 1 ? "file" : "files"}`
+    );
+    return written;
+  }
+
+  /**
+   * Drop the staged edits without touching the disk
+   */
+  discard(): void {
+    this.staged.clear();
+    this.deleted.clear();
+  }
+
+  /**
+   * Ask the user what to do with the staged edits, if there are any
+   */
+  async promptReview(): Promise<void> {
+    const count = this.staged.size + this.deleted.size;
+    if (count === 0) {
+      return;
+    }
+
+    const fileLabel = count === 1 ? "file has" : "files have";
+    const choice = await vscode.window.showInformationMessage(
+      `${count} ${fileLabel} staged edits that are not written to disk yet.`,
+      "Review",
+      "Commit",
+      "Discard"
+    );
+
+    if (choice === "Review") {
+      // Keep the choice open while the diff editor is shown
+      await this.review();
+      await this.promptReview();
+    } else if (choice === "Commit") {
+      await this.commit();
+    } else if (choice === "Discard") {
+      this.discard();
+    }
+  }
+
+  dispose(): void {
+    this.onDidChangeEmitter.dispose();
+  }
+
+  private toReviewUri(filePath: string, query = ""): vscode.Uri {
+    return vscode.Uri.file(filePath).with({
+      scheme: STAGED_EDIT_SCHEME,
+      query,
+    });
+  }
+}
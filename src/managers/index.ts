@@ -2,11 +2,49 @@
  * Managers module exports
  */
 export { ModeManager, ModeDefinition } from "./ModeManager";
+export {
+  CustomModeLoader,
+  CUSTOM_MODES_DIR,
+  parseCustomModeFile,
+} from "./CustomModeLoader";
 export { PermissionManager } from "./PermissionManager";
+export {
+  evaluatePermissionRules,
+  suggestPermissionRule,
+} from "./permissionRules";
+export {
+  CheckpointManager,
+  CheckpointRestoreResult,
+} from "./CheckpointManager";
+export { StagedEditManager, STAGED_EDIT_SCHEME } from "./StagedEditManager";
+export {
+  CommandPolicy,
+  CommandPolicyRule,
+  CommandPolicyViolation,
+  ParsedCommandLine,
+  evaluateCommandPolicy,
+  parseCommandLine,
+  scrubEnvironment,
+} from "./CommandPolicy";
+export {
+  IgnoreService,
+  IgnoreRule,
+  IGNORE_FILE_NAMES,
+  parseIgnoreFile,
+} from "./IgnoreService";
+export {
+  ProcessManager,
+  BackgroundProcessInfo,
+  ProcessOutput,
+  formatProcessOutput,
+  killProcessTree,
+} from "./ProcessManager";
 export type { PermissionSettings } from "code-sidecar-shared/types/config";
 export {
   ConversationHistoryManager,
+  ConversationCosts,
   ConversationEntry,
+  DEFAULT_HISTORY_CONFIG,
   HistoryConfig,
 } from "./ConversationHistoryManager";
 export {
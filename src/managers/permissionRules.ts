@@ -0,0 +1,188 @@
+import * as path from "path";
+import type {
+  PermissionRequest,
+  PermissionRule,
+  PermissionRuleAction,
+} from "code-sidecar-shared/types/permissions";
+
+/** Separators of the commands in a command line, e.g. `a && b; c | d` */
+const COMMAND_SEPARATOR = /&&|\|\||;|\||(?<![>&])&(?![>&])|\n/;
+
+/**
+ * Command and process substitutions can run any command, so allow rules
+ * never match them
+ */
+const COMMAND_SUBSTITUTION = /\$\(|`|[<>]\(/;
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const normalizeCommand = (command: string): string =>
+  command.trim().replace(/\s+/g, " ");
+
+/**
+ * Match a value against a pattern where `*` matches any characters
+ */
+const matchesWildcard = (pattern: string, value: string): boolean =>
+  new RegExp(
+    `^${pattern.split("*").map(escapeRegExp).join(".*")}$`
+  ).test(value);
+
+/**
+ * Convert a glob to a regular expression. Supports `**`, `*`, `?`, `[abc]`
+ * character classes and `{a,b}` alternatives, matched against
+ * `/`-separated paths.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      // `**/` matches any number of directories, a trailing `**` anything
+      const slash = glob[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && glob.indexOf("]", index + 2) > 0) {
+      const end = glob.indexOf("]", index + 2);
+      const negated = glob[index + 1] === "!" || glob[index + 1] === "^";
+      const members = glob
+        .slice(index + (negated ? 2 : 1), end)
+        .replace(/[\\\]^]/g, "\\$&");
+      source += negated ? `[^/${members}]` : `[${members}]`;
+      index = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+const splitCommand = (command: string): string[] =>
+  command.split(COMMAND_SEPARATOR).map(normalizeCommand).filter(Boolean);
+
+const isCompoundCommand = (command: string): boolean =>
+  COMMAND_SUBSTITUTION.test(command) || splitCommand(command).length !== 1;
+
+const matchesRule = (
+  rule: PermissionRule,
+  request: PermissionRequest,
+  command = request.command
+): boolean => {
+  if (rule.tool && !matchesWildcard(rule.tool, request.toolName)) {
+    return false;
+  }
+  if (
+    rule.operation &&
+    rule.operation.trim().toLowerCase() !==
+      request.operation.trim().toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    rule.path &&
+    (request.path === undefined || !globToRegExp(rule.path).test(request.path))
+  ) {
+    return false;
+  }
+  if (
+    rule.command &&
+    (command === undefined ||
+      !matchesWildcard(
+        normalizeCommand(rule.command),
+        normalizeCommand(command)
+      ))
+  ) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Decide a permission request by the rules.
+ *
+ * Deny and ask rules match when the whole command line or any command in it
+ * matches. Allow rules have to match every command in the command line, and
+ * never match command lines with substitutions.
+ * @param request Request whose path is workspace-relative with `/` separators
+ * @returns The action of the deciding rule, or undefined if no rule matches
+ */
+export const evaluatePermissionRules = (
+  rules: PermissionRule[],
+  request: PermissionRequest
+): PermissionRuleAction | undefined => {
+  const commands =
+    request.command === undefined
+      ? [undefined]
+      : [request.command, ...splitCommand(request.command)];
+  const matchesAnyCommand = (rule: PermissionRule) =>
+    commands.some((command) => matchesRule(rule, request, command));
+
+  for (const action of ["deny", "ask"] as const) {
+    if (rules.some((rule) => rule.action === action && matchesAnyCommand(rule))) {
+      return action;
+    }
+  }
+
+  const allowRules = rules.filter((rule) => rule.action === "allow");
+  if (request.command === undefined) {
+    return allowRules.some((rule) => matchesRule(rule, request))
+      ? "allow"
+      : undefined;
+  }
+  if (COMMAND_SUBSTITUTION.test(request.command)) {
+    return undefined;
+  }
+
+  const parts = splitCommand(request.command);
+  const allowed =
+    parts.length > 0 &&
+    parts.every((part) =>
+      allowRules.some((rule) => matchesRule(rule, request, part))
+    );
+  return allowed ? "allow" : undefined;
+};
+
+/**
+ * Rule offered when the user approves a request and wants to remember it:
+ * the exact command, or the tool within the directory of the file.
+ * Compound command lines get no suggestion.
+ */
+export const suggestPermissionRule = (
+  request: PermissionRequest
+): PermissionRule | undefined => {
+  if (request.command !== undefined) {
+    return isCompoundCommand(request.command)
+      ? undefined
+      : {
+          action: "allow",
+          tool: request.toolName,
+          command: normalizeCommand(request.command),
+        };
+  }
+
+  if (request.path !== undefined) {
+    const directory = path.posix.dirname(request.path);
+    return {
+      action: "allow",
+      tool: request.toolName,
+      path: directory === "." ? request.path : `${directory}/**`,
+    };
+  }
+
+  return { action: "allow", tool: request.toolName };
+};
@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { Tool as McpToolDefinition } from "@modelcontextprotocol/sdk/types.js";
+import { McpTool } from "./McpTool";
+import type { ToolExecutor } from "../tools";
+import { logger } from "code-sidecar-shared/utils/logger";
+import type {
+  McpServerConfig,
+  McpServerTable,
+} from "code-sidecar-shared/types/config";
+
+/**
+ * Creates the transport of a server. Replaceable so the client can be
+ * exercised against an in-process stub server.
+ */
+export type McpTransportFactory = (
+  serverName: string,
+  config: McpServerConfig
+) => Transport;
+
+type McpConnection = {
+  /** Serialized config, used to detect changes */
+  configKey: string;
+  client: Client;
+  toolNames: string[];
+};
+
+/**
+ * Create a stdio or HTTP transport from the server settings
+ * @throws Error if the server has neither a command nor a url
+ */
+export const createMcpTransport: McpTransportFactory = (serverName, config) => {
+  if (config.command) {
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args ?? [],
+      env: { ...getDefaultEnvironment(), ...config.env },
+      cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+      stderr: "ignore",
+    });
+  }
+
+  if (config.url) {
+    const url = new URL(config.url);
+    return config.transport === "sse"
+      ? new SSEClientTransport(url)
+      : new StreamableHTTPClientTransport(url);
+  }
+
+  throw new Error(`MCP server "${serverName}" needs a command or a url`);
+};
+
+/**
+ * McpClientManager connects to the configured MCP servers and registers
+ * their tools on the ToolExecutor. Tool names are namespaced by server,
+ * and calls go through the ToolExecutor permission checks like any
+ * built-in tool.
+ */
+export class McpClientManager {
+  private connections = new Map<string, McpConnection>();
+  /** Pending sync, so overlapping setting changes are applied in order */
+  private syncing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly toolExecutor: ToolExecutor,
+    private readonly clientVersion: string,
+    private readonly createTransport: McpTransportFactory = createMcpTransport
+  ) {}
+
+  /**
+   * Connect to new or changed servers and disconnect removed ones
+   */
+  syncServers(servers: McpServerTable): Promise<void> {
+    this.syncing = this.syncing.then(() => this.applyServers(servers));
+    return this.syncing;
+  }
+
+  /**
+   * Names of the connected servers and their registered tools
+   */
+  getServerTools(): Record<string, string[]> {
+    return Object.fromEntries(
+      [...this.connections].map(([name, connection]) => [
+        name,
+        connection.toolNames,
+      ])
+    );
+  }
+
+  /**
+   * Disconnect from every server
+   */
+  async dispose(): Promise<void> {
+    await this.syncing;
+    for (const name of [...this.connections.keys()]) {
+      await this.disconnect(name);
+    }
+  }
+
+  private async applyServers(servers: McpServerTable): Promise<void> {
+    const enabled = Object.entries(servers).filter(
+      ([, config]) => !config.disabled
+    );
+    const enabledNames = new Set(enabled.map(([name]) => name));
+
+    for (const name of [...this.connections.keys()]) {
+      if (!enabledNames.has(name)) {
+        await this.disconnect(name);
+      }
+    }
+
+    await Promise.all(
+      enabled.map(async ([name, config]) => {
+        const configKey = JSON.stringify(config);
+        if (this.connections.get(name)?.configKey === configKey) {
+          return;
+        }
+        await this.disconnect(name);
+        await this.connect(name, config, configKey);
+      })
+    );
+  }
+
+  private async connect(
+    name: string,
+    config: McpServerConfig,
+    configKey: string
+  ): Promise<void> {
+    const client = new Client({
+      name: "code-sidecar",
+      version: this.clientVersion,
+    });
+
+    try {
+      await client.connect(this.createTransport(name, config));
+      const definitions = await this.listTools(client);
+
+      const toolNames: string[] = [];
+      for (const definition of definitions) {
+        const tool = new McpTool(name, definition, client);
+        this.toolExecutor.registerTool(tool);
+        toolNames.push(tool.name);
+      }
+
+      this.connections.set(name, { configKey, client, toolNames });
+      logger.debug(
+        `[McpClientManager] Connected to ${name}, registered ${toolNames.length} tools`
+      );
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[McpClientManager] Failed to connect to ${name}:`, error);
+      vscode.window.showWarningMessage(
+        `Failed to connect to MCP server "${name}": ${message}`
+      );
+    }
+  }
+
+  private async listTools(client: Client): Promise<McpToolDefinition[]> {
+    const tools: McpToolDefinition[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  private async disconnect(name: string): Promise<void> {
+    const connection = this.connections.get(name);
+    if (!connection) {
+      return;
+    }
+
+    this.connections.delete(name);
+    for (const toolName of connection.toolNames) {
+      this.toolExecutor.unregisterTool(toolName);
+    }
+
+    try {
+      await connection.client.close();
+    } catch (error) {
+      logger.debug(`[McpClientManager] Failed to close ${name}:`, error);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { Tool as McpToolDefinition } from "@modelcontextprotocol/sdk/types.js";
+import { BaseTool, ParameterDefinition, ToolSideEffect } from "../tools/Tool";
+
+/** Longest tool name accepted by the native function-calling APIs */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+type JsonSchema = Record<string, unknown>;
+
+const sanitizeNamePart = (value: string): string =>
+  value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+/**
+ * Name under which a server tool is registered, e.g. `mcp__tracker__get_issue`
+ */
+export const buildMcpToolName = (serverName: string, toolName: string): string =>
+  `mcp__${sanitizeNamePart(serverName)}__${sanitizeNamePart(toolName)}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH
+  );
+
+const toParameterType = (schema: JsonSchema): ParameterDefinition["type"] => {
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+    case "object":
+    case "array":
+      return type;
+    default:
+      return "string";
+  }
+};
+
+const buildParameters = (
+  inputSchema: McpToolDefinition["inputSchema"]
+): ParameterDefinition[] => {
+  const properties = (inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set(inputSchema.required ?? []);
+
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    type: toParameterType(schema),
+    required: required.has(name),
+    description:
+      typeof schema.description === "string" ? schema.description : "",
+    schema,
+  }));
+};
+
+type McpContent = {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string };
+};
+
+const formatContent = (content: McpContent): string => {
+  switch (content.type) {
+    case "text":
+      return content.text ?? "";
+    case "resource":
+      return content.resource?.text ?? `[resource: ${content.resource?.uri}]`;
+    default:
+      return `[${content.type}${content.mimeType ? `: ${content.mimeType}` : ""}]`;
+  }
+};
+
+/**
+ * McpTool exposes a tool of an MCP server through the regular tool interface.
+ * Calls are forwarded to the server as `tools/call` requests.
+ */
+export class McpTool extends BaseTool {
+  readonly name: string;
+  readonly description: string;
+  readonly parameters: ParameterDefinition[];
+  readonly requiresPermission = true; // Calls reach an external server
+  readonly sideEffect: ToolSideEffect;
+  readonly permissionOperation: string;
+
+  constructor(
+    readonly serverName: string,
+    private readonly definition: McpToolDefinition,
+    private readonly client: Client
+  ) {
+    super();
+    this.name = buildMcpToolName(serverName, definition.name);
+    this.description = `[MCP server: ${serverName}] ${
+      definition.description ?? definition.title ?? definition.name
+    }`;
+    this.parameters = buildParameters(definition.inputSchema);
+
+    const readOnly = definition.annotations?.readOnlyHint === true;
+    this.sideEffect = readOnly ? "read_only" : "mutating";
+    this.permissionOperation = readOnly ? "read" : "execute";
+  }
+
+  /**
+   * Only check required parameters; the server validates the values.
+   * XML tool calls deliver every value as a string, see coerceArguments.
+   */
+  validate(params: Record<string, any>): boolean {
+    return this.parameters.every(
+      (param) => !param.required || param.name in params
+    );
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const result = await this.client.callTool({
+      name: this.definition.name,
+      arguments: this.coerceArguments(params),
+    });
+
+    const contents = Array.isArray(result.content)
+      ? (result.content as McpContent[])
+      : [];
+    const output = contents.map(formatContent).join("\n");
+
+    if (result.isError) {
+      throw new Error(output || `MCP tool ${this.definition.name} failed`);
+    }
+    if (!output && result.structuredContent) {
+      return JSON.stringify(result.structuredContent, null, 2);
+    }
+    return output || "(no output)";
+  }
+
+  /**
+   * Parse string values of non-string parameters as JSON
+   */
+  private coerceArguments(params: Record<string, any>): Record<string, unknown> {
+    const args: Record<string, unknown> = { ...params };
+    for (const param of this.parameters) {
+      const value = args[param.name];
+      if (param.type === "string" || typeof value !== "string") {
+        continue;
+      }
+      try {
+        args[param.name] = JSON.parse(value);
+      } catch {
+        // Leave the value as is and let the server report it
+      }
+    }
+    return args;
+  }
+}
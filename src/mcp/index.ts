@@ -0,0 +1,10 @@
+/**
+ * MCP client exports
+ */
+
+export {
+  McpClientManager,
+  McpTransportFactory,
+  createMcpTransport,
+} from "./McpClientManager";
+export { McpTool, buildMcpToolName } from "./McpTool";
@@ -0,0 +1,104 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as vscode from "vscode";
+import { CheckpointManager } from "../managers/CheckpointManager";
+import type { ToolFileSystem } from "../tools/toolFileSystem";
+
+/**
+ * Files in memory, by absolute path
+ */
+const createFileSystem = (files: Map<string, string>): ToolFileSystem => ({
+  readFile: async (uri) => {
+    const content = files.get(uri.fsPath);
+    if (content === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return Buffer.from(content, "utf-8");
+  },
+  writeFile: async (uri, content) => {
+    files.set(uri.fsPath, Buffer.from(content).toString("utf-8"));
+  },
+  stat: async () => {
+    throw new Error("Not supported");
+  },
+  readDirectory: async () => [],
+  createDirectory: async () => {},
+  delete: async (uri) => {
+    if (!files.delete(uri.fsPath)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+  },
+});
+
+suite("CheckpointManager", () => {
+  const context = { taskId: "task", conversationId: "chat", messageIndex: 0 };
+  const changed = path.resolve("/workspace/changed.ts");
+  const created = path.resolve("/workspace/created.ts");
+  const deleted = path.resolve("/workspace/deleted.ts");
+
+  test("restores the files a patch authorized before changing them", async () => {
+    const files = new Map([
+      [changed, "before"],
+      [deleted, "old"],
+    ]);
+    const manager = new CheckpointManager(createFileSystem(files));
+    const taskCheckpoint = manager.createTaskCheckpoint(context, "Patch");
+    const toolCheckpoint = await manager.createToolCallCheckpoint(context, {
+      type: "tool_use",
+      name: "apply_patch",
+      params: { patch: "" },
+    });
+    assert.ok(toolCheckpoint);
+
+    await manager.addCheckpointFiles("chat", toolCheckpoint.id, [
+      changed,
+      created,
+      deleted,
+    ]);
+    files.set(changed, "after");
+    files.set(created, "new");
+    files.delete(deleted);
+    // A second authorization of the same file keeps the first content
+    await manager.addCheckpointFiles("chat", toolCheckpoint.id, [changed]);
+
+    const result = await manager.restoreCheckpoint("chat", taskCheckpoint.id);
+    assert.deepStrictEqual(
+      [...files].sort(),
+      [
+        [changed, "before"],
+        [deleted, "old"],
+      ].sort()
+    );
+    assert.strictEqual(result.restoredFiles.length, 3);
+  });
+
+  test("checkpoints renames and code actions before they know their files", async () => {
+    const manager = new CheckpointManager(createFileSystem(new Map()));
+
+    for (const name of ["rename_symbol", "apply_code_action"]) {
+      const checkpoint = await manager.createToolCallCheckpoint(context, {
+        type: "tool_use",
+        name,
+        params: { path: "src/a.ts", line: "1" },
+      });
+      assert.strictEqual(checkpoint?.label, name);
+    }
+    assert.strictEqual(
+      await manager.createToolCallCheckpoint(context, {
+        type: "tool_use",
+        name: "read_file",
+        params: { path: "src/a.ts" },
+      }),
+      undefined
+    );
+  });
+
+  test("rejects files for an unknown checkpoint", async () => {
+    const manager = new CheckpointManager(createFileSystem(new Map()));
+
+    await assert.rejects(
+      manager.addCheckpointFiles("chat", "missing", [changed]),
+      /Checkpoint not found: missing/
+    );
+  });
+});
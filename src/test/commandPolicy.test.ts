@@ -0,0 +1,162 @@
+import * as assert from "assert";
+import {
+  evaluateCommandPolicy,
+  parseCommandLine,
+  scrubEnvironment,
+} from "../managers/CommandPolicy";
+import {
+  DEFAULT_COMMAND_POLICY_SETTINGS,
+  type CommandPolicySettings,
+} from "code-sidecar-shared/types/config";
+
+suite("parseCommandLine", () => {
+  test("splits commands and keeps quoted words together", () => {
+    const { commands, substitutions } = parseCommandLine(
+      `git commit -m "a; b" && echo 'c | d' | wc -l`
+    );
+
+    assert.deepStrictEqual(commands, [
+      ["git", "commit", "-m", "a; b"],
+      ["echo", "c | d"],
+      ["wc", "-l"],
+    ]);
+    assert.deepStrictEqual(substitutions, []);
+  });
+
+  test("drops redirection targets and collects substitutions", () => {
+    const { commands, substitutions } = parseCommandLine(
+      "cat $(ls src) > out.txt 2>&1 < `pwd`/in.txt"
+    );
+
+    assert.deepStrictEqual(commands, [["cat", "$SUBSTITUTION"]]);
+    assert.deepStrictEqual(substitutions, ["ls src", "pwd"]);
+  });
+});
+
+suite("evaluateCommandPolicy", () => {
+  const settings: CommandPolicySettings = {
+    ...DEFAULT_COMMAND_POLICY_SETTINGS,
+    deniedCommands: ["sudo", "rm", "curl*"],
+  };
+
+  const assertDenied = (
+    commandLine: string,
+    program: string,
+    overrides: Partial<CommandPolicySettings> = {}
+  ) => {
+    const violation = evaluateCommandPolicy(
+      { ...settings, ...overrides },
+      commandLine
+    );
+    assert.strictEqual(violation?.rule, "denied_command", commandLine);
+    assert.ok(violation?.message.includes(`'${program}'`), commandLine);
+  };
+
+  const assertAllowed = (commandLine: string) =>
+    assert.strictEqual(
+      evaluateCommandPolicy(settings, commandLine),
+      undefined,
+      commandLine
+    );
+
+  test("allows commands that are not denied", () => {
+    assertAllowed("git status");
+    assertAllowed("timeout 10 npm test");
+    assertAllowed("env -u HOME ls");
+    assertAllowed("find . -name '*.ts' -exec grep -l TODO {} \\;");
+  });
+
+  test("matches program names by path, extension and wildcard", () => {
+    assertDenied("/usr/bin/sudo ls", "sudo");
+    assertDenied("RM.exe file", "RM");
+    assertDenied("curl-config --libs", "curl-config");
+  });
+
+  test("checks chained commands, substitutions and shell scripts", () => {
+    assertDenied("ls && rm -rf out", "rm");
+    assertDenied("echo $(sudo id)", "sudo");
+    assertDenied(`bash -c "ls; rm -rf out"`, "rm");
+    assertDenied("eval rm -rf out", "rm");
+  });
+
+  test("skips the options and operands of wrappers", () => {
+    assertDenied("env -u FOO sudo ls", "sudo");
+    assertDenied("env -i --chdir /tmp FOO=1 sudo ls", "sudo");
+    assertDenied("timeout -s KILL 5 sudo ls", "sudo");
+    assertDenied("timeout --signal=TERM -k 2 5 sudo ls", "sudo");
+    assertDenied("exec -a x sudo ls", "sudo");
+    assertDenied("nice -n 10 rm file", "rm");
+    assertDenied("xargs -I {} rm {}", "rm");
+    assertDenied("xargs -n1 -P 4 rm", "rm");
+    assertDenied("stdbuf -o L rm file", "rm");
+    assertDenied("nohup -- rm file", "rm");
+  });
+
+  test("checks the command lines given to env -S", () => {
+    assertDenied("env -S 'sudo ls'", "sudo");
+    assertDenied("env --split-string='rm -rf out'", "rm");
+  });
+
+  test("checks the commands run by find and busybox", () => {
+    assertDenied("find . -exec rm {} \\;", "rm");
+    assertDenied("find . -name x -execdir rm {} +", "rm");
+    assertDenied("find . -ok sh -c 'rm x' \\;", "rm");
+    assertDenied("busybox rm file", "rm");
+    assertDenied("sudo -u root ls", "sudo");
+  });
+
+  test("checks wrapped programs against the allowed commands", () => {
+    const allowed = {
+      ...settings,
+      deniedCommands: [],
+      allowedCommands: ["git", "timeout", "find"],
+    };
+
+    assert.strictEqual(
+      evaluateCommandPolicy(allowed, "timeout 5 git log"),
+      undefined
+    );
+    assert.strictEqual(
+      evaluateCommandPolicy(allowed, "find . -exec cat {} \\;")?.rule,
+      "command_not_allowed"
+    );
+  });
+
+  test("rejects programs only known when the command runs", () => {
+    assert.strictEqual(
+      evaluateCommandPolicy(settings, "$(which rm) file")?.rule,
+      "command_not_allowed"
+    );
+  });
+
+  test("rejects chaining when it is not allowed", () => {
+    const noChaining = { ...settings, allowChaining: false };
+
+    assert.strictEqual(evaluateCommandPolicy(noChaining, "ls -la"), undefined);
+    assert.strictEqual(
+      evaluateCommandPolicy(noChaining, "ls; pwd")?.rule,
+      "chaining"
+    );
+    assert.strictEqual(
+      evaluateCommandPolicy(noChaining, "bash -c 'ls'")?.rule,
+      "chaining"
+    );
+  });
+});
+
+suite("scrubEnvironment", () => {
+  test("removes the variables matching a pattern", () => {
+    assert.deepStrictEqual(
+      scrubEnvironment(
+        {
+          PATH: "/bin",
+          OPENAI_API_KEY: "x",
+          AWS_REGION: "y",
+          github_token: "z",
+        },
+        DEFAULT_COMMAND_POLICY_SETTINGS.sensitiveEnvPatterns
+      ),
+      { PATH: "/bin" }
+    );
+  });
+});
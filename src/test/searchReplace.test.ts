@@ -0,0 +1,285 @@
+import * as assert from "assert";
+import {
+  applySearchReplaceBlocks,
+  findBlockMatch,
+  parseSearchReplaceBlocks,
+} from "../tools/searchReplace";
+
+const block = (search: string[], replace: string[], startLine?: number) => ({
+  search: search.join("\n"),
+  replace: replace.join("\n"),
+  startLine,
+});
+
+const apply = (content: string[], search: string[], replace: string[]) =>
+  applySearchReplaceBlocks(content.join("\n"), [block(search, replace)])
+    .content;
+
+suite("parseSearchReplaceBlocks", () => {
+  test("parses blocks with and without a start line", () => {
+    const blocks = parseSearchReplaceBlocks(
+      [
+        "<<<<<<< SEARCH",
+        ":start_line:12",
+        "-------",
+        "old",
+        "=======",
+        "new",
+        ">>>>>>> REPLACE",
+        "",
+        "<<<<<<< SEARCH",
+        "a",
+        "b",
+        "=======",
+        ">>>>>>> REPLACE",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(blocks, [
+      { search: "old", replace: "new", startLine: 12 },
+      { search: "a\nb", replace: "", startLine: undefined },
+    ]);
+  });
+
+  test("rejects a block with more than one divider", () => {
+    assert.throws(
+      () =>
+        parseSearchReplaceBlocks(
+          [
+            "<<<<<<< SEARCH",
+            "Title",
+            "=======",
+            "old",
+            "=======",
+            "new",
+            ">>>>>>> REPLACE",
+          ].join("\n")
+        ),
+      /Block 1 has 2 "=======" lines/
+    );
+  });
+
+  test("unescapes marker lines of the texts", () => {
+    const [parsed] = parseSearchReplaceBlocks(
+      [
+        "<<<<<<< SEARCH",
+        "\\-------",
+        "Title",
+        "\\=======",
+        "=======",
+        "Title",
+        "\\=======",
+        "\\>>>>>>> REPLACE",
+        ">>>>>>> REPLACE",
+      ].join("\n")
+    );
+
+    assert.strictEqual(parsed.search, "-------\nTitle\n=======");
+    assert.strictEqual(parsed.replace, "Title\n=======\n>>>>>>> REPLACE");
+  });
+
+  test("rejects a block the next block starts in", () => {
+    assert.throws(
+      () =>
+        parseSearchReplaceBlocks(
+          [
+            "<<<<<<< SEARCH",
+            "old",
+            "=======",
+            "new",
+            "<<<<<<< SEARCH",
+            "a",
+            "=======",
+            "b",
+            ">>>>>>> REPLACE",
+          ].join("\n")
+        ),
+      /Block 1 is not closed/
+    );
+  });
+
+  test("rejects a diff without blocks", () => {
+    assert.throws(() => parseSearchReplaceBlocks("old\nnew"), /has no blocks/);
+  });
+});
+
+suite("findBlockMatch", () => {
+  test("prefers an exact match and keeps the line breaks of the file", () => {
+    const match = findBlockMatch("a\r\nb\r\nc\r\n", block(["b", "c"], ["x"]));
+
+    assert.strictEqual(match.kind, "exact");
+    assert.strictEqual(match.startLine, 2);
+    assert.strictEqual(match.endLine, 3);
+    assert.strictEqual(match.replacement, "x");
+  });
+
+  test("picks the match nearest the start line", () => {
+    const content = ["x", "a", "x", "a"].join("\n");
+
+    assert.throws(
+      () => findBlockMatch(content, block(["a"], ["b"])),
+      /appears multiple times, at lines 2, 4/
+    );
+    assert.strictEqual(
+      findBlockMatch(content, block(["a"], ["b"], 4)).startLine,
+      4
+    );
+  });
+
+  test("rejects similar lines with one completely different line", () => {
+    const lines = Array.from(
+      { length: 12 },
+      (_, index) => `const value${index} = compute(${index});`
+    );
+    const search = [...lines];
+    search[5] = "// something else entirely";
+
+    assert.throws(
+      () => findBlockMatch(lines.join("\n"), block(search, ["x"])),
+      /Search text not found/
+    );
+  });
+
+  test("matches nearly the same lines approximately", () => {
+    const content = [
+      "function total(items) {",
+      "  return items.reduce((sum, item) => sum + item.price, 0);",
+      "}",
+    ];
+    const search = [
+      "function total(items) {",
+      "  return items.reduce((sum, item) => sum + item.prices, 0);",
+      "}",
+    ];
+
+    const match = findBlockMatch(content.join("\n"), block(search, ["x"]));
+    assert.strictEqual(match.kind, "fuzzy");
+    assert.strictEqual(match.startLine, 1);
+    assert.strictEqual(match.endLine, 3);
+  });
+
+  test("shows the closest region when nothing matches", () => {
+    assert.throws(
+      () =>
+        findBlockMatch(
+          ["one", "function total(items) {", "  return items.length;"].join(
+            "\n"
+          ),
+          block(["function total(items) {", "  return 0;"], ["x"])
+        ),
+      /closest region is 50% similar.*at lines 2-3:\n2 \| function total/
+    );
+  });
+
+  test("bounds the fuzzy search in large files", () => {
+    const lines = Array.from(
+      { length: 5000 },
+      (_, index) =>
+        `  const value${index} = compute(${index}, "${"x".repeat(40)}");`
+    );
+    const search = Array.from(
+      { length: 30 },
+      (_, index) =>
+        `  const other${index} = compute(${index}, "${"y".repeat(40)}");`
+    );
+
+    const started = Date.now();
+    assert.throws(() => findBlockMatch(lines.join("\n"), block(search, ["x"])));
+    assert.ok(Date.now() - started < 2000);
+  });
+});
+
+suite("applySearchReplaceBlocks", () => {
+  test("re-indents each replacement line from its file line", () => {
+    const content = [
+      "class A {",
+      "    method() {",
+      "        if (ready) {",
+      "            run();",
+      "        }",
+      "    }",
+      "}",
+    ];
+    // The search text gets the nesting of the if statement wrong
+    const search = ["  method() {", "    if (ready) {", "    run();", "    }"];
+    const replace = [
+      "  method() {",
+      "    if (ready) {",
+      "    run();",
+      "    log();",
+      "    }",
+      "    done();",
+    ];
+
+    assert.strictEqual(
+      apply(content, search, replace),
+      [
+        "class A {",
+        "    method() {",
+        "        if (ready) {",
+        "            run();",
+        "            log();",
+        "        }",
+        "        done();",
+        "    }",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("keeps the relative indentation of re-nested lines", () => {
+    const content = ["\tif (a) {", "\t\tcall();", "\t}"];
+    const search = ["if (a) {", "  call();", "}"];
+    const replace = ["if (a) {", "  try {", "    call();", "  } catch {}", "}"];
+
+    assert.strictEqual(
+      apply(content, search, replace),
+      [
+        "\tif (a) {",
+        "\t\ttry {",
+        "\t\t  call();",
+        "\t\t} catch {}",
+        "\t}",
+      ].join("\n")
+    );
+  });
+
+  test("applies all blocks against the original content", () => {
+    const result = applySearchReplaceBlocks("a\nb\nc\nd", [
+      block(["d"], ["D"]),
+      block(["a"], ["A", "A2"]),
+    ]);
+
+    assert.strictEqual(result.content, "A\nA2\nb\nc\nD");
+    assert.deepStrictEqual(
+      result.matches.map((match) => match.startLine),
+      [4, 1]
+    );
+  });
+
+  test("removes the line breaks of deleted lines", () => {
+    assert.strictEqual(apply(["a", "\tb", "c"], ["  b"], []), "a\nc");
+  });
+
+  test("rejects overlapping blocks", () => {
+    assert.throws(
+      () =>
+        applySearchReplaceBlocks("a\nb\nc", [
+          block(["a", "b"], ["x"]),
+          block(["b", "c"], ["y"]),
+        ]),
+      /Block 2: Overlaps block 1/
+    );
+  });
+
+  test("names the block that does not match", () => {
+    assert.throws(
+      () =>
+        applySearchReplaceBlocks("a\nb", [
+          block(["a"], ["x"]),
+          block(["missing line"], ["y"]),
+        ]),
+      /^Error: Block 2: Search text not found/
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import {
+  CharRatioTokenizer,
+  TokenCounter,
+  createTokenizer,
+  sumPromptTokens,
+} from "../core/tokenCounter";
+import type { HistoryItem, NativeToolDefinition } from "../core/apiHandler";
+import type { ToolUse } from "code-sidecar-shared/types/tools";
+
+const apiConfiguration = (model: string) => ({
+  baseUrl: "https://api.example.com",
+  model,
+  apiKey: "",
+});
+
+suite("createTokenizer", () => {
+  test("picks the encoding of OpenAI models", () => {
+    assert.strictEqual(
+      createTokenizer(apiConfiguration("gpt-4o-mini"), 4).name,
+      "o200k_base"
+    );
+    assert.strictEqual(
+      createTokenizer(apiConfiguration("openai/gpt-4-turbo"), 4).name,
+      "cl100k_base"
+    );
+  });
+
+  test("falls back to a character ratio for other models", () => {
+    const tokenizer = createTokenizer(apiConfiguration("claude-sonnet-4"), 4);
+
+    assert.strictEqual(tokenizer.name, "char-ratio");
+    assert.strictEqual(tokenizer.countTokens("123456789"), 3);
+  });
+
+  test("counts special-token text as plain text", () => {
+    const tokenizer = createTokenizer(apiConfiguration("gpt-4o"), 4);
+
+    assert.ok(tokenizer.countTokens("<|endoftext|>") > 1);
+    assert.strictEqual(tokenizer.countTokens(""), 0);
+  });
+});
+
+suite("TokenCounter", () => {
+  const toolCall: ToolUse = {
+    type: "tool_use",
+    name: "read_file",
+    params: { path: "a.ts" },
+  };
+  const history: HistoryItem[] = [
+    { role: "user", content: "12345678" },
+    { role: "assistant", content: "1234", toolCalls: [toolCall] },
+    {
+      role: "tool_result",
+      content: {
+        type: "tool_result",
+        tool_name: "read_file",
+        content: "1234",
+        is_error: false,
+      },
+    },
+  ];
+
+  test("splits the prompt into system, message and tool result tokens", () => {
+    const counter = new TokenCounter(new CharRatioTokenizer(4));
+    const breakdown = counter.countPrompt("12345678", history);
+
+    // Each message adds 4 tokens of chat formatting
+    assert.strictEqual(breakdown.systemTokens, 2 + 4);
+    assert.strictEqual(breakdown.messageTokens, 2 + 4 + (1 + 4));
+    assert.strictEqual(
+      breakdown.toolResultTokens,
+      Math.ceil("[TOOL RESULT: read_file]\n1234".length / 4) + 4
+    );
+    assert.strictEqual(
+      sumPromptTokens(breakdown),
+      breakdown.systemTokens +
+        breakdown.messageTokens +
+        breakdown.toolResultTokens
+    );
+  });
+
+  test("counts native tool calls and definitions", () => {
+    const xml = new TokenCounter(new CharRatioTokenizer(1), "xml");
+    const native = new TokenCounter(new CharRatioTokenizer(1), "native");
+    const tools: NativeToolDefinition[] = [
+      { type: "function", function: { name: "read_file", parameters: {} } },
+    ];
+
+    const xmlBreakdown = xml.countPrompt("", history, tools);
+    const nativeBreakdown = native.countPrompt("", history, tools);
+    assert.strictEqual(
+      nativeBreakdown.messageTokens - xmlBreakdown.messageTokens,
+      "read_file".length + JSON.stringify(toolCall.params).length
+    );
+    assert.strictEqual(
+      xmlBreakdown.systemTokens,
+      4 + JSON.stringify(tools).length
+    );
+  });
+});
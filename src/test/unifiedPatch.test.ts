@@ -0,0 +1,197 @@
+import * as assert from "assert";
+import { applyHunks, parseUnifiedPatch } from "../tools/unifiedPatch";
+
+const lines = (...text: string[]) => text.join("\n");
+
+suite("parseUnifiedPatch", () => {
+  test("parses the files and hunks of a plain unified diff", () => {
+    const [filePatch] = parseUnifiedPatch(
+      lines(
+        "--- a/src/index.ts",
+        "+++ b/src/index.ts",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "+c"
+      )
+    );
+
+    assert.strictEqual(filePatch.oldPath, "src/index.ts");
+    assert.strictEqual(filePatch.newPath, "src/index.ts");
+    assert.strictEqual(filePatch.hunks.length, 1);
+  });
+
+  test("recomputes wrong hunk line counts", () => {
+    const [filePatch] = parseUnifiedPatch(
+      lines(
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,7 +1,1 @@",
+        " a",
+        "-b",
+        "+c",
+        "+d",
+        "",
+        " e"
+      )
+    );
+
+    const [hunk] = filePatch.hunks;
+    assert.strictEqual(hunk.oldLines, 4);
+    assert.strictEqual(hunk.newLines, 5);
+  });
+
+  test("reads new, deleted and renamed files from git headers", () => {
+    const filePatches = parseUnifiedPatch(
+      lines(
+        "diff --git a/new.txt b/new.txt",
+        "new file mode 100644",
+        "--- /dev/null",
+        "+++ b/new.txt",
+        "@@ -0,0 +1 @@",
+        "+hello",
+        "diff --git a/old.txt b/old.txt",
+        "deleted file mode 100644",
+        "--- a/old.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-bye",
+        "diff --git a/before.txt b/after.txt",
+        "similarity index 100%",
+        "rename from before.txt",
+        "rename to after.txt"
+      )
+    );
+
+    assert.deepStrictEqual(
+      filePatches.map(({ oldPath, newPath }) => ({ oldPath, newPath })),
+      [
+        { oldPath: undefined, newPath: "new.txt" },
+        { oldPath: "old.txt", newPath: undefined },
+        { oldPath: "before.txt", newPath: "after.txt" },
+      ]
+    );
+  });
+
+  test("strips a code fence around the patch", () => {
+    const [filePatch] = parseUnifiedPatch(
+      lines(
+        "```diff",
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1 +1 @@",
+        "-a",
+        "+b",
+        "```"
+      )
+    );
+
+    assert.strictEqual(filePatch.newPath, "file.txt");
+  });
+
+  test("rejects binary patches and patches without changes", () => {
+    assert.throws(
+      () =>
+        parseUnifiedPatch(
+          lines(
+            "diff --git a/image.png b/image.png",
+            "Binary files a/image.png and b/image.png differ"
+          )
+        ),
+      /Binary patches are not supported: image.png/
+    );
+    assert.throws(
+      () => parseUnifiedPatch("just some text"),
+      /Invalid patch: it changes no file/
+    );
+  });
+});
+
+suite("applyHunks", () => {
+  const apply = (content: string, patch: string) =>
+    applyHunks(content, parseUnifiedPatch(patch)[0].hunks);
+
+  test("applies hunks whose line numbers are off", () => {
+    const { content, results } = apply(
+      lines("x", "x", "a", "b", "c", ""),
+      lines(
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,3 +1,3 @@",
+        " a",
+        "-b",
+        "+B",
+        " c"
+      )
+    );
+
+    assert.strictEqual(content, lines("x", "x", "a", "B", "c", ""));
+    assert.deepStrictEqual(
+      results.map((result) => result.status),
+      ["applied"]
+    );
+  });
+
+  test("applies a hunk with a differing context line as fuzzy", () => {
+    const { content, results } = apply(
+      lines("one", "two", "three", "four", "five", ""),
+      lines(
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,5 +1,5 @@",
+        " ONE",
+        " two",
+        "-three",
+        "+3",
+        " four",
+        " five"
+      )
+    );
+
+    assert.strictEqual(content, lines("one", "two", "3", "four", "five", ""));
+    assert.strictEqual(results[0].status, "fuzzy");
+  });
+
+  test("leaves out failed hunks and applies the others", () => {
+    const { content, results } = apply(
+      lines("a", "b", "c", "d", "e", "f", "g", "h", ""),
+      lines(
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,2 +1,2 @@",
+        "-a",
+        "+A",
+        " b",
+        "@@ -7,2 +7,2 @@",
+        " g",
+        "-missing",
+        "+H"
+      )
+    );
+
+    assert.strictEqual(
+      content,
+      lines("A", "b", "c", "d", "e", "f", "g", "h", "")
+    );
+    assert.deepStrictEqual(
+      results.map((result) => result.status),
+      ["applied", "failed"]
+    );
+  });
+
+  test("keeps the byte order mark and ignores trailing whitespace", () => {
+    const { content } = apply(
+      `\uFEFF${lines("a  ", "b", "")}`,
+      lines(
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "+c"
+      )
+    );
+
+    assert.strictEqual(content, `\uFEFF${lines("a  ", "c", "")}`);
+  });
+});
@@ -0,0 +1,150 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  resolveWorkspacePath,
+  type WorkspaceRoot,
+} from "../tools/workspacePaths";
+import type { PathSandboxSettings } from "code-sidecar-shared/types/config";
+
+suite("resolveWorkspacePath", () => {
+  const settings: PathSandboxSettings = {
+    additionalRoots: [],
+    deniedPaths: [".env", "**/secrets/**"],
+  };
+
+  let tempDir: string;
+  let repo: string;
+  let roots: WorkspaceRoot[];
+
+  const resolve = (
+    filePath: string,
+    overrides: Partial<PathSandboxSettings> = {}
+  ) => resolveWorkspacePath(filePath, roots, { ...settings, ...overrides });
+
+  const assertDenied = (
+    filePath: string,
+    overrides: Partial<PathSandboxSettings> = {}
+  ) => assert.throws(() => resolve(filePath, overrides), /Access denied/);
+
+  setup(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "workspace-paths-"))
+    );
+    repo = path.join(tempDir, "repo");
+    fs.mkdirSync(path.join(repo, "src"), { recursive: true });
+    fs.mkdirSync(path.join(tempDir, "repo-evil"));
+    fs.mkdirSync(path.join(tempDir, "outside"));
+    fs.writeFileSync(path.join(repo, "src", "index.ts"), "");
+    fs.writeFileSync(path.join(tempDir, "outside", "passwd"), "");
+    roots = [{ name: "repo", path: repo }];
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("resolves relative paths against the workspace folder", () => {
+    assert.strictEqual(
+      resolve("src/index.ts"),
+      path.join(repo, "src", "index.ts")
+    );
+    assert.strictEqual(resolve("."), repo);
+    assert.strictEqual(resolve("src/new.ts"), path.join(repo, "src", "new.ts"));
+  });
+
+  test("rejects parent directory traversal", () => {
+    assertDenied("../outside/passwd");
+    assertDenied("src/../../outside/passwd");
+    assertDenied(path.join(repo, "..", "outside", "passwd"));
+  });
+
+  test("rejects sibling folders sharing the root as a prefix", () => {
+    assertDenied(path.join(tempDir, "repo-evil"));
+    assertDenied(path.join(tempDir, "repo-evil", "file.ts"));
+    assertDenied("../repo-evil/file.ts");
+  });
+
+  test("rejects symbolic links that lead outside the workspace", () => {
+    fs.symlinkSync(path.join(tempDir, "outside"), path.join(repo, "linked"));
+    fs.symlinkSync(
+      path.join(tempDir, "outside", "passwd"),
+      path.join(repo, "passwd")
+    );
+
+    assertDenied("linked");
+    assertDenied("linked/passwd");
+    assertDenied("linked/new-file.txt");
+    assertDenied("passwd");
+  });
+
+  test("rejects dangling symbolic links that point outside the workspace", () => {
+    fs.symlinkSync(
+      path.join(tempDir, "outside", "missing.txt"),
+      path.join(repo, "dangling")
+    );
+
+    assertDenied("dangling");
+  });
+
+  test("accepts symbolic links that stay inside the workspace", () => {
+    fs.symlinkSync(path.join(repo, "src"), path.join(repo, "source"));
+
+    assert.strictEqual(
+      resolve("source/index.ts"),
+      path.join(repo, "source", "index.ts")
+    );
+  });
+
+  test("accepts paths in additional roots", () => {
+    const outsideFile = path.join(tempDir, "outside", "passwd");
+    const additionalRoots = [path.join(tempDir, "outside")];
+
+    assertDenied(outsideFile);
+    assert.strictEqual(resolve(outsideFile, { additionalRoots }), outsideFile);
+    assertDenied(path.join(tempDir, "repo-evil"), { additionalRoots });
+  });
+
+  test("rejects paths matching denied patterns", () => {
+    fs.writeFileSync(path.join(repo, ".env"), "TOKEN=1");
+    fs.mkdirSync(path.join(repo, "config", "secrets"), { recursive: true });
+
+    assertDenied(".env");
+    assertDenied("src/.env");
+    assertDenied("config/secrets/key.pem");
+    assertDenied(path.join(repo, "config", "secrets", "key.pem"));
+    assert.strictEqual(
+      resolve(".env.example"),
+      path.join(repo, ".env.example")
+    );
+  });
+
+  test("rejects symbolic links to denied paths", () => {
+    fs.writeFileSync(path.join(repo, ".env"), "TOKEN=1");
+    fs.symlinkSync(path.join(repo, ".env"), path.join(repo, "settings.txt"));
+
+    assertDenied("settings.txt");
+  });
+
+  test("addresses folders by name in multi-root workspaces", () => {
+    const api = path.join(tempDir, "api");
+    fs.mkdirSync(api);
+    roots = [...roots, { name: "api", path: api }];
+
+    assert.strictEqual(
+      resolve("api/src/server.ts"),
+      path.join(api, "src", "server.ts")
+    );
+    assert.strictEqual(
+      resolve("src/index.ts"),
+      path.join(repo, "src", "index.ts")
+    );
+    assertDenied("api/../outside/passwd");
+  });
+
+  test("requires an open workspace folder", () => {
+    roots = [];
+    assert.throws(() => resolve("src/index.ts"), /No workspace folder is open/);
+  });
+});
@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import {
+  RANGE_PARAMETERS,
+  getCodeActions,
+  isCommand,
+  isValidRange,
+  resolveSourceRange,
+} from "./codeActions";
+import {
+  authorizeFileChanges,
+  computeFileEdits,
+  describeFileEdits,
+  runCommandRecordingChanges,
+  writeFileEdits,
+} from "./workspaceEdits";
+import { toWorkspacePath } from "./workspacePaths";
+import type { ToolFileSystem } from "./toolFileSystem";
+
+/** Actions whose edits are resolved when looking for the one to apply */
+const MAX_RESOLVED_ACTIONS = 100;
+
+/**
+ * ApplyCodeActionTool - applies a code action or quick fix listed by
+ * get_code_actions
+ *
+ * The action is looked up again by its title, as the list changes when the
+ * file does. Permission is asked once the files the action changes are
+ * known.
+ */
+export class ApplyCodeActionTool extends BaseTool {
+  readonly name = "apply_code_action";
+  readonly description =
+    "Apply a quick fix or refactoring listed by get_code_actions, given the same file and lines and the title of the action. Returns the files it changed.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "mutating";
+  readonly permissionOperation = "write";
+
+  readonly parameters: ParameterDefinition[] = [
+    ...RANGE_PARAMETERS,
+    {
+      name: "title",
+      type: "string",
+      required: true,
+      description: "The title of the action, as listed by get_code_actions",
+    },
+  ];
+
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
+  validate(params: Record<string, any>): boolean {
+    return (
+      isValidRange(params) &&
+      typeof params.title === "string" &&
+      params.title.trim() !== ""
+    );
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const title = (params.title as string).trim();
+    const { uri, range } = await resolveSourceRange(params);
+    const actions = await getCodeActions(uri, range, MAX_RESOLVED_ACTIONS);
+
+    const action =
+      actions.find((candidate) => candidate.title === title) ??
+      actions.find(
+        (candidate) => candidate.title.toLowerCase() === title.toLowerCase()
+      );
+    if (!action) {
+      const available = actions.map((candidate) => candidate.title);
+      throw new Error(
+        `No code action titled "${title}" for these lines. Available: ${
+          available.length > 0 ? available.join("; ") : "none"
+        }`
+      );
+    }
+    if (!isCommand(action) && action.disabled) {
+      throw new Error(
+        `Code action "${title}" is disabled: ${action.disabled.reason}`
+      );
+    }
+
+    const edit = isCommand(action) ? undefined : action.edit;
+    const command = isCommand(action) ? action : action.command;
+    const fileEdits = edit ? await computeFileEdits(edit, this.fileSystem) : [];
+    if (fileEdits.length === 0 && !command) {
+      return `Code action "${title}" has no changes to apply`;
+    }
+
+    // A command may change the file of the range, or more
+    const filePaths = fileEdits.map((fileEdit) => fileEdit.uri.fsPath);
+    if (command) {
+      filePaths.push(uri.fsPath);
+    }
+    const details = [
+      `Apply code action: ${title}`,
+      describeFileEdits(fileEdits),
+      command ? `Runs command: ${command.command}` : "",
+    ]
+      .filter((part) => part !== "")
+      .join("\n\n");
+    await authorizeFileChanges(
+      [...new Set(filePaths)],
+      details,
+      this.name,
+      context
+    );
+
+    await writeFileEdits(fileEdits, this.name, this.fileSystem, context);
+    const commandPaths = command
+      ? await runCommandRecordingChanges(command, this.name, context)
+      : [];
+
+    const changed = [
+      ...new Set([
+        ...fileEdits.map((fileEdit) => fileEdit.uri.fsPath),
+        ...commandPaths,
+      ]),
+    ];
+    return changed.length > 0
+      ? `Applied code action "${title}". Changed files:\n${changed
+          .map((filePath) => toWorkspacePath(filePath))
+          .join("\n")}`
+      : `Applied code action "${title}". No files changed.`;
+  }
+}
@@ -1,21 +1,31 @@
 import * as vscode from "vscode";
-import * as path from "path";
-import { BaseTool, ParameterDefinition } from "./Tool";
+import { BaseTool, ParameterDefinition, parseNumberParam } from "./Tool";
+import { resolveWorkspacePath } from "./workspacePaths";
+import {
+  FUZZY_MATCH_THRESHOLD,
+  applySearchReplaceBlocks,
+  parseSearchReplaceBlocks,
+  type SearchReplaceBlock,
+} from "./searchReplace";
+import type { ToolFileSystem } from "./toolFileSystem";
 
 /**
  * ApplyDiffTool - applies precise code edits using diff format
  * Requirements: 13.3
  *
- * This tool applies code changes using a diff-like format. It searches for
- * the exact "search" text in the file and replaces it with "replace" text.
- * This allows for precise, context-aware code editing.
+ * This tool applies code changes as SEARCH/REPLACE blocks, or as a single
+ * "search" and "replace" pair. All blocks of a call are applied together or
+ * not at all. Search texts that differ from the file only in whitespace or
+ * indentation, or are nearly the same, still match.
  * This tool requires user permission before execution.
  */
 export class ApplyDiffTool extends BaseTool {
   readonly name = "apply_diff";
   readonly description =
-    "Apply precise code edits to a file by searching for exact text and replacing it. Use this for targeted code modifications.";
+    "Apply precise code edits to a file by searching for text and replacing it. Use this for targeted code modifications. Several edits to one file can be made in one call with SEARCH/REPLACE blocks in `diff`; they are applied together or not at all. Search texts that differ from the file only in whitespace or indentation still match.";
   readonly requiresPermission = true; // Modifying files requires permission
+  readonly sideEffect = "mutating";
+  readonly permissionOperation = "write";
 
   readonly parameters: ParameterDefinition[] = [
     {
@@ -24,50 +34,75 @@ export class ApplyDiffTool extends BaseTool {
       required: true,
       description: "The relative or absolute path to the file to edit",
     },
+    {
+      name: "diff",
+      type: "string",
+      required: false,
+      description:
+        "One or more SEARCH/REPLACE blocks, each in the form:\n" +
+        "<<<<<<< SEARCH\n:start_line:12\n-------\n[text to find]\n=======\n[text to replace it with]\n>>>>>>> REPLACE\n" +
+        "The `:start_line:` and `-------` lines are optional; start_line is the 1-based line where the text starts and picks the match when the text appears more than once. All start lines refer to the file before the call. Write lines of the texts that look like these markers with a leading backslash, e.g. `\\=======`. Use instead of search and replace.",
+    },
     {
       name: "search",
       type: "string",
-      required: true,
+      required: false,
       description:
-        "The exact text to search for in the file. Must match exactly including whitespace.",
+        "The text to search for in the file, for a single edit without diff. Include enough lines to make it unique.",
     },
     {
       name: "replace",
       type: "string",
-      required: true,
+      required: false,
       description: "The text to replace the search text with",
     },
+    {
+      name: "start_line",
+      type: "number",
+      required: false,
+      description:
+        "1-based line where the search text starts, to pick the match when it appears more than once",
+    },
   ];
 
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
   /**
-   * Validate and normalize file path to prevent path traversal attacks
-   * Requirements: 13.4
+   * Require either a diff or a search and replace pair. Numbers may be
+   * written as strings.
    */
-  private validatePath(filePath: string): string {
-    // Get workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error("No workspace folder is open");
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(workspaceRoot, filePath);
-
-    // Normalize the path to resolve .. and .
-    const normalizedPath = path.normalize(resolvedPath);
+  validate(params: Record<string, any>): boolean {
+    const startLine = parseNumberParam(params.start_line);
+    const hasDiff =
+      typeof params.diff === "string" && params.diff.trim() !== "";
+    const hasPair =
+      typeof params.search === "string" && typeof params.replace === "string";
+    return (
+      typeof params.path === "string" &&
+      (hasDiff || hasPair) &&
+      (startLine === undefined ||
+        (Number.isInteger(startLine) && startLine > 0))
+    );
+  }
 
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(
-        `Access denied: Path '${filePath}' is outside the workspace`
-      );
+  /**
+   * Blocks of the call, from `diff` or from the search and replace pair
+   */
+  private getBlocks(params: Record<string, any>): SearchReplaceBlock[] {
+    if (typeof params.diff === "string" && params.diff.trim() !== "") {
+      return parseSearchReplaceBlocks(params.diff);
     }
-
-    return normalizedPath;
+    return [
+      {
+        search: params.search as string,
+        replace: params.replace as string,
+        startLine: parseNumberParam(params.start_line),
+      },
+    ];
   }
 
   /**
@@ -76,65 +111,24 @@ export class ApplyDiffTool extends BaseTool {
    */
   async execute(params: Record<string, any>): Promise<string> {
     const filePath = params.path as string;
-    const searchText = params.search as string;
-    const replaceText = params.replace as string;
+    const blocks = this.getBlocks(params);
 
+    let uri: vscode.Uri;
+    let content: string;
     try {
       // Validate and normalize the path
-      const validatedPath = this.validatePath(filePath);
+      const validatedPath = resolveWorkspacePath(filePath);
 
       // Read the file
-      const uri = vscode.Uri.file(validatedPath);
-      const fileContent = await vscode.workspace.fs.readFile(uri);
-      const content = Buffer.from(fileContent).toString("utf-8");
-
-      // Check if search text exists in the file
-      const searchIndex = content.indexOf(searchText);
-      if (searchIndex === -1) {
-        throw new Error(
-          `Search text not found in file ${filePath}.\n` +
-            `Make sure the search text matches exactly, including whitespace and line endings.`
-        );
-      }
-
-      // Check if search text appears multiple times
-      const secondOccurrence = content.indexOf(searchText, searchIndex + 1);
-      if (secondOccurrence !== -1) {
-        throw new Error(
-          `Search text appears multiple times in file ${filePath}.\n` +
-            `Please provide more context in the search text to make it unique.`
-        );
-      }
-
-      // Apply the replacement
-      const newContent = content.replace(searchText, replaceText);
-
-      // Write the modified content back
-      const newContentBuffer = Buffer.from(newContent, "utf-8");
-      await vscode.workspace.fs.writeFile(uri, newContentBuffer);
-
-      // Calculate statistics for feedback
-      const linesRemoved = searchText.split("\n").length;
-      const linesAdded = replaceText.split("\n").length;
-      const linesDiff = linesAdded - linesRemoved;
-      const diffSign = linesDiff > 0 ? "+" : "";
-
-      return (
-        `Successfully applied diff to file: ${filePath}\n` +
-        `Lines changed: ${linesRemoved} removed, ${linesAdded} added (${diffSign}${linesDiff} net)`
-      );
+      uri = vscode.Uri.file(validatedPath);
+      const fileContent = await this.fileSystem.readFile(uri);
+      content = Buffer.from(fileContent).toString("utf-8");
     } catch (error) {
       if (error instanceof Error) {
         // Check for specific error types
         if (error.message.includes("Access denied")) {
           throw error; // Re-throw security errors
         }
-        if (
-          error.message.includes("Search text not found") ||
-          error.message.includes("appears multiple times")
-        ) {
-          throw error; // Re-throw search-specific errors
-        }
         if (
           error.message.includes("ENOENT") ||
           error.message.includes("FileNotFound")
@@ -155,5 +149,62 @@ export class ApplyDiffTool extends BaseTool {
         }`
       );
     }
+
+    // Match every block before writing, so a failed block changes nothing
+    let result: ReturnType<typeof applySearchReplaceBlocks>;
+    try {
+      result = applySearchReplaceBlocks(content, blocks);
+    } catch (error) {
+      const [firstLine, ...rest] = (
+        error instanceof Error ? error.message : String(error)
+      ).split("\n");
+      throw new Error(
+        [
+          `Failed to apply diff to ${filePath}, no changes were made: ${firstLine}`,
+          ...rest,
+        ].join("\n")
+      );
+    }
+
+    // Write the modified content back
+    await this.fileSystem.writeFile(uri, Buffer.from(result.content, "utf-8"));
+
+    // Calculate statistics for feedback
+    let linesRemoved = 0;
+    let linesAdded = 0;
+    for (const block of blocks) {
+      linesRemoved += block.search.split("\n").length;
+      linesAdded += block.replace.split("\n").length;
+    }
+    const linesDiff = linesAdded - linesRemoved;
+    const diffSign = linesDiff > 0 ? "+" : "";
+
+    const edits = blocks.length === 1 ? "diff" : `${blocks.length} edits`;
+    const lines = [
+      `Successfully applied ${edits} to file: ${filePath}`,
+      `Lines changed: ${linesRemoved} removed, ${linesAdded} added (${diffSign}${linesDiff} net)`,
+    ];
+
+    // Inexact matches are reported, so the model can check what changed
+    result.matches.forEach((match, index) => {
+      const block =
+        blocks.length > 1 ? `Block ${index + 1}` : "The search text";
+      const range = `lines ${match.startLine}-${match.endLine}`;
+      if (match.kind === "whitespace") {
+        lines.push(
+          `${block} matched ${range} apart from whitespace and indentation.`
+        );
+      } else if (match.kind === "fuzzy") {
+        lines.push(
+          `${block} matched ${range} approximately (${Math.round(
+            match.similarity * 100
+          )}% similar, threshold ${Math.round(
+            FUZZY_MATCH_THRESHOLD * 100
+          )}%). Check the result with read_file.`
+        );
+      }
+    });
+
+    return lines.join("\n");
   }
 }
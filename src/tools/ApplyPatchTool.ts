@@ -0,0 +1,244 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import { resolveWorkspacePath, toWorkspacePath } from "./workspacePaths";
+import { authorizeFileChanges } from "./workspaceEdits";
+import { applyHunks, parseUnifiedPatch, type HunkResult } from "./unifiedPatch";
+import type { ToolFileSystem } from "./toolFileSystem";
+
+const HUNK_STATUS: Record<HunkResult["status"], string> = {
+  applied: "applied",
+  fuzzy: "applied with some context lines differing",
+  failed: "failed, its context or removed lines were not found",
+};
+
+/**
+ * ApplyPatchTool - applies a unified diff to one or more files
+ *
+ * The patch may change, create, delete and rename files. Every hunk is
+ * tried before anything is written, and the files are only changed when
+ * all hunks apply. When a write fails, the files written before it are
+ * restored. Permission is asked once the changed files are known, so the
+ * tool does not require permission up front.
+ */
+export class ApplyPatchTool extends BaseTool {
+  readonly name = "apply_patch";
+  readonly description =
+    "Apply a unified diff, like the output of `git diff`, to one or more files. It can change, create, delete and rename files. Hunks are found even when their line numbers are off, and may match with a few context lines differing. All files are changed together or not at all, and the result lists each hunk. Use it for changes that span several files or places in a file.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "mutating";
+  readonly permissionOperation = "write";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "patch",
+      type: "string",
+      required: true,
+      description:
+        "The unified diff. Each file starts with `--- a/path` and `+++ b/path` lines, using `/dev/null` for the missing side of new and deleted files, or with a `diff --git` header, which can also rename files. Hunks start with `@@ -start,count +start,count @@` and should have 3 lines of context. Paths are relative to the workspace.",
+    },
+  ];
+
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
+  validate(params: Record<string, any>): boolean {
+    return typeof params.patch === "string" && params.patch.trim() !== "";
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const patch = params.patch as string;
+    const filePatches = parseUnifiedPatch(patch);
+
+    // Content of each file before the patch and as the patch goes on;
+    // undefined when the file does not exist
+    const originals = new Map<string, string | undefined>();
+    const contents = new Map<string, string | undefined>();
+    const read = async (filePath: string): Promise<string | undefined> => {
+      if (!contents.has(filePath)) {
+        const content = await this.readFileIfExists(filePath);
+        originals.set(filePath, content);
+        contents.set(filePath, content);
+      }
+      return contents.get(filePath);
+    };
+
+    const report: string[] = [];
+    let failedFiles = 0;
+    let failedHunks = 0;
+    let totalHunks = 0;
+
+    for (const filePatch of filePatches) {
+      const oldPath = filePatch.oldPath
+        ? resolveWorkspacePath(filePatch.oldPath)
+        : undefined;
+      const newPath = filePatch.newPath
+        ? resolveWorkspacePath(filePatch.newPath)
+        : undefined;
+      const label = (filePatch.oldPath ?? filePatch.newPath) as string;
+
+      const before = oldPath ? await read(oldPath) : "";
+      if (before === undefined) {
+        report.push(`${label}: file not found`);
+        failedFiles++;
+        continue;
+      }
+      if (
+        newPath &&
+        newPath !== oldPath &&
+        (await read(newPath)) !== undefined
+      ) {
+        report.push(`${label}: ${filePatch.newPath} already exists`);
+        failedFiles++;
+        continue;
+      }
+
+      const { content, results } = applyHunks(before, filePatch.hunks);
+      const failed = results.filter((result) => result.status === "failed");
+      totalHunks += results.length;
+      failedHunks += failed.length;
+
+      let change = "modified";
+      if (!oldPath) {
+        change = "created";
+      } else if (!newPath) {
+        change = "deleted";
+      } else if (newPath !== oldPath) {
+        change = `renamed to ${filePatch.newPath}`;
+      }
+      if (!newPath && failed.length === 0 && content.trim() !== "") {
+        change = "not deleted, it has lines the patch does not remove";
+        failedFiles++;
+      }
+      report.push(
+        `${label}: ${change}`,
+        ...results.map(
+          (result, index) =>
+            `  hunk ${index + 1} ${result.header}: ${HUNK_STATUS[result.status]}`
+        )
+      );
+
+      if (failed.length === 0) {
+        if (oldPath && oldPath !== newPath) {
+          contents.set(oldPath, undefined);
+        }
+        if (newPath) {
+          contents.set(newPath, content);
+        }
+      }
+    }
+
+    if (failedFiles > 0 || failedHunks > 0) {
+      const problems: string[] = [];
+      if (failedHunks > 0) {
+        problems.push(`${failedHunks} of ${totalHunks} hunks did not apply`);
+      }
+      if (failedFiles > 0) {
+        problems.push(
+          `${failedFiles} ${failedFiles === 1 ? "file" : "files"} could not be patched`
+        );
+      }
+      throw new Error(
+        [
+          `Failed to apply patch, no changes were made: ${problems.join(", ")}`,
+          ...report,
+          "Read the files again and retry with the failed parts fixed.",
+        ].join("\n")
+      );
+    }
+
+    const changes = [...contents].filter(
+      ([filePath, after]) => after !== originals.get(filePath)
+    );
+    if (changes.length === 0) {
+      return `The patch made no changes\n${report.join("\n")}`;
+    }
+
+    await authorizeFileChanges(
+      changes.map(([filePath]) => filePath),
+      `${report.join("\n")}\n\n${patch}`,
+      this.name,
+      context
+    );
+
+    const written: string[] = [];
+    try {
+      for (const [filePath, after] of changes) {
+        await this.writeContent(filePath, after);
+        written.push(filePath);
+      }
+    } catch (error) {
+      // Put back the files changed so far, so the patch changes nothing
+      const notRestored: string[] = [];
+      for (const filePath of written.reverse()) {
+        try {
+          await this.writeContent(filePath, originals.get(filePath));
+        } catch {
+          notRestored.push(toWorkspacePath(filePath));
+        }
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        notRestored.length > 0
+          ? `Failed to apply patch: ${message}. These files could not be restored: ${notRestored.join(", ")}`
+          : `Failed to apply patch, no changes were made: ${message}`
+      );
+    }
+
+    for (const [filePath, after] of changes) {
+      context?.recordFileChange?.({
+        path: filePath,
+        before: originals.get(filePath) ?? "",
+        after: after ?? "",
+        toolName: this.name,
+      });
+    }
+
+    const files = changes.length === 1 ? "file" : "files";
+    return `Applied patch to ${changes.length} ${files}\n${report.join("\n")}`;
+  }
+
+  /**
+   * Write a file, or delete it when the content is undefined
+   */
+  private async writeContent(
+    filePath: string,
+    content: string | undefined
+  ): Promise<void> {
+    const uri = vscode.Uri.file(filePath);
+    if (content === undefined) {
+      await this.fileSystem.delete(uri);
+      return;
+    }
+    await this.fileSystem.createDirectory(
+      vscode.Uri.file(path.dirname(filePath))
+    );
+    await this.fileSystem.writeFile(uri, Buffer.from(content, "utf-8"));
+  }
+
+  /**
+   * Content of a file, or undefined if it does not exist
+   */
+  private async readFileIfExists(
+    filePath: string
+  ): Promise<string | undefined> {
+    try {
+      const content = await this.fileSystem.readFile(vscode.Uri.file(filePath));
+      return Buffer.from(content).toString("utf-8");
+    } catch (error) {
+      if (
+        error instanceof vscode.FileSystemError &&
+        error.code === "FileNotFound"
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -11,6 +11,7 @@ export class AttemptCompletionTool extends BaseTool {
   readonly name = 'attempt_completion';
   readonly description = 'Use this tool when you have completed the task and want to present the final result to the user. This will end the current task execution.';
   readonly requiresPermission = false;
+  readonly sideEffect = 'mutating'; // Ends the task, so it never runs alongside other calls
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -1,21 +1,80 @@
-import * as vscode from "vscode";
-import * as path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { BaseTool, ParameterDefinition } from "./Tool";
+import { spawn } from "child_process";
+import {
+  BaseTool,
+  ParameterDefinition,
+  ToolExecutionContext,
+  parseNumberParam,
+} from "./Tool";
+import { resolveWorkspacePath } from "./workspacePaths";
+import { killProcessTree } from "../managers/ProcessManager";
+import type { CommandPolicy } from "../managers/CommandPolicy";
+
+/** Timeout used when the call does not set one */
+const DEFAULT_TIMEOUT_SECONDS = 300;
+/** Characters kept from each of stdout and stderr when the call does not set a cap */
+const DEFAULT_MAX_OUTPUT_CHARS = 50000;
+/** Interval at which live output is forwarded */
+const OUTPUT_FLUSH_INTERVAL_MS = 100;
+
+type CommandResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  /** Why the process was stopped before it exited by itself */
+  stopReason?: "timeout" | "cancelled";
+};
+
+/**
+ * Output of one stream, keeping the beginning and the end once it grows
+ * over the cap
+ */
+class CappedOutput {
+  private head = "";
+  private tail = "";
+  private omitted = 0;
+
+  constructor(private readonly maxChars: number) {}
+
+  append(chunk: string): void {
+    const headLimit = Math.floor(this.maxChars / 4);
+    if (this.head.length < headLimit) {
+      const taken = chunk.slice(0, headLimit - this.head.length);
+      this.head += taken;
+      chunk = chunk.slice(taken.length);
+    }
+
+    this.tail += chunk;
+    const tailLimit = this.maxChars - headLimit;
+    if (this.tail.length > tailLimit) {
+      this.omitted += this.tail.length - tailLimit;
+      this.tail = this.tail.slice(-tailLimit);
+    }
+  }
+
+  toString(): string {
+    const output = this.omitted
+      ? `${this.head}\n[... ${this.omitted} characters omitted ...]\n${this.tail}`
+      : this.head + this.tail;
+    return output.trim();
+  }
+}
 
 /**
- * ExecuteCommandTool - executes shell commands in the extension host
- *
- * This tool runs shell commands directly and captures output without
- * opening a VS Code terminal. This tool requires user permission before execution.
- */
-export class ExecuteCommandTool extends BaseTool {
-  readonly name = "execute_command";
-  readonly description =
-    "Execute a shell command directly in the extension host and capture output. Use this to run build commands, tests, linters, or other CLI tools.";
-  readonly requiresPermission = true;
-  private static readonly execAsync = promisify(exec);
+ * ExecuteCommandTool - executes shell commands in the extension host
+ *
+ * This tool runs shell commands directly without opening a VS Code
+ * terminal. Output is streamed while the command runs, and the command is
+ * stopped when it times out or the task is cancelled. Commands run with
+ * the environment and working directory of the command policy. This tool
+ * requires user permission before execution.
+ */
+export class ExecuteCommandTool extends BaseTool {
+  readonly name = "execute_command";
+  readonly description =
+    "Execute a shell command directly in the extension host and capture output. Use this to run build commands, tests, linters, or other CLI tools. Output is shown to the user while the command runs. Set `timeout` for long-running commands such as full test suites. Commands cannot read input, so pass non-interactive flags.";
+  readonly requiresPermission = true;
+  readonly sideEffect = "exec";
+  readonly runsCommand = true;
 
   readonly parameters: ParameterDefinition[] = [
     {
@@ -31,116 +90,191 @@ export class ExecuteCommandTool extends BaseTool {
       description:
         "The working directory for the command (relative to workspace root). Defaults to workspace root.",
     },
+    {
+      name: "timeout",
+      type: "number",
+      required: false,
+      description: `Seconds after which the command is stopped. Defaults to ${DEFAULT_TIMEOUT_SECONDS}; 0 disables the timeout.`,
+    },
+    {
+      name: "max_output_chars",
+      type: "number",
+      required: false,
+      description: `Characters kept from each of stdout and stderr; the middle of longer output is omitted. Defaults to ${DEFAULT_MAX_OUTPUT_CHARS}.`,
+    },
   ];
 
+  constructor(private readonly commandPolicy: CommandPolicy) {
+    super();
+  }
+
   /**
-   * Validate and normalize working directory path
+   * Accept numbers written as strings, as XML tool calls deliver them
    */
-  private validateCwd(cwd: string | undefined): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error("No workspace folder is open");
+  validate(params: Record<string, any>): boolean {
+    if (typeof params.command !== "string" || !params.command.trim()) {
+      return false;
+    }
+    if (params.cwd !== undefined && typeof params.cwd !== "string") {
+      return false;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    const timeout = parseNumberParam(params.timeout);
+    const maxOutputChars = parseNumberParam(params.max_output_chars);
+    return (
+      (timeout === undefined || timeout >= 0) &&
+      (maxOutputChars === undefined || maxOutputChars >= 1)
+    );
+  }
 
-    if (!cwd) {
-      return workspaceRoot;
-    }
+  /**
+   * Run the command, streaming its output until it exits or is stopped
+   */
+  private runCommand(
+    command: string,
+    cwd: string,
+    timeoutMs: number,
+    maxOutputChars: number,
+    context?: ToolExecutionContext
+  ): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+      const stdout = new CappedOutput(maxOutputChars);
+      const stderr = new CappedOutput(maxOutputChars);
+      let pendingOutput = "";
+      let stopReason: CommandResult["stopReason"];
+
+      const child = spawn(command, {
+        cwd,
+        shell: true,
+        windowsHide: true,
+        stdio: ["ignore", "pipe", "pipe"],
+        // Lead a process group so the whole tree can be stopped
+        detached: process.platform !== "win32",
+        env: this.commandPolicy.getEnvironment(),
+      });
+
+      const onOutput = context?.onOutput;
+      // Output is only buffered for a listener, which the timer flushes
+      const streamOutput = (chunk: string) => {
+        if (onOutput) {
+          pendingOutput += chunk;
+        }
+      };
+      const flushOutput = () => {
+        if (pendingOutput) {
+          onOutput?.(pendingOutput);
+          pendingOutput = "";
+        }
+      };
+      const flushTimer = onOutput
+        ? setInterval(flushOutput, OUTPUT_FLUSH_INTERVAL_MS)
+        : undefined;
+
+      const stop = (reason: NonNullable<CommandResult["stopReason"]>) => {
+        stopReason ??= reason;
+        killProcessTree(child);
+      };
+      const timeoutTimer =
+        timeoutMs > 0 ? setTimeout(() => stop("timeout"), timeoutMs) : undefined;
+      const onAbort = () => stop("cancelled");
+      context?.signal?.addEventListener("abort", onAbort);
 
-    const resolvedPath = path.isAbsolute(cwd)
-      ? cwd
-      : path.join(workspaceRoot, cwd);
+      const cleanUp = () => {
+        clearInterval(flushTimer);
+        clearTimeout(timeoutTimer);
+        context?.signal?.removeEventListener("abort", onAbort);
+        flushOutput();
+      };
 
-    const normalizedPath = path.normalize(resolvedPath);
+      child.stdout?.setEncoding("utf-8");
+      child.stderr?.setEncoding("utf-8");
+      child.stdout?.on("data", (chunk: string) => {
+        stdout.append(chunk);
+        streamOutput(chunk);
+      });
+      child.stderr?.on("data", (chunk: string) => {
+        stderr.append(chunk);
+        streamOutput(chunk);
+      });
+
+      child.on("error", (error) => {
+        cleanUp();
+        reject(error);
+      });
+      child.on("close", (code) => {
+        cleanUp();
+        resolve({
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          exitCode: code,
+          stopReason,
+        });
+      });
+
+      if (context?.signal?.aborted) {
+        onAbort();
+      }
+    });
+  }
+
+  /**
+   * Execute the command directly without opening a terminal
+   */
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const command = params.command as string;
+    const cwd = params.cwd as string | undefined;
+    const timeoutSeconds =
+      parseNumberParam(params.timeout) ?? DEFAULT_TIMEOUT_SECONDS;
+    const maxOutputChars = Math.floor(
+      parseNumberParam(params.max_output_chars) ?? DEFAULT_MAX_OUTPUT_CHARS
+    );
 
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(
-        `Access denied: Working directory '${cwd}' is outside the workspace`
+    try {
+      const validatedCwd = resolveWorkspacePath(
+        cwd || this.commandPolicy.getDefaultCwd() || "."
       );
-    }
+      const { stdout, stderr, exitCode, stopReason } = await this.runCommand(
+        command,
+        validatedCwd,
+        timeoutSeconds * 1000,
+        maxOutputChars,
+        context
+      );
+
+      let result = `Working directory: ${validatedCwd}\n`;
+      if (stopReason === "timeout") {
+        result += `Stopped: timed out after ${timeoutSeconds} seconds\n\n`;
+      } else if (stopReason === "cancelled") {
+        result += "Stopped: the task was cancelled\n\n";
+      } else {
+        result += `Exit code: ${exitCode ?? "none"}\n\n`;
+      }
+
+      if (stdout) {
+        result += `Stdout:\n${stdout}\n`;
+      }
 
-    return normalizedPath;
-  }
-
-  /**
-   * Execute command and capture output
-   */
-  private async executeCommand(
-    command: string,
-    cwd: string
-  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-    try {
-      const { stdout, stderr } = await ExecuteCommandTool.execAsync(command, {
-        cwd,
-        windowsHide: true,
-        timeout: 60000,
-        maxBuffer: 10 * 1024 * 1024,
-      });
-
-      return {
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        exitCode: 0,
-      };
-    } catch (error: any) {
-      const stdout =
-        typeof error.stdout === "string" ? error.stdout.trim() : "";
-      const stderr =
-        typeof error.stderr === "string"
-          ? error.stderr.trim()
-          : typeof error.message === "string"
-            ? error.message
-            : "Command failed.";
-      const exitCode = typeof error.code === "number" ? error.code : 1;
-
-      return {
-        stdout,
-        stderr,
-        exitCode,
-      };
-    }
-  }
-
-  /**
-   * Execute the command directly without opening a terminal
-   */
-  async execute(params: Record<string, any>): Promise<string> {
-    const command = params.command as string;
-    const cwd = params.cwd as string | undefined;
-
-    try {
-      const validatedCwd = this.validateCwd(cwd);
-      const { stdout, stderr, exitCode } = await this.executeCommand(
-        command,
-        validatedCwd
-      );
-
-      let result = `Working directory: ${validatedCwd}\n`;
-      result += `Exit code: ${exitCode}\n\n`;
-
-      if (stdout) {
-        result += `Stdout:\n${stdout}\n`;
-      }
-
-      if (stderr) {
-        result += `${stdout ? "\n" : ""}Stderr:\n${stderr}\n`;
-      }
-
-      if (!stdout && !stderr) {
-        result += "No output captured.";
-      }
-
-      if (exitCode !== 0) {
-        throw new Error(result);
-      }
-
-      return result;
-    } catch (error: any) {
-      if (error.message.includes("Working directory:")) {
-        throw error;
-      }
-      throw new Error(`Failed to execute command: ${error.message}`);
-    }
-  }
-}
+      if (stderr) {
+        result += `${stdout ? "\n" : ""}Stderr:\n${stderr}\n`;
+      }
+
+      if (!stdout && !stderr) {
+        result += "No output captured.";
+      }
+
+      if (stopReason || exitCode !== 0) {
+        throw new Error(result);
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error.message.includes("Working directory:")) {
+        throw error;
+      }
+      throw new Error(`Failed to execute command: ${error.message}`);
+    }
+  }
+}
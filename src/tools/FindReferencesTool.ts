@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  POSITION_PARAMETERS,
+  formatLocations,
+  isValidPosition,
+  resolveSourcePosition,
+} from "./codeNavigation";
+
+/**
+ * FindReferencesTool - finds all references to the symbol at a position
+ *
+ * Unlike a text search, the reference providers of the language servers
+ * skip unrelated symbols of the same name and find renamed imports.
+ */
+export class FindReferencesTool extends BaseTool {
+  readonly name = "find_references";
+  readonly description =
+    "Find all references to a symbol across the workspace, like the editor's Find All References. Give the file, the line and the symbol name on that line, e.g. where it is declared. Returns path:line results with the referencing line.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = POSITION_PARAMETERS;
+
+  validate(params: Record<string, any>): boolean {
+    return isValidPosition(params);
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const { uri, position } = await resolveSourcePosition(params);
+    const references =
+      (await vscode.commands.executeCommand<vscode.Location[]>(
+        "vscode.executeReferenceProvider",
+        uri,
+        position
+      )) ?? [];
+
+    if (references.length === 0) {
+      return `No references found at ${params.path}:${params.line}`;
+    }
+    const files = new Set(references.map((reference) => reference.uri.fsPath));
+    return `Found ${references.length} references in ${files.size} files:\n${await formatLocations(references)}`;
+  }
+}
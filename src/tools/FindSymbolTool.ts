@@ -0,0 +1,73 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  MAX_LOCATIONS,
+  formatLocation,
+  formatSymbolKind,
+} from "./codeNavigation";
+
+/**
+ * FindSymbolTool - finds classes, functions and other symbols by name
+ * across the workspace
+ *
+ * This tool uses the workspace symbol providers of the language servers,
+ * which match names fuzzily, so `UsrSvc` can find `UserService`. Exact
+ * matches are listed first.
+ */
+export class FindSymbolTool extends BaseTool {
+  readonly name = "find_symbol";
+  readonly description =
+    "Find classes, functions, methods, variables and other symbols by name across the workspace. Returns each symbol with its kind, container and path:line. Use it instead of search_files to locate where something is declared.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "query",
+      type: "string",
+      required: true,
+      description:
+        "The symbol name or part of it, e.g. 'UserService' or 'handleRetry'",
+    },
+  ];
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const query = (params.query as string).trim();
+    const symbols =
+      (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+        "vscode.executeWorkspaceSymbolProvider",
+        query
+      )) ?? [];
+
+    if (symbols.length === 0) {
+      return `No symbols found matching: ${query}\n\nThe language server may still be loading the project, or the language may not support workspace symbols. Try again shortly or use search_files.`;
+    }
+
+    // Exact names first, then names starting with the query
+    const rank = (symbol: vscode.SymbolInformation): number => {
+      const name = symbol.name.toLowerCase();
+      const wanted = query.toLowerCase();
+      return name === wanted ? 0 : name.startsWith(wanted) ? 1 : 2;
+    };
+    const sorted = [...symbols].sort((a, b) => rank(a) - rank(b));
+
+    const lines: string[] = [];
+    for (const symbol of sorted.slice(0, MAX_LOCATIONS)) {
+      const container = symbol.containerName
+        ? ` in ${symbol.containerName}`
+        : "";
+      const location = await formatLocation(
+        symbol.location.uri,
+        symbol.location.range
+      );
+      lines.push(
+        `${symbol.name} (${formatSymbolKind(symbol.kind)}${container}) ${location}`
+      );
+    }
+    if (sorted.length > MAX_LOCATIONS) {
+      lines.push(`... ${sorted.length - MAX_LOCATIONS} more`);
+    }
+
+    return `Found ${symbols.length} symbols matching: ${query}\n\n${lines.join("\n")}`;
+  }
+}
@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  MAX_LOCATIONS,
+  POSITION_PARAMETERS,
+  formatLocation,
+  formatSymbolKind,
+  isValidPosition,
+  resolveSourcePosition,
+} from "./codeNavigation";
+
+type CallDirection = "incoming" | "outgoing" | "both";
+
+const CALL_DIRECTIONS: CallDirection[] = ["incoming", "outgoing", "both"];
+
+/**
+ * GetCallHierarchyTool - lists the callers of a function and the functions
+ * it calls
+ *
+ * One level is returned per call; the agent calls the tool again on a
+ * caller or callee to go deeper.
+ */
+export class GetCallHierarchyTool extends BaseTool {
+  readonly name = "get_call_hierarchy";
+  readonly description =
+    "List the functions that call a function (incoming) and the functions it calls (outgoing), one level deep, with path:line of each call. Give the file, the line and the function name on that line. Call it again on a result to trace further.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = [
+    ...POSITION_PARAMETERS,
+    {
+      name: "direction",
+      type: "string",
+      required: false,
+      description:
+        "'incoming' for callers, 'outgoing' for callees, or 'both' (default)",
+    },
+  ];
+
+  validate(params: Record<string, any>): boolean {
+    return (
+      isValidPosition(params) &&
+      (params.direction === undefined ||
+        CALL_DIRECTIONS.includes(params.direction))
+    );
+  }
+
+  /**
+   * Format a caller or callee with the location of its first call
+   */
+  private async formatCall(
+    item: vscode.CallHierarchyItem,
+    uri: vscode.Uri,
+    ranges: vscode.Range[]
+  ): Promise<string> {
+    const location = await formatLocation(
+      uri,
+      ranges[0] ?? item.selectionRange
+    );
+    const calls = ranges.length > 1 ? `, ${ranges.length} calls` : "";
+    return `${item.name} (${formatSymbolKind(item.kind)}${calls}) ${location}`;
+  }
+
+  private async formatCalls(
+    calls: {
+      item: vscode.CallHierarchyItem;
+      uri: vscode.Uri;
+      ranges: vscode.Range[];
+    }[]
+  ): Promise<string> {
+    if (calls.length === 0) {
+      return "  (none)";
+    }
+    const lines: string[] = [];
+    for (const call of calls.slice(0, MAX_LOCATIONS)) {
+      lines.push(
+        `  ${await this.formatCall(call.item, call.uri, call.ranges)}`
+      );
+    }
+    if (calls.length > MAX_LOCATIONS) {
+      lines.push(`  ... ${calls.length - MAX_LOCATIONS} more`);
+    }
+    return lines.join("\n");
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const direction: CallDirection = params.direction ?? "both";
+    const { uri, position } = await resolveSourcePosition(params);
+    const items =
+      (await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>(
+        "vscode.prepareCallHierarchy",
+        uri,
+        position
+      )) ?? [];
+
+    if (items.length === 0) {
+      return `No function found at ${params.path}:${params.line} for a call hierarchy`;
+    }
+
+    const sections: string[] = [];
+    for (const item of items) {
+      const lines = [
+        `${item.name} (${formatSymbolKind(item.kind)}) ${await formatLocation(item.uri, item.selectionRange)}`,
+      ];
+
+      if (direction !== "outgoing") {
+        const incoming =
+          (await vscode.commands.executeCommand<
+            vscode.CallHierarchyIncomingCall[]
+          >("vscode.provideIncomingCalls", item)) ?? [];
+        // The call sites are in the caller's file
+        const calls = incoming.map((call) => ({
+          item: call.from,
+          uri: call.from.uri,
+          ranges: call.fromRanges,
+        }));
+        lines.push(
+          `Incoming calls (${calls.length}):`,
+          await this.formatCalls(calls)
+        );
+      }
+
+      if (direction !== "incoming") {
+        const outgoing =
+          (await vscode.commands.executeCommand<
+            vscode.CallHierarchyOutgoingCall[]
+          >("vscode.provideOutgoingCalls", item)) ?? [];
+        // Callees are shown where they are defined
+        const calls = outgoing.map((call) => ({
+          item: call.to,
+          uri: call.to.uri,
+          ranges: [call.to.selectionRange],
+        }));
+        lines.push(
+          `Outgoing calls (${calls.length}):`,
+          await this.formatCalls(calls)
+        );
+      }
+
+      sections.push(lines.join("\n"));
+    }
+
+    return sections.join("\n\n");
+  }
+}
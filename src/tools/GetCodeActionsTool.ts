@@ -0,0 +1,39 @@
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  RANGE_PARAMETERS,
+  formatCodeAction,
+  getCodeActions,
+  isValidRange,
+  resolveSourceRange,
+} from "./codeActions";
+
+/**
+ * GetCodeActionsTool - lists the code actions and quick fixes available for
+ * a range of lines, such as the fixes for an error reported there
+ */
+export class GetCodeActionsTool extends BaseTool {
+  readonly name = "get_code_actions";
+  readonly description =
+    "List the quick fixes and refactorings the language servers offer for a range of lines, like the editor's light bulb menu, e.g. to fix an error from get_diagnostics or to extract a function. Apply one with apply_code_action.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = RANGE_PARAMETERS;
+
+  validate(params: Record<string, any>): boolean {
+    return isValidRange(params);
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const { uri, range } = await resolveSourceRange(params);
+    const actions = await getCodeActions(uri, range);
+    const lines = `${range.start.line + 1}-${range.end.line + 1}`;
+
+    if (actions.length === 0) {
+      return `No code actions available for ${params.path}:${lines}`;
+    }
+    return `Code actions for ${params.path}:${lines}:\n${actions
+      .map((action, index) => `${index + 1}. ${formatCodeAction(action)}`)
+      .join("\n")}`;
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import { resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
 
 /**
  * GetDiagnosticsTool - retrieves VSCode diagnostic information (errors, warnings)
@@ -13,6 +14,7 @@ export class GetDiagnosticsTool extends BaseTool {
   readonly name = 'get_diagnostics';
   readonly description = 'Get diagnostic information (errors, warnings, hints) from VSCode language services. Can retrieve diagnostics for a specific file or all files in the workspace.';
   readonly requiresPermission = false; // Reading diagnostics doesn't require permission
+  readonly sideEffect = 'read_only';
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -71,19 +73,7 @@ export class GetDiagnosticsTool extends BaseTool {
    * Validate and resolve file path
    */
   private resolveFilePath(filePath: string): vscode.Uri {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error('No workspace folder is open');
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath) 
-      ? filePath 
-      : path.join(workspaceRoot, filePath);
-    
-    return vscode.Uri.file(resolvedPath);
+    return vscode.Uri.file(resolveWorkspacePath(filePath));
   }
 
   /**
@@ -133,9 +123,7 @@ export class GetDiagnosticsTool extends BaseTool {
       let hintCount = 0;
       
       for (const [filePath, diagnostics] of diagnosticsMap) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        const workspaceRoot = workspaceFolders?.[0]?.uri.fsPath || '';
-        const relativePath = path.relative(workspaceRoot, filePath) || filePath;
+        const relativePath = toWorkspacePath(filePath) || filePath;
         
         result += `File: ${relativePath}\n`;
         result += `${'='.repeat(relativePath.length + 6)}\n`;
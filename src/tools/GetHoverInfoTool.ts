@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  POSITION_PARAMETERS,
+  isValidPosition,
+  resolveSourcePosition,
+} from "./codeNavigation";
+
+/**
+ * GetHoverInfoTool - returns the hover information of the symbol at a
+ * position, usually its type or signature and documentation
+ */
+export class GetHoverInfoTool extends BaseTool {
+  readonly name = "get_hover_info";
+  readonly description =
+    "Get the type, signature and documentation of a symbol, as shown when hovering over it in the editor. Give the file, the line and the symbol name on that line. Useful for inferred types and parameters of called functions.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = POSITION_PARAMETERS;
+
+  validate(params: Record<string, any>): boolean {
+    return isValidPosition(params);
+  }
+
+  /**
+   * Format hover contents as markdown
+   */
+  private formatContent(
+    content: vscode.MarkdownString | vscode.MarkedString
+  ): string {
+    if (typeof content === "string") {
+      return content;
+    }
+    return "language" in content
+      ? `\`\`\`${content.language}\n${content.value}\n\`\`\``
+      : content.value;
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const { uri, position } = await resolveSourcePosition(params);
+    const hovers =
+      (await vscode.commands.executeCommand<vscode.Hover[]>(
+        "vscode.executeHoverProvider",
+        uri,
+        position
+      )) ?? [];
+
+    const sections = hovers
+      .flatMap((hover) =>
+        hover.contents.map((content) => this.formatContent(content))
+      )
+      .map((section) => section.trim())
+      .filter((section) => section !== "");
+    if (sections.length === 0) {
+      return `No hover information at ${params.path}:${params.line}`;
+    }
+    return sections.join("\n\n");
+  }
+}
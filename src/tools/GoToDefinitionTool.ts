@@ -0,0 +1,42 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition } from "./Tool";
+import {
+  POSITION_PARAMETERS,
+  formatLocations,
+  isValidPosition,
+  resolveSourcePosition,
+} from "./codeNavigation";
+
+/**
+ * GoToDefinitionTool - finds where the symbol at a position is defined
+ *
+ * This tool uses the definition providers of the language servers, so it
+ * follows imports, re-exports and overloads the way "Go to Definition"
+ * does in the editor.
+ */
+export class GoToDefinitionTool extends BaseTool {
+  readonly name = "go_to_definition";
+  readonly description =
+    "Find where a symbol used in a file is defined, following imports like the editor's Go to Definition. Give the file, the line and the symbol name on that line. Returns path:line results.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = POSITION_PARAMETERS;
+
+  validate(params: Record<string, any>): boolean {
+    return isValidPosition(params);
+  }
+
+  async execute(params: Record<string, any>): Promise<string> {
+    const { uri, position } = await resolveSourcePosition(params);
+    const definitions =
+      (await vscode.commands.executeCommand<
+        (vscode.Location | vscode.LocationLink)[]
+      >("vscode.executeDefinitionProvider", uri, position)) ?? [];
+
+    if (definitions.length === 0) {
+      return `No definition found at ${params.path}:${params.line}`;
+    }
+    return `Definitions:\n${await formatLocations(definitions)}`;
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import { resolveWorkspacePath } from './workspacePaths';
+import type { ToolFileSystem } from './toolFileSystem';
 
 
 /**
@@ -16,6 +17,8 @@ export class InsertContentTool extends BaseTool {
   readonly name = 'insert_content';
   readonly description = 'Insert content at a specific line number in a file. Line numbers are 1-based. Content is inserted before the specified line.';
   readonly requiresPermission = true; // Modifying files requires permission
+  readonly sideEffect = 'mutating';
+  readonly permissionOperation = 'write';
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -38,36 +41,13 @@ export class InsertContentTool extends BaseTool {
     },
   ];
 
-
-  /**
-   * Validate and normalize file path to prevent path traversal attacks
-   * Requirements: 13.4
-   */
-  private validatePath(filePath: string): string {
-    // Get workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error('No workspace folder is open');
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath) 
-      ? filePath 
-      : path.join(workspaceRoot, filePath);
-    
-    // Normalize the path to resolve .. and .
-    const normalizedPath = path.normalize(resolvedPath);
-    
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(`Access denied: Path '${filePath}' is outside the workspace`);
-    }
-    
-    return normalizedPath;
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
   }
 
+
   /**
    * Execute the insert_content tool
    * Requirements: 13.3
@@ -84,11 +64,11 @@ export class InsertContentTool extends BaseTool {
       }
       
       // Validate and normalize the path
-      const validatedPath = this.validatePath(filePath);
+      const validatedPath = resolveWorkspacePath(filePath);
       
       // Read the file
       const uri = vscode.Uri.file(validatedPath);
-      const fileContent = await vscode.workspace.fs.readFile(uri);
+      const fileContent = await this.fileSystem.readFile(uri);
       const originalContent = Buffer.from(fileContent).toString('utf-8');
       
       // Split into lines
@@ -127,7 +107,7 @@ export class InsertContentTool extends BaseTool {
       
       // Write the modified content back
       const newContentBuffer = Buffer.from(newContent, 'utf-8');
-      await vscode.workspace.fs.writeFile(uri, newContentBuffer);
+      await this.fileSystem.writeFile(uri, newContentBuffer);
       
       // Calculate statistics for feedback
       const linesInserted = content.split('\n').length;
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import { resolveWorkspacePath } from './workspacePaths';
 
 /**
  * ListCodeDefinitionNamesTool - retrieves code definitions (classes, functions, etc.) from a file
@@ -14,6 +14,7 @@ export class ListCodeDefinitionNamesTool extends BaseTool {
   readonly name = 'list_code_definition_names';
   readonly description = 'Get an overview of code definitions (classes, functions, methods, variables, etc.) in a file. Returns a hierarchical list of symbols with their types and locations.';
   readonly requiresPermission = false; // Reading code structure doesn't require permission
+  readonly sideEffect = 'read_only';
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -110,27 +111,7 @@ export class ListCodeDefinitionNamesTool extends BaseTool {
    * Validate and resolve file path
    */
   private resolveFilePath(filePath: string): vscode.Uri {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error('No workspace folder is open');
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath) 
-      ? filePath 
-      : path.join(workspaceRoot, filePath);
-    
-    // Normalize the path
-    const normalizedPath = path.normalize(resolvedPath);
-    
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(`Access denied: Path '${filePath}' is outside the workspace`);
-    }
-    
-    return vscode.Uri.file(normalizedPath);
+    return vscode.Uri.file(resolveWorkspacePath(filePath));
   }
 
   /**
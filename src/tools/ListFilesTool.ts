@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import { getWorkspaceRoots, resolveWorkspacePath } from './workspacePaths';
+import type { IgnoreService } from '../managers/IgnoreService';
+import type { ToolFileSystem } from './toolFileSystem';
 
 /**
  * ListFilesTool - lists directory contents with optional recursion
@@ -11,15 +14,16 @@ import { BaseTool, ParameterDefinition } from './Tool';
  */
 export class ListFilesTool extends BaseTool {
   readonly name = 'list_files';
-  readonly description = 'List the contents of a directory. Can optionally list recursively to show the entire directory tree.';
+  readonly description = 'List the contents of a directory. Can optionally list recursively to show the entire directory tree. Entries excluded by .gitignore, .ignore, .codesidecarignore or the files.exclude and search.exclude settings are left out unless the listed directory is itself excluded.';
   readonly requiresPermission = false; // Listing is generally safe
+  readonly sideEffect = 'read_only';
   
   readonly parameters: ParameterDefinition[] = [
     {
       name: 'path',
       type: 'string',
       required: true,
-      description: 'The relative or absolute path to the directory to list. Use "." for the workspace root.',
+      description: 'The relative or absolute path to the directory to list. Use "." for the workspace root, which lists the workspace folders in a multi-root workspace.',
     },
     {
       name: 'recursive',
@@ -29,46 +33,48 @@ export class ListFilesTool extends BaseTool {
     },
   ];
 
+  constructor(
+    private readonly ignoreService: IgnoreService,
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
   /**
-   * Validate and normalize directory path to prevent path traversal attacks
-   * Requirements: 13.4
+   * Drop the entries hidden by ignore files and exclude settings
    */
-  private validatePath(dirPath: string): string {
-    // Get workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error('No workspace folder is open');
+  private async withoutIgnored(
+    dirPath: string,
+    entries: [string, vscode.FileType][],
+    includeIgnored: boolean
+  ): Promise<[string, vscode.FileType][]> {
+    if (includeIgnored) {
+      return entries;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    
-    // Handle "." as current workspace
-    if (dirPath === '.') {
-      return workspaceRoot;
-    }
-    
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(dirPath) 
-      ? dirPath 
-      : path.join(workspaceRoot, dirPath);
-    
-    // Normalize the path to resolve .. and .
-    const normalizedPath = path.normalize(resolvedPath);
-    
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(`Access denied: Path '${dirPath}' is outside the workspace`);
+    const visible: [string, vscode.FileType][] = [];
+    for (const [name, type] of entries) {
+      const ignored = await this.ignoreService.isIgnored(
+        path.join(dirPath, name),
+        type === vscode.FileType.Directory
+      );
+      if (!ignored) {
+        visible.push([name, type]);
+      }
     }
-    
-    return normalizedPath;
+    return visible;
   }
 
   /**
    * List directory contents non-recursively
    */
-  private async listDirectory(dirPath: string): Promise<string[]> {
+  private async listDirectory(dirPath: string, includeIgnored: boolean): Promise<string[]> {
    const uri = vscode.Uri.file(dirPath);
-    const entries = await vscode.workspace.fs.readDirectory(uri);
+    const entries = await this.withoutIgnored(
+      dirPath,
+      await this.fileSystem.readDirectory(uri),
+      includeIgnored
+    );
     
     const result: string[] = [];
     
@@ -88,9 +94,13 @@ export class ListFilesTool extends BaseTool {
   /**
    * List directory contents recursively
    */
-  private async listDirectoryRecursive(dirPath: string, prefix: string = ''): Promise<string[]> {
+  private async listDirectoryRecursive(dirPath: string, includeIgnored: boolean, prefix: string = ''): Promise<string[]> {
     const uri = vscode.Uri.file(dirPath);
-    const entries = await vscode.workspace.fs.readDirectory(uri);
+    const entries = await this.withoutIgnored(
+      dirPath,
+      await this.fileSystem.readDirectory(uri),
+      includeIgnored
+    );
     
     const result: string[] = [];
     
@@ -111,7 +121,7 @@ export class ListFilesTool extends BaseTool {
       if (type === vscode.FileType.Directory) {
         result.push(`${prefix}${name}/`);
         // Recursively list subdirectory
-        const subResults = await this.listDirectoryRecursive(fullPath, `${prefix}  `);
+        const subResults = await this.listDirectoryRecursive(fullPath, includeIgnored, `${prefix}  `);
         result.push(...subResults);
       } else if (type === vscode.FileType.File) {
         result.push(`${prefix}${name}`);
@@ -160,6 +170,21 @@ export class ListFilesTool extends BaseTool {
     return super.validate(params);
   }
 
+  /**
+   * List the folders of a multi-root workspace, with their contents when
+   * listing recursively
+   */
+  private async listWorkspaceFolders(recursive: boolean): Promise<string[]> {
+    const result: string[] = [];
+    for (const root of getWorkspaceRoots()) {
+      result.push(`${root.name}/`);
+      if (recursive) {
+        result.push(...(await this.listDirectoryRecursive(root.path, false, '  ')));
+      }
+    }
+    return result;
+  }
+
   /**
    * Execute the list_files tool
    * Requirements: 13.4
@@ -169,23 +194,31 @@ export class ListFilesTool extends BaseTool {
     const recursive = this.normalizeRecursive(params.recursive);
     
     try {
+      if (getWorkspaceRoots().length > 1 && (dirPath === '.' || dirPath === '')) {
+        const folders = await this.listWorkspaceFolders(recursive);
+        return `${recursive ? 'Workspace folders (recursive)' : 'Workspace folders'}:\n${folders.join('\n')}`;
+      }
+
       // Validate and normalize the path
-      const validatedPath = this.validatePath(dirPath);
+      const validatedPath = resolveWorkspacePath(dirPath);
       
       // Check if path exists and is a directory
       const uri = vscode.Uri.file(validatedPath);
-      const stat = await vscode.workspace.fs.stat(uri);
+      const stat = await this.fileSystem.stat(uri);
       
       if (stat.type !== vscode.FileType.Directory) {
         throw new Error(`Path is not a directory: ${dirPath}`);
       }
       
+      // Show everything when the directory itself is excluded
+      const includeIgnored = await this.ignoreService.isIgnored(validatedPath, true);
+
       // List directory contents
       let entries: string[];
       if (recursive) {
-        entries = await this.listDirectoryRecursive(validatedPath);
+        entries = await this.listDirectoryRecursive(validatedPath, includeIgnored);
       } else {
-        entries = await this.listDirectory(validatedPath);
+        entries = await this.listDirectory(validatedPath, includeIgnored);
       }
       
       if (entries.length === 0) {
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
-import * as path from "path";
 import { BaseTool, ParameterDefinition } from "./Tool";
+import { resolveWorkspacePath } from "./workspacePaths";
+import type { ToolFileSystem } from "./toolFileSystem";
 
 /**
  * ReadFileTool - reads file content with line numbers
@@ -14,6 +15,7 @@ export class ReadFileTool extends BaseTool {
   readonly description =
     "Read the contents of a file. Returns the file content with line numbers for easy reference.";
   readonly requiresPermission = false; // Reading is generally safe
+  readonly sideEffect = "read_only";
 
   readonly parameters: ParameterDefinition[] = [
     {
@@ -24,35 +26,10 @@ export class ReadFileTool extends BaseTool {
     },
   ];
 
-  /**
-   * Validate and normalize file path to prevent path traversal attacks
-   * Requirements: 13.4
-   */
-  private validatePath(filePath: string): string {
-    // Get workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error("No workspace folder is open");
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(workspaceRoot, filePath);
-
-    // Normalize the path to resolve .. and .
-    const normalizedPath = path.normalize(resolvedPath);
-
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(
-        `Access denied: Path '${filePath}' is outside the workspace`
-      );
-    }
-
-    return normalizedPath;
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
   }
 
   /**
@@ -81,11 +58,11 @@ export class ReadFileTool extends BaseTool {
 
     try {
       // Validate and normalize the path
-      const validatedPath = this.validatePath(filePath);
+      const validatedPath = resolveWorkspacePath(filePath);
 
       // Read the file using VSCode API
       const uri = vscode.Uri.file(validatedPath);
-      const fileContent = await vscode.workspace.fs.readFile(uri);
+      const fileContent = await this.fileSystem.readFile(uri);
 
       // Convert buffer to string
       const content = Buffer.from(fileContent).toString("utf-8");
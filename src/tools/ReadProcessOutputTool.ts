@@ -0,0 +1,68 @@
+import {
+  BaseTool,
+  ParameterDefinition,
+  ToolExecutionContext,
+  parseNumberParam,
+} from "./Tool";
+import {
+  ProcessManager,
+  formatProcessOutput,
+} from "../managers/ProcessManager";
+
+/**
+ * ReadProcessOutputTool - reads the output of a background process
+ *
+ * Returns the output printed since the previous read together with the
+ * state of the process, or the last lines of its output.
+ */
+export class ReadProcessOutputTool extends BaseTool {
+  readonly name = "read_process_output";
+  readonly description =
+    "Read the output of a background process started with start_process, along with whether it is still running. Returns the output printed since the previous read, or the last `lines` lines of output.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "name",
+      type: "string",
+      required: true,
+      description: "The name the process was started with",
+    },
+    {
+      name: "lines",
+      type: "number",
+      required: false,
+      description:
+        "Return the last this many lines of output instead of the new output",
+    },
+  ];
+
+  constructor(private readonly processManager: ProcessManager) {
+    super();
+  }
+
+  /**
+   * Accept numbers written as strings, as XML tool calls deliver them
+   */
+  validate(params: Record<string, any>): boolean {
+    const lines = parseNumberParam(params.lines);
+    return (
+      typeof params.name === "string" &&
+      (lines === undefined || (Number.isInteger(lines) && lines > 0))
+    );
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    return formatProcessOutput(
+      this.processManager.readOutput(
+        context?.taskId,
+        params.name as string,
+        parseNumberParam(params.lines)
+      )
+    );
+  }
+}
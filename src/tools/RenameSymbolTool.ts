@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import {
+  POSITION_PARAMETERS,
+  isValidPosition,
+  resolveSourcePosition,
+} from "./codeNavigation";
+import {
+  authorizeFileChanges,
+  computeFileEdits,
+  describeFileEdits,
+  writeFileEdits,
+} from "./workspaceEdits";
+import type { ToolFileSystem } from "./toolFileSystem";
+
+/**
+ * RenameSymbolTool - renames a symbol and every reference to it with the
+ * rename provider of the language server
+ *
+ * Permission is asked once the files the rename touches are known, so the
+ * tool does not require permission up front.
+ */
+export class RenameSymbolTool extends BaseTool {
+  readonly name = "rename_symbol";
+  readonly description =
+    "Rename a symbol and update every reference to it across the workspace, like the editor's Rename Symbol. Give the file, the line and the symbol name on that line. Use it instead of editing each usage with apply_diff.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "mutating";
+  readonly permissionOperation = "write";
+
+  readonly parameters: ParameterDefinition[] = [
+    ...POSITION_PARAMETERS,
+    {
+      name: "new_name",
+      type: "string",
+      required: true,
+      description: "The new name of the symbol",
+    },
+  ];
+
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
+  validate(params: Record<string, any>): boolean {
+    return (
+      isValidPosition(params) &&
+      typeof params.new_name === "string" &&
+      params.new_name.trim() !== ""
+    );
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const newName = (params.new_name as string).trim();
+    const { uri, position } = await resolveSourcePosition(params);
+
+    // Throws with the language server's reason when the symbol cannot be renamed
+    const edit = await vscode.commands.executeCommand<
+      vscode.WorkspaceEdit | undefined
+    >("vscode.executeDocumentRenameProvider", uri, position, newName);
+    const fileEdits = edit ? await computeFileEdits(edit, this.fileSystem) : [];
+    if (fileEdits.length === 0) {
+      return `Nothing to rename at ${params.path}:${params.line}`;
+    }
+
+    const oldName =
+      params.symbol ?? `the symbol at ${params.path}:${params.line}`;
+    const summary = `Rename ${oldName} to ${newName}`;
+    await authorizeFileChanges(
+      fileEdits.map((fileEdit) => fileEdit.uri.fsPath),
+      `${summary}\n\n${describeFileEdits(fileEdits)}`,
+      this.name,
+      context
+    );
+    await writeFileEdits(fileEdits, this.name, this.fileSystem, context);
+
+    const changes = fileEdits.reduce(
+      (sum, fileEdit) => sum + fileEdit.changes,
+      0
+    );
+    return `${summary}: ${changes} changes in ${fileEdits.length} files\n${describeFileEdits(fileEdits)}`;
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  BaseTool,
+  ParameterDefinition,
+  ToolExecutionContext,
+  parseNumberParam,
+} from "./Tool";
+import { resolveWorkspacePath, toWorkspacePath } from "./workspacePaths";
+import type { CodebaseIndex } from "../indexing/CodebaseIndex";
+
+/** Results returned when the call does not set a limit */
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 30;
+/** Lines of a result shown before it is cut */
+const MAX_SNIPPET_LINES = 40;
+
+/**
+ * SearchCodebaseTool - finds code by meaning in the codebase index
+ *
+ * Unlike search_files, the query does not have to match the code
+ * literally: chunks of code are ranked by how close they are to the
+ * question asked, e.g. "where do we handle retries?".
+ */
+export class SearchCodebaseTool extends BaseTool {
+  readonly name = "search_codebase";
+  readonly description =
+    "Search the codebase by meaning. Returns the code snippets closest to a natural language query, best first, with their file, lines and enclosing symbol. Use it to find where something is handled when you do not know the exact names; use search_files for exact text.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "query",
+      type: "string",
+      required: true,
+      description:
+        "What to look for, in natural language or code terms, e.g. 'where do we handle retries?'",
+    },
+    {
+      name: "path",
+      type: "string",
+      required: false,
+      description:
+        "Folder or file to search in, relative to the workspace. Defaults to the whole workspace.",
+    },
+    {
+      name: "limit",
+      type: "number",
+      required: false,
+      description: `Number of results, up to ${MAX_LIMIT}. Defaults to ${DEFAULT_LIMIT}.`,
+    },
+  ];
+
+  constructor(private readonly codebaseIndex: CodebaseIndex) {
+    super();
+  }
+
+  /**
+   * Accept numbers written as strings, as XML tool calls deliver them
+   */
+  validate(params: Record<string, any>): boolean {
+    const limit = parseNumberParam(params.limit);
+    return (
+      typeof params.query === "string" &&
+      params.query.trim() !== "" &&
+      (params.path === undefined || typeof params.path === "string") &&
+      (limit === undefined ||
+        (Number.isInteger(limit) && limit > 0 && limit <= MAX_LIMIT))
+    );
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const query = (params.query as string).trim();
+    const limit = parseNumberParam(params.limit) ?? DEFAULT_LIMIT;
+    const scope = params.path
+      ? resolveWorkspacePath(params.path as string)
+      : undefined;
+
+    const results = await this.codebaseIndex.search(
+      query,
+      limit,
+      scope,
+      context?.signal
+    );
+    const status = this.codebaseIndex.getStatus();
+
+    const notes: string[] = [];
+    if (status.indexing) {
+      notes.push(
+        `Note: the codebase index is still being built (${status.indexedFiles}` +
+          (status.totalFiles !== undefined ? ` of ${status.totalFiles}` : "") +
+          " files indexed), so results may be incomplete."
+      );
+    }
+    if (status.lastError) {
+      notes.push(`Note: indexing stopped early: ${status.lastError}`);
+    }
+
+    if (results.length === 0) {
+      return [`No results found for: ${query}`, ...notes].join("\n");
+    }
+
+    const sections = results.map((result, index) => {
+      const { chunk } = result;
+      const location = `${toWorkspacePath(result.path)}:${chunk.startLine + 1}-${chunk.endLine + 1}`;
+      const symbol = chunk.symbol ? ` (${chunk.symbol})` : "";
+      const lines = chunk.text.split("\n");
+      const snippet = lines
+        .slice(0, MAX_SNIPPET_LINES)
+        .map((line, offset) => `${chunk.startLine + offset + 1} | ${line}`);
+      if (lines.length > MAX_SNIPPET_LINES) {
+        snippet.push(
+          `... ${lines.length - MAX_SNIPPET_LINES} more lines, use read_file to see them`
+        );
+      }
+      return `${index + 1}. ${location}${symbol} [score ${result.score.toFixed(2)}]\n${snippet.join("\n")}`;
+    });
+
+    return [
+      `Found ${results.length} results for: ${query}`,
+      ...notes,
+      "",
+      sections.join("\n\n"),
+    ].join("\n");
+  }
+}
@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import {
+  findWorkspaceRoot,
+  getWorkspaceRoots,
+  resolveWorkspacePath,
+  toWorkspacePath,
+} from './workspacePaths';
+import type { IgnoreService } from '../managers/IgnoreService';
+import type { ToolFileSystem } from './toolFileSystem';
 
 /**
  * SearchFilesTool - searches files using regular expressions with context
@@ -12,8 +20,9 @@ import { BaseTool, ParameterDefinition } from './Tool';
  */
 export class SearchFilesTool extends BaseTool {
   readonly name = 'search_files';
-  readonly description = 'Search for text patterns in files using regular expressions. Returns matches with surrounding context lines.';
+  readonly description = 'Search for text patterns in files using regular expressions. Returns matches with surrounding context lines. Files excluded by .gitignore, .ignore, .codesidecarignore or the files.exclude and search.exclude settings are not searched.';
   readonly requiresPermission = false; // Searching is generally safe
+  readonly sideEffect = 'read_only';
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -26,7 +35,7 @@ export class SearchFilesTool extends BaseTool {
       name: 'file_pattern',
       type: 'string',
       required: false,
-      description: 'Optional glob pattern to filter files (e.g., "*.ts", "src/**/*.js"). Defaults to all files.',
+      description: 'Optional glob pattern to filter files (e.g., "*.ts", "src/**/*.js"). Defaults to all files. In a multi-root workspace, start the pattern with a folder name to search only that folder (e.g., "api/src/**/*.ts").',
     },
     {
       name: 'case_sensitive',
@@ -42,6 +51,50 @@ export class SearchFilesTool extends BaseTool {
     },
   ];
 
+  constructor(
+    private readonly ignoreService: IgnoreService,
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
+
+  /**
+   * Limit a pattern starting with a folder name to that folder in
+   * multi-root workspaces
+   */
+  private toGlobPattern(filePattern: string): vscode.GlobPattern {
+    const roots = getWorkspaceRoots();
+    if (roots.length < 2) {
+      return filePattern;
+    }
+
+    const [firstSegment, ...rest] = filePattern.split('/');
+    const root = roots.find((candidate) => candidate.name === firstSegment);
+    return root && rest.length > 0
+      ? new vscode.RelativePattern(root.path, rest.join('/'))
+      : filePattern;
+  }
+
+  /**
+   * Files with staged edits matching the file pattern, relative to their
+   * workspace folder or, in multi-root workspaces, starting with its name
+   */
+  private findStagedFiles(filePattern: string): vscode.Uri[] {
+    const matches = (filePath: string): boolean => {
+      const root = findWorkspaceRoot(filePath);
+      if (!root) {
+        return false;
+      }
+      const relativePath = path.relative(root.path, filePath).split(path.sep).join('/');
+      const workspacePath = toWorkspacePath(filePath).split(path.sep).join('/');
+      return path.matchesGlob(relativePath, filePattern) || path.matchesGlob(workspacePath, filePattern);
+    };
+
+    return (this.fileSystem.getStagedPaths?.() ?? [])
+      .filter(matches)
+      .map((filePath) => vscode.Uri.file(filePath));
+  }
+
   /**
    * Search files in the workspace
    * Requirements: 13.5
@@ -73,11 +126,21 @@ export class SearchFilesTool extends BaseTool {
         throw new Error('No workspace folder is open');
       }
       
-      // Find files matching the file pattern
-      const files = await vscode.workspace.findFiles(
-        filePattern,
-        '**/node_modules/**' // Exclude node_modules by default
-      );
+      // Find files matching the file pattern, including new files that are
+      // only staged, without the ignored ones
+      const candidates = new Map<string, vscode.Uri>();
+      for (const fileUri of [
+        ...(await vscode.workspace.findFiles(this.toGlobPattern(filePattern))),
+        ...this.findStagedFiles(filePattern),
+      ]) {
+        candidates.set(fileUri.fsPath, fileUri);
+      }
+      const files: vscode.Uri[] = [];
+      for (const fileUri of candidates.values()) {
+        if (!(await this.ignoreService.isIgnored(fileUri.fsPath, false))) {
+          files.push(fileUri);
+        }
+      }
       
       if (files.length === 0) {
         return `No files found matching pattern: ${filePattern}`;
@@ -90,8 +153,11 @@ export class SearchFilesTool extends BaseTool {
       
       for (const fileUri of files) {
         try {
-          // Read file content
-          const fileContent = await vscode.workspace.fs.readFile(fileUri);
+          // Denied files and links leading outside the workspace throw and are skipped
+          resolveWorkspacePath(fileUri.fsPath);
+
+          // Read file content, staged deletions throw and are skipped
+          const fileContent = await this.fileSystem.readFile(fileUri);
           const content = Buffer.from(fileContent).toString('utf-8');
           const lines = content.split('\n');
           
@@ -112,7 +178,7 @@ export class SearchFilesTool extends BaseTool {
           // If we found matches, format them with context
           if (matchedLines.size > 0) {
             filesWithMatches++;
-            const relativePath = vscode.workspace.asRelativePath(fileUri);
+            const relativePath = toWorkspacePath(fileUri.fsPath);
             fileMatches.push(`\n=== ${relativePath} (${matchedLines.size} matching lines) ===`);
             
             // Group nearby matches to avoid duplicate context
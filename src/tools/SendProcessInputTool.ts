@@ -0,0 +1,51 @@
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import type { ProcessManager } from "../managers/ProcessManager";
+
+/**
+ * SendProcessInputTool - writes to the standard input of a background
+ * process
+ *
+ * The input can make the process run arbitrary commands, so this tool
+ * requires user permission before execution.
+ */
+export class SendProcessInputTool extends BaseTool {
+  readonly name = "send_process_input";
+  readonly description =
+    "Send a line of text to the standard input of a background process started with start_process, e.g. to answer a prompt or trigger a watcher command. A newline is appended unless the input already ends with one.";
+  readonly requiresPermission = true;
+  readonly sideEffect = "exec";
+  readonly permissionOperation = "execute";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "name",
+      type: "string",
+      required: true,
+      description: "The name the process was started with",
+    },
+    {
+      name: "input",
+      type: "string",
+      required: true,
+      description: "The text to send",
+    },
+  ];
+
+  constructor(private readonly processManager: ProcessManager) {
+    super();
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const name = params.name as string;
+    const input = params.input as string;
+    this.processManager.sendInput(
+      context?.taskId,
+      name,
+      input.endsWith("\n") ? input : `${input}\n`
+    );
+    return `Sent ${input.length} characters to process "${name}". Use read_process_output to see its response.`;
+  }
+}
@@ -0,0 +1,75 @@
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import { resolveWorkspacePath } from "./workspacePaths";
+import type { ProcessManager } from "../managers/ProcessManager";
+import type { CommandPolicy } from "../managers/CommandPolicy";
+
+/**
+ * StartProcessTool - starts a long-running command in the background
+ *
+ * Unlike execute_command, this tool returns as soon as the process has
+ * started, so the agent can keep working while a dev server or watcher
+ * runs. The process is stopped when the task ends. This tool requires user
+ * permission before execution.
+ */
+export class StartProcessTool extends BaseTool {
+  readonly name = "start_process";
+  readonly description =
+    "Start a long-running command such as a dev server or file watcher in the background and return immediately. Use read_process_output, wait_for_process_output, send_process_input and stop_process with the same name to interact with it. Background processes are stopped when the task ends.";
+  readonly requiresPermission = true;
+  readonly sideEffect = "exec";
+  readonly permissionOperation = "execute";
+  readonly runsCommand = true;
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "name",
+      type: "string",
+      required: true,
+      description:
+        "A short unique name for the process, e.g. 'server', used by the other process tools",
+    },
+    {
+      name: "command",
+      type: "string",
+      required: true,
+      description: "The shell command to run",
+    },
+    {
+      name: "cwd",
+      type: "string",
+      required: false,
+      description:
+        "The working directory for the command (relative to workspace root). Defaults to workspace root.",
+    },
+  ];
+
+  constructor(
+    private readonly processManager: ProcessManager,
+    private readonly commandPolicy: CommandPolicy
+  ) {
+    super();
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    const name = (params.name as string).trim();
+    const command = params.command as string;
+    if (!name) {
+      throw new Error("The process name must not be empty");
+    }
+
+    const cwd = resolveWorkspacePath(
+      (params.cwd as string | undefined) || this.commandPolicy.getDefaultCwd() || "."
+    );
+    const info = this.processManager.start(
+      context?.taskId,
+      name,
+      command,
+      cwd,
+      this.commandPolicy.getEnvironment()
+    );
+    return `Started process "${info.name}" (pid ${info.pid ?? "unknown"}) in ${info.cwd}\nCommand: ${info.command}`;
+  }
+}
@@ -0,0 +1,39 @@
+import { BaseTool, ParameterDefinition, ToolExecutionContext } from "./Tool";
+import {
+  ProcessManager,
+  formatProcessOutput,
+} from "../managers/ProcessManager";
+
+/**
+ * StopProcessTool - stops a background process and the processes it
+ * started, and returns its remaining output
+ */
+export class StopProcessTool extends BaseTool {
+  readonly name = "stop_process";
+  readonly description =
+    "Stop a background process started with start_process, including the processes it started, and return the output not read yet.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "exec";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "name",
+      type: "string",
+      required: true,
+      description: "The name the process was started with",
+    },
+  ];
+
+  constructor(private readonly processManager: ProcessManager) {
+    super();
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    return formatProcessOutput(
+      await this.processManager.stop(context?.taskId, params.name as string)
+    );
+  }
+}
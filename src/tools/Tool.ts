@@ -1,3 +1,5 @@
+import type { FileChangeRecord } from './fileChangeTracker';
+
 /**
  * Parameter definition for a tool
  */
@@ -6,8 +8,61 @@ export interface ParameterDefinition {
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
   required: boolean;
   description: string;
+  /**
+   * Full JSON schema of the parameter, used for native tool definitions
+   */
+  schema?: Record<string, unknown>;
+}
+
+/**
+ * Side effect of a tool, used to schedule tool calls.
+ * Read-only calls may run concurrently; mutating and exec calls run
+ * one at a time in the order they were requested.
+ */
+export type ToolSideEffect = 'read_only' | 'mutating' | 'exec';
+
+/**
+ * Per-call context passed to Tool.execute
+ */
+export interface ToolExecutionContext {
+  /** Task that made the call */
+  taskId?: string;
+  /** Aborted when the task is cancelled */
+  signal?: AbortSignal;
+  /** Receives output while the tool is still running */
+  onOutput?: (chunk: string) => void;
+  /**
+   * Check changes to files the tool only knows once it has worked out its
+   * edit, such as the files a rename touches, against the edit limit and
+   * the permission rules. May ask the user.
+   * @returns Error message when the changes are not allowed
+   */
+  authorizeFileChanges?: (
+    paths: string[],
+    details: string
+  ) => Promise<string | undefined>;
+  /** Record a change to a file for the task diff */
+  recordFileChange?: (change: FileChangeRecord) => void;
+  /**
+   * Record the content of files in the checkpoint of the tool call, before
+   * the tool changes them. Called once the changes are authorized.
+   */
+  checkpointFiles?: (paths: string[]) => Promise<void>;
 }
 
+/**
+ * Parse a number parameter. XML tool calls deliver numbers as strings.
+ * @returns undefined if the parameter is absent, NaN if it is not a number
+ */
+export const parseNumberParam = (value: unknown): number | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return typeof value === 'number' || typeof value === 'string'
+    ? Number(value)
+    : NaN;
+};
+
 /**
  * Tool definition for system prompt
  */
@@ -42,12 +97,33 @@ export interface Tool {
    */
   readonly requiresPermission: boolean;
 
+  /**
+   * Side effect of the tool
+   */
+  readonly sideEffect: ToolSideEffect;
+
+  /**
+   * Operation shown in permission requests. Derived from the tool name
+   * when not set.
+   */
+  readonly permissionOperation?: string;
+
+  /**
+   * Whether the tool runs its `command` parameter in a shell. Such calls
+   * are checked against the command policy before asking for permission.
+   */
+  readonly runsCommand?: boolean;
+
   /**
    * Execute the tool with given parameters
    * @param params Tool parameters
+   * @param context Cancellation and live output of the call
    * @returns Promise<string> Tool execution result
    */
-  execute(params: Record<string, any>): Promise<string>;
+  execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string>;
 
   /**
    * Validate tool parameters
@@ -65,8 +141,12 @@ export abstract class BaseTool implements Tool {
   abstract readonly description: string;
   abstract readonly parameters: ParameterDefinition[];
   abstract readonly requiresPermission: boolean;
+  abstract readonly sideEffect: ToolSideEffect;
 
-  abstract execute(params: Record<string, any>): Promise<string>;
+  abstract execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string>;
 
   /**
    * Validate parameters against parameter definitions
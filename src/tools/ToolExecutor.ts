@@ -1,8 +1,20 @@
-import * as path from "path";
 import * as vscode from "vscode";
-import { Tool, ToolDefinition } from "./Tool";
-import type { FileChangeTracker } from "./fileChangeTracker";
+import {
+  Tool,
+  ToolDefinition,
+  ToolExecutionContext,
+  ToolSideEffect,
+} from "./Tool";
+import {
+  FILE_CHANGE_TOOL_NAMES,
+  type FileChangeRecord,
+  type FileChangeTracker,
+} from "./fileChangeTracker";
+import type { ToolFileSystem } from "./toolFileSystem";
+import { resolveWorkspacePath, toWorkspacePath } from "./workspacePaths";
 import { PermissionManager } from "../managers/PermissionManager";
+import type { ModeManager } from "../managers/ModeManager";
+import type { CommandPolicy } from "../managers/CommandPolicy";
 import { ErrorHandler, ErrorContext } from "../managers/ErrorHandler";
 import { logger } from "code-sidecar-shared/utils/logger";
 
@@ -17,10 +29,15 @@ export class ToolExecutor {
   private permissionManager: PermissionManager | undefined;
   private errorHandler: ErrorHandler | undefined;
   private fileChangeTracker: FileChangeTracker | undefined;
+  private modeManager: ModeManager | undefined;
+  private commandPolicy: CommandPolicy | undefined;
+  /** Files edited in the current task, counted against the mode's edit limit */
+  private editedFiles = new Set<string>();
 
   constructor(
     permissionManager: PermissionManager,
-    errorHandler: ErrorHandler
+    errorHandler: ErrorHandler,
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
   ) {
     this.permissionManager = permissionManager;
     this.errorHandler = errorHandler;
@@ -30,6 +47,27 @@ export class ToolExecutor {
     this.fileChangeTracker = tracker;
   }
 
+  /**
+   * Restrict tool calls to the tools and file edit limit of the current mode
+   */
+  setModeManager(modeManager: ModeManager | undefined): void {
+    this.modeManager = modeManager;
+  }
+
+  /**
+   * Check the commands of command tools against a policy
+   */
+  setCommandPolicy(commandPolicy: CommandPolicy | undefined): void {
+    this.commandPolicy = commandPolicy;
+  }
+
+  /**
+   * Forget the files edited so far, called when a task starts
+   */
+  resetEditedFiles(): void {
+    this.editedFiles.clear();
+  }
+
   /**
    * Register a tool
    * Requirement: 13.2
@@ -61,6 +99,14 @@ export class ToolExecutor {
     return this.tools.get(toolName);
   }
 
+  /**
+   * Get the side effect of a tool. Unknown tools are treated as mutating
+   * so they keep their place in the call order.
+   */
+  getToolSideEffect(toolName: string): ToolSideEffect {
+    return this.tools.get(toolName)?.sideEffect ?? "mutating";
+  }
+
   /**
    * Get all registered tool names
    * @returns Array of tool names
@@ -69,13 +115,24 @@ export class ToolExecutor {
     return Array.from(this.tools.keys());
   }
 
+  /**
+   * Get the names of the tools the current mode allows
+   */
+  getAvailableToolNames(): string[] {
+    return this.getToolNames().filter((name) => this.isToolAllowed(name));
+  }
+
   /**
    * Execute a tool call
    * Requirements: 13.1, 13.2, 13.3, 13.4, 13.5, 13.6, 13.7, 5.1, 5.2
    * @param toolUse Tool use request from LLM
+   * @param context Cancellation and live output of the call
    * @returns Promise<ToolResult> Tool execution result
    */
-  async executeTool(toolUse: ToolUse): Promise<ToolResult> {
+  async executeTool(
+    toolUse: ToolUse,
+    context?: ToolExecutionContext
+  ): Promise<ToolResult> {
     const tool = this.tools.get(toolUse.name);
 
     // Handle unknown tool (Requirement 13.7)
@@ -86,7 +143,25 @@ export class ToolExecutor {
         tool_name: toolUse.name,
         content: `Error: Tool '${
           toolUse.name
-        }' does not exist. Available tools: ${this.getToolNames().join(", ")}`,
+        }' does not exist. Available tools: ${this.getAvailableToolNames().join(
+          ", "
+        )}`,
+        is_error: true,
+      };
+    }
+
+    // Reject tools the current mode does not allow
+    if (!this.isToolAllowed(tool.name)) {
+      const modeName = this.modeManager?.getCurrentModeDefinition().name;
+      logger.debug(`Tool ${tool.name} is not allowed in ${modeName} mode`);
+      return {
+        type: "tool_result",
+        tool_name: toolUse.name,
+        content: `Error: Tool '${
+          tool.name
+        }' is not available in ${modeName} mode. Available tools: ${this.getAvailableToolNames().join(
+          ", "
+        )}`,
         is_error: true,
       };
     }
@@ -107,6 +182,37 @@ export class ToolExecutor {
       };
     }
 
+    const editLimitError = this.checkFileEditLimit(toolUse);
+    if (editLimitError) {
+      logger.debug(`File edit limit reached for tool: ${toolUse.name}`);
+      return {
+        type: "tool_result",
+        tool_name: toolUse.name,
+        content: editLimitError,
+        is_error: true,
+      };
+    }
+
+    // Reject commands the command policy blocks, before asking the user
+    if (tool.runsCommand && this.commandPolicy) {
+      const violation = this.commandPolicy.evaluate(
+        toolUse.params.command as string,
+        typeof toolUse.params.cwd === "string" ? toolUse.params.cwd : undefined
+      );
+      if (violation) {
+        logger.debug(
+          `Command blocked by policy (${violation.rule}): ${toolUse.params.command}`
+        );
+        return {
+          type: "tool_result",
+          tool_name: toolUse.name,
+          content: `Error: Command blocked by the command policy: ${violation.message}`,
+          is_error: true,
+          error: { code: "command_blocked", reason: violation.rule },
+        };
+      }
+    }
+
     // Check permissions if tool requires it (Requirements 5.1, 5.2)
     if (tool.requiresPermission && this.permissionManager) {
       const permissionRequest = this.buildPermissionRequest(tool, toolUse);
@@ -140,7 +246,12 @@ export class ToolExecutor {
       );
 
       // Execute the tool (Requirements 13.1, 13.2, 13.3, 13.4, 13.5, 13.6)
-      const resultContent = await tool.execute(toolUse.params);
+      const resultContent = await tool.execute(toolUse.params, {
+        ...context,
+        authorizeFileChanges: (paths, details) =>
+          this.authorizeFileChanges(tool, paths, details, context),
+        recordFileChange: (change) => this.recordFileChange(change),
+      });
 
       logger.debug(`Tool ${toolUse.name} executed successfully`);
 
@@ -151,6 +262,10 @@ export class ToolExecutor {
         is_error: false,
       };
 
+      if (this.isFileChangeTool(toolUse.name) && filePath) {
+        this.editedFiles.add(this.getEditedFileKey(filePath));
+      }
+
       if (shouldTrackFileChange) {
         const afterContent = await this.readFileSafe(filePath);
         this.fileChangeTracker?.recordChange({
@@ -181,10 +296,18 @@ export class ToolExecutor {
           errorContext
         );
 
+        // The user message keeps the first line only; the rest, such as the
+        // closest match of an apply_diff search, helps the model retry
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        const details = errorMessage.split("\n").slice(1).join("\n").trim();
+
         return {
           type: "tool_result",
           tool_name: toolUse.name,
-          content: errorResponse.userMessage,
+          content: details
+            ? `${errorResponse.userMessage}\n${details}`
+            : errorResponse.userMessage,
           is_error: true,
         };
       }
@@ -203,30 +326,117 @@ export class ToolExecutor {
   }
 
   private isFileChangeTool(toolName: string): boolean {
-    return (
-      toolName === "write_file" ||
-      toolName === "apply_diff" ||
-      toolName === "insert_content"
+    return FILE_CHANGE_TOOL_NAMES.has(toolName);
+  }
+
+  private isToolAllowed(toolName: string): boolean {
+    return this.modeManager?.isToolAllowed(toolName) ?? true;
+  }
+
+  private getEditedFileKey(filePath: string): string {
+    return this.resolveFilePath(filePath) ?? filePath;
+  }
+
+  /**
+   * Check that a file edit stays within the edit limit of the current mode.
+   * Files already edited in the task can be edited again.
+   * @returns Error message when the edit is over the limit
+   */
+  private checkFileEditLimit(toolUse: ToolUse): string | undefined {
+    const filePath =
+      typeof toolUse.params.path === "string" ? toolUse.params.path : "";
+    return this.isFileChangeTool(toolUse.name)
+      ? this.getFileEditLimitError([filePath])
+      : undefined;
+  }
+
+  /**
+   * Check that edits to the given files stay within the edit limit of the
+   * current mode
+   * @returns Error message when the edits are over the limit
+   */
+  private getFileEditLimitError(filePaths: string[]): string | undefined {
+    const maxFileEdits = this.modeManager?.getMaxFileEdits();
+    const newFiles = new Set(
+      filePaths
+        .map((filePath) => this.getEditedFileKey(filePath))
+        .filter((key) => !this.editedFiles.has(key))
     );
+    if (
+      maxFileEdits === undefined ||
+      newFiles.size === 0 ||
+      this.editedFiles.size + newFiles.size <= maxFileEdits
+    ) {
+      return undefined;
+    }
+
+    const modeName = this.modeManager?.getCurrentModeDefinition().name;
+    if (maxFileEdits === 0) {
+      return `Error: ${modeName} mode does not allow file edits. Ask the user to switch to a mode that does.`;
+    }
+
+    const editedFiles = Array.from(this.editedFiles, (file) =>
+      toWorkspacePath(file)
+    );
+    return `Error: ${modeName} mode allows edits to at most ${maxFileEdits} files per task, and this task already edited ${editedFiles.join(
+      ", "
+    )}. Keep further edits to these files or ask the user to switch modes.`;
   }
 
-  private resolveFilePath(filePath: string): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return null;
+  /**
+   * Check the files a tool is about to change once it knows them, against
+   * the edit limit of the mode and the permission rules, and record them in
+   * the checkpoint of the tool call when they are allowed
+   * @returns Error message when the changes are not allowed
+   */
+  private async authorizeFileChanges(
+    tool: Tool,
+    filePaths: string[],
+    details: string,
+    context?: ToolExecutionContext
+  ): Promise<string | undefined> {
+    const editLimitError = this.getFileEditLimitError(filePaths);
+    if (editLimitError) {
+      return editLimitError;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const resolvedPath = path.isAbsolute(filePath)
-      ? filePath
-      : path.join(workspaceRoot, filePath);
-    const normalizedPath = path.normalize(resolvedPath);
+    if (this.permissionManager) {
+      const workspacePaths = filePaths.map((filePath) =>
+        toWorkspacePath(filePath)
+      );
+      const allowed = await this.permissionManager.checkPermissionForPaths(
+        {
+          toolName: tool.name,
+          operation: tool.permissionOperation ?? "write",
+          target: workspacePaths.join(", "),
+          details,
+        },
+        filePaths
+      );
+      if (!allowed) {
+        logger.debug(`Permission denied for tool: ${tool.name}`);
+        return `Permission denied: User did not authorize ${tool.name} operation`;
+      }
+    }
+
+    await context?.checkpointFiles?.(filePaths);
+    return undefined;
+  }
+
+  /**
+   * Record a change a tool made to a file other than its `path` parameter
+   */
+  private recordFileChange(change: FileChangeRecord): void {
+    this.editedFiles.add(this.getEditedFileKey(change.path));
+    this.fileChangeTracker?.recordChange(change);
+  }
 
-    if (!normalizedPath.startsWith(workspaceRoot)) {
+  private resolveFilePath(filePath: string): string | null {
+    try {
+      return resolveWorkspacePath(filePath);
+    } catch {
       return null;
     }
-
-    return normalizedPath;
   }
 
   private async readFileSafe(filePath: string): Promise<string> {
@@ -237,7 +447,7 @@ export class ToolExecutor {
 
     try {
       const uri = vscode.Uri.file(resolvedPath);
-      const fileContent = await vscode.workspace.fs.readFile(uri);
+      const fileContent = await this.fileSystem.readFile(uri);
       return Buffer.from(fileContent).toString("utf-8");
     } catch (error) {
       return "";
@@ -252,12 +462,14 @@ export class ToolExecutor {
     tool: Tool,
     toolUse: ToolUse
   ): PermissionRequest {
-    // Determine operation type based on tool name
+    // Determine operation type from the tool, or else from its name
     let operation = "unknown";
     let target = "";
     let details = "";
 
-    if (tool.name.includes("read")) {
+    if (tool.permissionOperation) {
+      operation = tool.permissionOperation;
+    } else if (tool.name.includes("read")) {
       operation = "read";
     } else if (tool.name.includes("write") || tool.name.includes("modify")) {
       operation = "write";
@@ -291,19 +503,29 @@ export class ToolExecutor {
       operation,
       target,
       details,
+      path:
+        typeof toolUse.params.path === "string"
+          ? toolUse.params.path
+          : undefined,
+      command:
+        typeof toolUse.params.command === "string"
+          ? toolUse.params.command
+          : undefined,
     };
   }
 
   /**
-   * Get all tool definitions for system prompt
+   * Get the definitions of the tools the current mode allows
    * @returns Array of tool definitions
    */
   getToolDefinitions(): ToolDefinition[] {
-    return Array.from(this.tools.values()).map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.parameters,
-    }));
+    return Array.from(this.tools.values())
+      .filter((tool) => this.isToolAllowed(tool.name))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      }));
   }
 
   /**
@@ -0,0 +1,90 @@
+import {
+  BaseTool,
+  ParameterDefinition,
+  ToolExecutionContext,
+  parseNumberParam,
+} from "./Tool";
+import {
+  ProcessManager,
+  formatProcessOutput,
+} from "../managers/ProcessManager";
+
+/** Timeout used when the call does not set one */
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+/**
+ * WaitForProcessOutputTool - waits for a background process to print
+ * output matching a regular expression
+ *
+ * Output already printed but not read yet counts, so a server that became
+ * ready before the call is detected. The output read while waiting is
+ * returned.
+ */
+export class WaitForProcessOutputTool extends BaseTool {
+  readonly name = "wait_for_process_output";
+  readonly description =
+    "Wait until a background process prints output matching a regular expression, e.g. until a dev server reports it is listening. Checks the output not read yet, then new output. Fails if the process exits or the timeout passes first.";
+  readonly requiresPermission = false;
+  readonly sideEffect = "read_only";
+
+  readonly parameters: ParameterDefinition[] = [
+    {
+      name: "name",
+      type: "string",
+      required: true,
+      description: "The name the process was started with",
+    },
+    {
+      name: "pattern",
+      type: "string",
+      required: true,
+      description:
+        "JavaScript regular expression to match against the output, e.g. 'listening on|ready in'",
+    },
+    {
+      name: "timeout",
+      type: "number",
+      required: false,
+      description: `Seconds to wait. Defaults to ${DEFAULT_TIMEOUT_SECONDS}.`,
+    },
+  ];
+
+  constructor(private readonly processManager: ProcessManager) {
+    super();
+  }
+
+  /**
+   * Accept numbers written as strings, as XML tool calls deliver them
+   */
+  validate(params: Record<string, any>): boolean {
+    const timeout = parseNumberParam(params.timeout);
+    return (
+      typeof params.name === "string" &&
+      typeof params.pattern === "string" &&
+      (timeout === undefined || timeout > 0)
+    );
+  }
+
+  async execute(
+    params: Record<string, any>,
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(params.pattern as string, "m");
+    } catch (error: any) {
+      throw new Error(`Invalid pattern: ${error.message}`);
+    }
+
+    const timeoutSeconds =
+      parseNumberParam(params.timeout) ?? DEFAULT_TIMEOUT_SECONDS;
+    const result = await this.processManager.waitForOutput(
+      context?.taskId,
+      params.name as string,
+      pattern,
+      timeoutSeconds * 1000,
+      context?.signal
+    );
+    return `Output matched ${pattern}\n${formatProcessOutput(result)}`;
+  }
+}
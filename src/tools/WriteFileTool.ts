@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BaseTool, ParameterDefinition } from './Tool';
+import { resolveWorkspacePath } from './workspacePaths';
+import type { ToolFileSystem } from './toolFileSystem';
 
 /**
  * WriteFileTool - writes content to a file, creating directories as needed
@@ -14,6 +16,7 @@ export class WriteFileTool extends BaseTool {
   readonly name = 'write_file';
   readonly description = 'Write content to a file. Creates the file if it does not exist, and creates parent directories as needed. Overwrites existing files.';
   readonly requiresPermission = true; // Writing requires permission
+  readonly sideEffect = 'mutating';
   
   readonly parameters: ParameterDefinition[] = [
     {
@@ -30,36 +33,13 @@ export class WriteFileTool extends BaseTool {
     },
   ];
 
+  constructor(
+    private readonly fileSystem: ToolFileSystem = vscode.workspace.fs
+  ) {
+    super();
+  }
 
 
-  /**
-   * Validate and normalize file path to prevent path traversal attacks
-   * Requirements: 13.4
-   */
-  private validatePath(filePath: string): string {
-    // Get workspace folder
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      throw new Error('No workspace folder is open');
-    }
-
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    
-    // Resolve the path relative to workspace root
-    const resolvedPath = path.isAbsolute(filePath) 
-      ? filePath 
-      : path.join(workspaceRoot, filePath);
-    
-    // Normalize the path to resolve .. and .
-    const normalizedPath = path.normalize(resolvedPath);
-    
-    // Check if the normalized path is within the workspace
-    if (!normalizedPath.startsWith(workspaceRoot)) {
-      throw new Error(`Access denied: Path '${filePath}' is outside the workspace`);
-    }
-    
-    return normalizedPath;
-  }
 
   /**
    * Create parent directories if they don't exist
@@ -70,10 +50,10 @@ export class WriteFileTool extends BaseTool {
     
     try {
       // Try to stat the directory
-      await vscode.workspace.fs.stat(dirUri);
+      await this.fileSystem.stat(dirUri);
     } catch (error) {
       // Directory doesn't exist, create it
-      await vscode.workspace.fs.createDirectory(dirUri);
+      await this.fileSystem.createDirectory(dirUri);
     }
   }
 
@@ -87,7 +67,7 @@ export class WriteFileTool extends BaseTool {
     
     try {
       // Validate and normalize the path
-      const validatedPath = this.validatePath(filePath);
+      const validatedPath = resolveWorkspacePath(filePath);
       
       // Ensure parent directories exist
       await this.ensureDirectoryExists(validatedPath);
@@ -95,7 +75,7 @@ export class WriteFileTool extends BaseTool {
       // Write the file using VSCode API
       const uri = vscode.Uri.file(validatedPath);
       const contentBuffer = Buffer.from(content, 'utf-8');
-      await vscode.workspace.fs.writeFile(uri, contentBuffer);
+      await this.fileSystem.writeFile(uri, contentBuffer);
       
       // Count lines for feedback
       const lineCount = content.split('\n').length;
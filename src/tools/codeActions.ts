@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import { parseNumberParam, type ParameterDefinition } from "./Tool";
+import { resolveWorkspacePath } from "./workspacePaths";
+
+/**
+ * Parameters of the tools that work on a range of lines
+ */
+export const RANGE_PARAMETERS: ParameterDefinition[] = [
+  {
+    name: "path",
+    type: "string",
+    required: true,
+    description: "The relative or absolute path to the file",
+  },
+  {
+    name: "start_line",
+    type: "number",
+    required: true,
+    description: "1-based first line of the range, e.g. the line of an error",
+  },
+  {
+    name: "end_line",
+    type: "number",
+    required: false,
+    description: "1-based last line of the range. Defaults to start_line.",
+  },
+];
+
+/**
+ * Whether the parameters give a file and a range of lines. Numbers may be
+ * written as strings.
+ */
+export const isValidRange = (params: Record<string, any>): boolean => {
+  const startLine = parseNumberParam(params.start_line);
+  const endLine = parseNumberParam(params.end_line);
+  return (
+    typeof params.path === "string" &&
+    startLine !== undefined &&
+    Number.isInteger(startLine) &&
+    startLine > 0 &&
+    (endLine === undefined ||
+      (Number.isInteger(endLine) && endLine >= startLine))
+  );
+};
+
+/**
+ * Resolve the whole lines the parameters give
+ * @throws Error if the path is outside the workspace or the lines do not
+ * exist
+ */
+export const resolveSourceRange = async (
+  params: Record<string, any>
+): Promise<{ uri: vscode.Uri; range: vscode.Range }> => {
+  const filePath = params.path as string;
+  const uri = vscode.Uri.file(resolveWorkspacePath(filePath));
+  const document = await vscode.workspace.openTextDocument(uri);
+
+  const startLine = (parseNumberParam(params.start_line) ?? 1) - 1;
+  const endLine = (parseNumberParam(params.end_line) ?? startLine + 1) - 1;
+  if (endLine >= document.lineCount) {
+    throw new Error(
+      `Line ${endLine + 1} is past the end of ${filePath}, which has ${document.lineCount} lines`
+    );
+  }
+  return {
+    uri,
+    range: new vscode.Range(
+      startLine,
+      0,
+      endLine,
+      document.lineAt(endLine).text.length
+    ),
+  };
+};
+
+/**
+ * Code actions and quick fixes the language servers offer for a range
+ * @param resolveCount Number of actions whose edits are resolved. Edits of
+ * refactorings are often only computed when resolved.
+ */
+export const getCodeActions = async (
+  uri: vscode.Uri,
+  range: vscode.Range,
+  resolveCount = 0
+): Promise<(vscode.CodeAction | vscode.Command)[]> =>
+  (await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[]>(
+    "vscode.executeCodeActionProvider",
+    uri,
+    range,
+    undefined,
+    resolveCount
+  )) ?? [];
+
+/**
+ * Whether an action is a plain command rather than a code action
+ */
+export const isCommand = (
+  action: vscode.CodeAction | vscode.Command
+): action is vscode.Command => typeof action.command === "string";
+
+/**
+ * Format an action as its title with its kind, e.g.
+ * `Add missing import [quickfix] (preferred)`
+ */
+export const formatCodeAction = (
+  action: vscode.CodeAction | vscode.Command
+): string => {
+  if (isCommand(action)) {
+    return `${action.title} [command]`;
+  }
+  const kind = action.kind ? ` [${action.kind.value}]` : "";
+  const preferred = action.isPreferred ? " (preferred)" : "";
+  const disabled = action.disabled
+    ? ` (disabled: ${action.disabled.reason})`
+    : "";
+  return `${action.title}${kind}${preferred}${disabled}`;
+};
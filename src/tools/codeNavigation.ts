@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import { parseNumberParam, type ParameterDefinition } from "./Tool";
+import { resolveWorkspacePath, toWorkspacePath } from "./workspacePaths";
+
+/** Locations listed by a navigation tool; the rest are only counted */
+export const MAX_LOCATIONS = 100;
+/** Characters of the source line shown after a location */
+const MAX_PREVIEW_CHARS = 120;
+
+/**
+ * Parameters of the tools that start at a symbol in a file
+ */
+export const POSITION_PARAMETERS: ParameterDefinition[] = [
+  {
+    name: "path",
+    type: "string",
+    required: true,
+    description:
+      "The relative or absolute path to the file containing the symbol",
+  },
+  {
+    name: "line",
+    type: "number",
+    required: true,
+    description: "1-based line of the symbol",
+  },
+  {
+    name: "symbol",
+    type: "string",
+    required: false,
+    description:
+      "Name of the symbol on that line; its first occurrence on the line is used. Required unless column is given.",
+  },
+  {
+    name: "column",
+    type: "number",
+    required: false,
+    description: "1-based column of the symbol, instead of symbol",
+  },
+];
+
+/**
+ * Whether the parameters locate a symbol: a path, a line, and a symbol
+ * name or column. Numbers may be written as strings.
+ */
+export const isValidPosition = (params: Record<string, any>): boolean => {
+  const line = parseNumberParam(params.line);
+  const column = parseNumberParam(params.column);
+  const hasSymbol =
+    typeof params.symbol === "string" && params.symbol.trim() !== "";
+  return (
+    typeof params.path === "string" &&
+    line !== undefined &&
+    Number.isInteger(line) &&
+    line > 0 &&
+    (column === undefined || (Number.isInteger(column) && column > 0)) &&
+    (hasSymbol || column !== undefined)
+  );
+};
+
+export type SourcePosition = {
+  uri: vscode.Uri;
+  position: vscode.Position;
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Resolve the position the parameters point at. A symbol name is looked up
+ * as a whole word first, so `get` does not match inside `getUser`.
+ * @throws Error if the path is outside the workspace, or the line or symbol
+ * does not exist
+ */
+export const resolveSourcePosition = async (
+  params: Record<string, any>
+): Promise<SourcePosition> => {
+  const filePath = params.path as string;
+  const uri = vscode.Uri.file(resolveWorkspacePath(filePath));
+  const document = await vscode.workspace.openTextDocument(uri);
+
+  const line = (parseNumberParam(params.line) ?? 1) - 1;
+  if (line >= document.lineCount) {
+    throw new Error(
+      `Line ${line + 1} is past the end of ${filePath}, which has ${document.lineCount} lines`
+    );
+  }
+  const text = document.lineAt(line).text;
+
+  const column = parseNumberParam(params.column);
+  if (column !== undefined) {
+    return {
+      uri,
+      position: new vscode.Position(line, Math.min(column - 1, text.length)),
+    };
+  }
+
+  const symbol = (params.symbol as string).trim();
+  const wholeWord = new RegExp(
+    `(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`
+  ).exec(text);
+  const index = wholeWord ? wholeWord.index : text.indexOf(symbol);
+  if (index === -1) {
+    throw new Error(
+      `Symbol "${symbol}" not found on line ${line + 1} of ${filePath}: ${text.trim()}`
+    );
+  }
+  return { uri, position: new vscode.Position(line, index) };
+};
+
+/**
+ * Name of a symbol kind, e.g. `Class`
+ */
+export const formatSymbolKind = (kind: vscode.SymbolKind): string =>
+  vscode.SymbolKind[kind] ?? "Unknown";
+
+/**
+ * Format a location as `path:line`, followed by its source line when the
+ * file is one the tools may read
+ */
+export const formatLocation = async (
+  uri: vscode.Uri,
+  range: vscode.Range
+): Promise<string> => {
+  const location = `${toWorkspacePath(uri.fsPath)}:${range.start.line + 1}`;
+  try {
+    resolveWorkspacePath(uri.fsPath);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const preview = document
+      .lineAt(range.start.line)
+      .text.trim()
+      .slice(0, MAX_PREVIEW_CHARS);
+    return preview ? `${location}: ${preview}` : location;
+  } catch {
+    // Outside the workspace, denied, or no longer there
+    return location;
+  }
+};
+
+/**
+ * Format locations one per line, up to MAX_LOCATIONS
+ */
+export const formatLocations = async (
+  locations: (vscode.Location | vscode.LocationLink)[]
+): Promise<string> => {
+  const lines: string[] = [];
+  for (const location of locations.slice(0, MAX_LOCATIONS)) {
+    lines.push(
+      "targetUri" in location
+        ? await formatLocation(
+            location.targetUri,
+            location.targetSelectionRange ?? location.targetRange
+          )
+        : await formatLocation(location.uri, location.range)
+    );
+  }
+  if (locations.length > MAX_LOCATIONS) {
+    lines.push(`... ${locations.length - MAX_LOCATIONS} more`);
+  }
+  return lines.join("\n");
+};
@@ -8,3 +8,22 @@ export interface FileChangeRecord {
 export interface FileChangeTracker {
   recordChange(change: FileChangeRecord): void;
 }
+
+/**
+ * Tools that modify the file given in their `path` parameter
+ */
+export const FILE_CHANGE_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "write_file",
+  "apply_diff",
+  "insert_content",
+]);
+
+/**
+ * Tools that change files they only know once they run. Their checkpoint
+ * records the files they pass to `authorizeFileChanges`.
+ */
+export const WORKSPACE_EDIT_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "apply_patch",
+  "rename_symbol",
+  "apply_code_action",
+]);
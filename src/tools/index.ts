@@ -2,15 +2,46 @@
  * Tool system exports
  */
 
-export { Tool, BaseTool, ParameterDefinition, ToolDefinition } from './Tool';
+export {
+  Tool,
+  BaseTool,
+  ParameterDefinition,
+  ToolDefinition,
+  ToolExecutionContext,
+  ToolSideEffect,
+  parseNumberParam,
+} from './Tool';
 export { ToolExecutor } from './ToolExecutor';
+export type { ToolFileSystem } from './toolFileSystem';
+export {
+  WorkspaceRoot,
+  getWorkspaceRoots,
+  resolveWorkspacePath,
+  toWorkspacePath,
+  updatePathSandboxSettings,
+} from './workspacePaths';
 export { AttemptCompletionTool } from './AttemptCompletionTool';
 export { ReadFileTool } from './ReadFileTool';
 export { WriteFileTool } from './WriteFileTool';
 export { ListFilesTool } from './ListFilesTool';
 export { ApplyDiffTool } from './ApplyDiffTool';
+export { ApplyPatchTool } from './ApplyPatchTool';
 export { InsertContentTool } from './InsertContentTool';
 export { SearchFilesTool } from './SearchFilesTool';
+export { SearchCodebaseTool } from './SearchCodebaseTool';
 export { ExecuteCommandTool } from './ExecuteCommandTool';
 export { GetDiagnosticsTool } from './GetDiagnosticsTool';
 export { ListCodeDefinitionNamesTool } from './ListCodeDefinitionNamesTool';
+export { FindSymbolTool } from './FindSymbolTool';
+export { GoToDefinitionTool } from './GoToDefinitionTool';
+export { FindReferencesTool } from './FindReferencesTool';
+export { GetHoverInfoTool } from './GetHoverInfoTool';
+export { GetCallHierarchyTool } from './GetCallHierarchyTool';
+export { RenameSymbolTool } from './RenameSymbolTool';
+export { GetCodeActionsTool } from './GetCodeActionsTool';
+export { ApplyCodeActionTool } from './ApplyCodeActionTool';
+export { StartProcessTool } from './StartProcessTool';
+export { ReadProcessOutputTool } from './ReadProcessOutputTool';
+export { WaitForProcessOutputTool } from './WaitForProcessOutputTool';
+export { SendProcessInputTool } from './SendProcessInputTool';
+export { StopProcessTool } from './StopProcessTool';
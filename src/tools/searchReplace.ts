@@ -0,0 +1,599 @@
+/** Minimum similarity of a fuzzy match, from 0 to 1 */
+export const FUZZY_MATCH_THRESHOLD = 0.9;
+/** Minimum similarity of each line of a fuzzy match */
+export const FUZZY_LINE_THRESHOLD = 0.6;
+/** Lines before and after the start line hint a fuzzy match may start at */
+const FUZZY_SEARCH_RADIUS = 100;
+/** Character pairs compared when looking for a fuzzy match */
+const MAX_FUZZY_COMPARISONS = 50000000;
+/** Lines of the closest region shown when a search text is not found */
+const MAX_CLOSEST_LINES = 20;
+
+/**
+ * One edit of an apply_diff call
+ */
+export type SearchReplaceBlock = {
+  search: string;
+  replace: string;
+  /** 1-based line where the search text is expected to start */
+  startLine?: number;
+};
+
+/**
+ * Where a block matched and what replaces it
+ */
+export type BlockMatch = {
+  /** Offsets of the replaced text in the content */
+  start: number;
+  end: number;
+  replacement: string;
+  /** 1-based lines of the replaced text */
+  startLine: number;
+  endLine: number;
+  /**
+   * `exact` for a literal match, `whitespace` when only whitespace and
+   * indentation differ, `fuzzy` for a match above the similarity threshold
+   */
+  kind: "exact" | "whitespace" | "fuzzy";
+  similarity: number;
+};
+
+type SourceLine = {
+  text: string;
+  /** Line ending, empty for the last line of a file without one */
+  eol: string;
+  /** Offset of the line in the content */
+  offset: number;
+};
+
+const SEARCH_MARKER = /^<{7}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={7}\s*$/;
+const REPLACE_MARKER = /^>{7}\s*REPLACE\s*$/;
+const METADATA_SEPARATOR = /^-{7}\s*$/;
+const START_LINE_METADATA = /^:start_line:\s*(\d+)\s*$/;
+/** A marker line of the text itself, escaped with a backslash */
+const ESCAPED_MARKER =
+  /^\\(?=<{7}\s*SEARCH\s*$|={7}\s*$|>{7}\s*REPLACE\s*$|-{7}\s*$)/;
+
+const unescapeMarker = (line: string): string =>
+  ESCAPED_MARKER.test(line) ? line.slice(1) : line;
+
+/**
+ * Parse SEARCH/REPLACE blocks:
+ *
+ * ```
+ * <<<<<<< SEARCH
+ * :start_line:12
+ * -------
+ * old text
+ * =======
+ * new text
+ * >>>>>>> REPLACE
+ * ```
+ *
+ * The `:start_line:` hint and the `-------` line after it are optional.
+ * Lines of the texts that look like markers are written with a leading
+ * backslash, e.g. `\=======`.
+ * @throws Error if a block is not closed, has more than one divider, or
+ * the diff has no blocks
+ */
+export const parseSearchReplaceBlocks = (
+  diff: string
+): SearchReplaceBlock[] => {
+  const blocks: SearchReplaceBlock[] = [];
+  const lines = diff.split(/\r?\n/);
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!SEARCH_MARKER.test(lines[index])) {
+      index++;
+      continue;
+    }
+    const blockNumber = blocks.length + 1;
+    index++;
+
+    let startLine: number | undefined;
+    const metadata = START_LINE_METADATA.exec(lines[index] ?? "");
+    if (metadata) {
+      startLine = Number(metadata[1]);
+      index++;
+    }
+    if (METADATA_SEPARATOR.test(lines[index] ?? "")) {
+      index++;
+    }
+
+    // The block ends at its REPLACE marker, unless the next block starts first
+    const body: string[] = [];
+    while (
+      index < lines.length &&
+      !REPLACE_MARKER.test(lines[index]) &&
+      !SEARCH_MARKER.test(lines[index])
+    ) {
+      body.push(lines[index++]);
+    }
+    const dividers = body
+      .map((line, bodyIndex) => (DIVIDER_MARKER.test(line) ? bodyIndex : -1))
+      .filter((bodyIndex) => bodyIndex !== -1);
+    if (!REPLACE_MARKER.test(lines[index] ?? "") || dividers.length === 0) {
+      throw new Error(
+        `Block ${blockNumber} is not closed. Each block needs a "=======" line and ends with ">>>>>>> REPLACE".`
+      );
+    }
+    if (dividers.length > 1) {
+      throw new Error(
+        `Block ${blockNumber} has ${dividers.length} "=======" lines, so it is unclear where the search text ends. Write the ones that belong to the search or replace text as "\\=======".`
+      );
+    }
+    index++;
+
+    blocks.push({
+      search: body.slice(0, dividers[0]).map(unescapeMarker).join("\n"),
+      replace: body
+        .slice(dividers[0] + 1)
+        .map(unescapeMarker)
+        .join("\n"),
+      startLine,
+    });
+  }
+
+  if (blocks.length === 0) {
+    throw new Error(
+      'The diff has no blocks. Each block starts with "<<<<<<< SEARCH".'
+    );
+  }
+  return blocks;
+};
+
+const splitLines = (content: string): SourceLine[] => {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+  for (const raw of content.split(/(?<=\n)/)) {
+    const eol = /\r?\n$/.exec(raw)?.[0] ?? "";
+    lines.push({ text: raw.slice(0, raw.length - eol.length), eol, offset });
+    offset += raw.length;
+  }
+  return lines;
+};
+
+/**
+ * Lines of a search or replace text, without the line break a text may end
+ * with
+ */
+const toLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+const normalizeWhitespace = (line: string): string =>
+  line.trim().replace(/\s+/g, " ");
+
+const leadingWhitespace = (line: string): string =>
+  /^\s*/.exec(line)?.[0] ?? "";
+
+/**
+ * Similarity of two strings from their edit distance, from 0 to 1
+ */
+const similarity = (a: string, b: string): number => {
+  if (a === b) {
+    return 1;
+  }
+  const longest = Math.max(a.length, b.length);
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+type SimilarLines = { first: number; similarity: number };
+
+/**
+ * Look for the lines most similar to the search lines, comparing them line
+ * by line without whitespace. With a start line hint, only lines near it
+ * are looked at, nearest first, so ties go to the nearest lines. The work
+ * is bounded by MAX_FUZZY_COMPARISONS.
+ * @returns The most similar lines that pass both thresholds, the most
+ * similar lines seen for the error message, and whether the search ran
+ * out of work before looking at every place
+ */
+const findSimilarLines = (
+  lines: string[],
+  searchLines: string[],
+  startLine: number | undefined
+): { best?: SimilarLines; closest?: SimilarLines; exhausted: boolean } => {
+  let firsts = Array.from(
+    { length: Math.max(lines.length - searchLines.length + 1, 0) },
+    (_, first) => first
+  );
+  if (startLine !== undefined) {
+    const hint = startLine - 1;
+    firsts = firsts
+      .filter((first) => Math.abs(first - hint) <= FUZZY_SEARCH_RADIUS)
+      .sort((a, b) => Math.abs(a - hint) - Math.abs(b - hint));
+  }
+
+  let best: SimilarLines | undefined;
+  let closest: SimilarLines | undefined;
+  let comparisons = 0;
+  for (const first of firsts) {
+    let total = 0;
+    let passed = true;
+    for (let index = 0; index < searchLines.length; index++) {
+      const line = lines[first + index];
+      const search = searchLines[index];
+      let lineSimilarity = 0;
+      // Lines of very different lengths are too different, which is
+      // cheaper to tell than their edit distance
+      if (
+        Math.min(line.length, search.length) >=
+        FUZZY_LINE_THRESHOLD * Math.max(line.length, search.length)
+      ) {
+        comparisons += line.length * search.length;
+        if (comparisons > MAX_FUZZY_COMPARISONS) {
+          return { best, closest, exhausted: true };
+        }
+        lineSimilarity = similarity(line, search);
+      }
+      total += lineSimilarity;
+
+      // Stop once a line is too different, or the lines cannot pass the
+      // threshold or beat the best ones so far
+      const bound =
+        (total + searchLines.length - index - 1) / searchLines.length;
+      if (
+        lineSimilarity < FUZZY_LINE_THRESHOLD ||
+        bound < FUZZY_MATCH_THRESHOLD ||
+        bound <= (best?.similarity ?? 0)
+      ) {
+        passed = false;
+        break;
+      }
+    }
+
+    const windowSimilarity = total / searchLines.length;
+    if (!closest || windowSimilarity > closest.similarity) {
+      closest = { first, similarity: windowSimilarity };
+    }
+    if (passed) {
+      best = { first, similarity: windowSimilarity };
+    }
+  }
+  return { best, closest, exhausted: false };
+};
+
+/**
+ * Candidate nearest to the start line hint. Without a hint, only a single
+ * candidate is accepted.
+ * @returns The candidate, or undefined if there are several and no hint
+ */
+const pickCandidate = (
+  candidates: number[],
+  startLine: number | undefined,
+  lineOf: (candidate: number) => number
+): number | undefined => {
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+  if (startLine === undefined) {
+    return undefined;
+  }
+  return candidates.reduce((best, candidate) =>
+    Math.abs(lineOf(candidate) - startLine) < Math.abs(lineOf(best) - startLine)
+      ? candidate
+      : best
+  );
+};
+
+const ambiguousMatchError = (lineNumbers: number[]): Error =>
+  new Error(
+    `Search text appears multiple times, at lines ${lineNumbers.join(", ")}. ` +
+      "Set start_line to the line of the one to change, or add context to the search text."
+  );
+
+/**
+ * Move a line by the difference between the indentation of a search line
+ * and of the file line it matched
+ */
+const moveIndent = (
+  line: string,
+  searchIndent: string,
+  actualIndent: string
+): string => {
+  if (searchIndent === actualIndent) {
+    return line;
+  }
+  if (line.startsWith(searchIndent)) {
+    return actualIndent + line.slice(searchIndent.length);
+  }
+  // Outdented from the search line, by as much from the file line
+  const indent = leadingWhitespace(line);
+  if (searchIndent.startsWith(indent)) {
+    const outdent = searchIndent.length - indent.length;
+    return (
+      actualIndent.slice(0, Math.max(actualIndent.length - outdent, 0)) +
+      line.slice(indent.length)
+    );
+  }
+  return line;
+};
+
+/**
+ * Re-indent replacement lines line by line. A replacement line that keeps
+ * a search line moves like the file line that search line matched. A new
+ * line moves like the kept line with the most of its indentation, the
+ * nearest one above it when there are several.
+ */
+const reindent = (
+  replaceLines: string[],
+  searchLines: string[],
+  matchedLines: SourceLine[]
+): string[] => {
+  const firstSearchLine = searchLines.findIndex((line) => line.trim() !== "");
+  if (firstSearchLine === -1) {
+    return replaceLines;
+  }
+
+  // Pair kept lines with their search lines, in order, by the longest
+  // common subsequence of the lines without whitespace
+  const replaceText = replaceLines.map(normalizeWhitespace);
+  const searchText = searchLines.map(normalizeWhitespace);
+  const isPair = (i: number, j: number) =>
+    replaceText[i] !== "" && replaceText[i] === searchText[j];
+  const common = Array.from({ length: replaceLines.length + 1 }, () =>
+    new Array<number>(searchLines.length + 1).fill(0)
+  );
+  for (let i = replaceLines.length - 1; i >= 0; i--) {
+    for (let j = searchLines.length - 1; j >= 0; j--) {
+      common[i][j] = isPair(i, j)
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+  const pairs = new Map<number, number>();
+  for (let i = 0, j = 0; i < replaceLines.length && j < searchLines.length;) {
+    if (isPair(i, j)) {
+      pairs.set(i++, j++);
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const searchIndent = (j: number) => leadingWhitespace(searchLines[j]);
+  const anchorOf = (index: number, indent: string): number => {
+    // Kept lines above come first, then the ones below, nearest first
+    const distance = (i: number) =>
+      i < index ? index - i : i - index + replaceLines.length;
+    let anchor: [number, number] | undefined;
+    for (const [i, j] of pairs) {
+      if (!indent.startsWith(searchIndent(j))) {
+        continue;
+      }
+      const length = searchIndent(j).length;
+      const bestLength = anchor ? searchIndent(anchor[1]).length : -1;
+      if (
+        length > bestLength ||
+        (anchor && length === bestLength && distance(i) < distance(anchor[0]))
+      ) {
+        anchor = [i, j];
+      }
+    }
+    return anchor?.[1] ?? firstSearchLine;
+  };
+
+  return replaceLines.map((line, index) => {
+    if (line.trim() === "") {
+      return line;
+    }
+    const anchor = pairs.get(index) ?? anchorOf(index, leadingWhitespace(line));
+    return moveIndent(
+      line,
+      searchIndent(anchor),
+      leadingWhitespace(matchedLines[anchor].text)
+    );
+  });
+};
+
+/**
+ * Build the match of a block that replaces whole lines
+ */
+const lineMatch = (
+  lines: SourceLine[],
+  first: number,
+  searchLines: string[],
+  replaceLines: string[],
+  kind: BlockMatch["kind"],
+  matchSimilarity: number
+): BlockMatch => {
+  const last = first + searchLines.length - 1;
+  const matched = lines.slice(first, last + 1);
+  const eol =
+    matched.find((line) => line.eol)?.eol ??
+    lines.find((line) => line.eol)?.eol ??
+    "\n";
+  const replacement = reindent(replaceLines, searchLines, matched).join(eol);
+  const end = lines[last].offset + lines[last].text.length;
+
+  return {
+    start: lines[first].offset,
+    // Deleting whole lines removes their line break too
+    end: replacement === "" ? end + lines[last].eol.length : end,
+    replacement,
+    startLine: first + 1,
+    endLine: last + 1,
+    kind,
+    similarity: matchSimilarity,
+  };
+};
+
+/**
+ * Find where a block applies. Exact matches are preferred, then matches
+ * differing only in whitespace, then the most similar lines above the
+ * threshold.
+ * @throws Error if the search text is not found or is ambiguous, with the
+ * closest region of the content when nothing matches
+ */
+export const findBlockMatch = (
+  content: string,
+  block: SearchReplaceBlock
+): BlockMatch => {
+  if (block.search === "") {
+    throw new Error("Search text is empty.");
+  }
+  const lines = splitLines(content);
+  const eol = lines.find((line) => line.eol)?.eol ?? "\n";
+  const lineAtOffset = (offset: number): number =>
+    content.slice(0, offset).split("\n").length;
+
+  // Exact text, with the line breaks of the file
+  const search = block.search.replace(/\r?\n/g, eol);
+  const offsets: number[] = [];
+  for (
+    let offset = content.indexOf(search);
+    offset !== -1;
+    offset = content.indexOf(search, offset + 1)
+  ) {
+    offsets.push(offset);
+  }
+  if (offsets.length > 0) {
+    const offset = pickCandidate(offsets, block.startLine, lineAtOffset);
+    if (offset === undefined) {
+      throw ambiguousMatchError(offsets.map(lineAtOffset));
+    }
+    return {
+      start: offset,
+      end: offset + search.length,
+      replacement: block.replace.replace(/\r?\n/g, eol),
+      startLine: lineAtOffset(offset),
+      endLine: lineAtOffset(offset + search.length - 1),
+      kind: "exact",
+      similarity: 1,
+    };
+  }
+
+  const searchLines = toLines(block.search);
+  const replaceLines = block.replace === "" ? [] : toLines(block.replace);
+  const normalizedSearch = searchLines.map(normalizeWhitespace);
+  const normalizedLines = lines.map((line) => normalizeWhitespace(line.text));
+  const lastStart = lines.length - searchLines.length;
+
+  // The same lines, apart from whitespace and indentation
+  const candidates: number[] = [];
+  for (let first = 0; first <= lastStart; first++) {
+    if (
+      normalizedSearch.every(
+        (line, index) => normalizedLines[first + index] === line
+      )
+    ) {
+      candidates.push(first);
+    }
+  }
+  if (candidates.length > 0) {
+    const first = pickCandidate(
+      candidates,
+      block.startLine,
+      (candidate) => candidate + 1
+    );
+    if (first === undefined) {
+      throw ambiguousMatchError(candidates.map((candidate) => candidate + 1));
+    }
+    return lineMatch(lines, first, searchLines, replaceLines, "whitespace", 1);
+  }
+
+  const { best, closest, exhausted } = findSimilarLines(
+    normalizedLines,
+    normalizedSearch,
+    block.startLine
+  );
+  if (best && !exhausted) {
+    return lineMatch(
+      lines,
+      best.first,
+      searchLines,
+      replaceLines,
+      "fuzzy",
+      best.similarity
+    );
+  }
+
+  let message = "Search text not found.";
+  if (exhausted) {
+    message +=
+      block.startLine === undefined
+        ? " The file is too large to look for similar text everywhere; set start_line to where the text is expected."
+        : ` The lines around line ${block.startLine} are too long to look for similar text; copy the search text exactly.`;
+  }
+  if (closest && closest.similarity > 0) {
+    const region = lines
+      .slice(closest.first, closest.first + searchLines.length)
+      .slice(0, MAX_CLOSEST_LINES)
+      .map((line, index) => `${closest.first + index + 1} | ${line.text}`);
+    message +=
+      ` The closest region is ${Math.round(closest.similarity * 100)}% similar` +
+      ` (at least ${Math.round(FUZZY_MATCH_THRESHOLD * 100)}% is needed, and ${Math.round(FUZZY_LINE_THRESHOLD * 100)}% for each line), at lines ${closest.first + 1}-${closest.first + searchLines.length}:\n` +
+      region.join("\n");
+  }
+  throw new Error(message);
+};
+
+/**
+ * Apply blocks to a content at once. Every block is matched against the
+ * content as given, so start lines refer to it, and no block may overlap
+ * another.
+ * @throws Error naming the first block that cannot be applied
+ */
+export const applySearchReplaceBlocks = (
+  content: string,
+  blocks: SearchReplaceBlock[]
+): { content: string; matches: BlockMatch[] } => {
+  const label = (index: number) =>
+    blocks.length > 1 ? `Block ${index + 1}: ` : "";
+
+  const matches = blocks.map((block, index) => {
+    try {
+      return findBlockMatch(content, block);
+    } catch (error) {
+      throw new Error(
+        label(index) + (error instanceof Error ? error.message : String(error))
+      );
+    }
+  });
+
+  const order = matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) => a.match.start - b.match.start);
+  for (let position = 1; position < order.length; position++) {
+    const previous = order[position - 1];
+    const current = order[position];
+    if (current.match.start < previous.match.end) {
+      throw new Error(
+        `${label(current.index)}Overlaps block ${previous.index + 1} at lines ${current.match.startLine}-${previous.match.endLine}. Merge them into one block.`
+      );
+    }
+  }
+
+  let result = content;
+  for (const { match } of [...order].reverse()) {
+    result =
+      result.slice(0, match.start) +
+      match.replacement +
+      result.slice(match.end);
+  }
+  return { content: result, matches };
+};
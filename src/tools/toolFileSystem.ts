@@ -0,0 +1,19 @@
+import * as vscode from "vscode";
+
+/**
+ * File access used by tools. `vscode.workspace.fs` reads and writes the disk
+ * directly; the staged edit overlay keeps writes in memory until reviewed.
+ */
+export interface ToolFileSystem {
+  readFile(uri: vscode.Uri): Thenable<Uint8Array>;
+  writeFile(uri: vscode.Uri, content: Uint8Array): Thenable<void>;
+  stat(uri: vscode.Uri): Thenable<vscode.FileStat>;
+  readDirectory(uri: vscode.Uri): Thenable<[string, vscode.FileType][]>;
+  createDirectory(uri: vscode.Uri): Thenable<void>;
+  delete(uri: vscode.Uri): Thenable<void>;
+  /**
+   * Absolute paths of the files with edits kept in the overlay. New files
+   * among them are not returned by `vscode.workspace.findFiles`.
+   */
+  getStagedPaths?(): string[];
+}
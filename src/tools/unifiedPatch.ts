@@ -0,0 +1,257 @@
+import { applyPatch, parsePatch, type Hunk } from "diff";
+
+/** Context lines of a hunk that may differ from the file */
+export const MAX_FUZZ = 2;
+
+const BOM = "\uFEFF";
+const DEV_NULL = "/dev/null";
+
+/**
+ * Changes to one file. A file with both paths that differ is renamed.
+ */
+export type FilePatch = {
+  /** Path before the patch, undefined for new files */
+  oldPath?: string;
+  /** Path after the patch, undefined for deleted files */
+  newPath?: string;
+  hunks: Hunk[];
+};
+
+export type HunkResult = {
+  /** Header of the hunk, e.g. `@@ -10,4 +10,6 @@` */
+  header: string;
+  /** `fuzzy` hunks matched with some context lines differing */
+  status: "applied" | "fuzzy" | "failed";
+};
+
+const formatHunkHeader = (hunk: Hunk): string => {
+  // Empty ranges start one line earlier in the header
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+};
+
+/**
+ * Whether a line belongs to the hunk body before it, rather than starting
+ * the next hunk or file
+ */
+const isHunkBodyLine = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  const nextFile =
+    line.startsWith("--- ") && !!lines[index + 1]?.startsWith("+++ ");
+  return /^[ +\-\\]/.test(line) && !nextFile;
+};
+
+/**
+ * Rewrite the line counts of every hunk header from the lines that follow
+ * it. Models often get the counts wrong, which would fail the whole patch.
+ */
+const fixHunkHeaders = (lines: string[]): string[] => {
+  const fixed = [...lines];
+  for (let index = 0; index < fixed.length; index++) {
+    const header = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/.exec(
+      fixed[index]
+    );
+    if (!header) {
+      continue;
+    }
+
+    let oldLines = 0;
+    let newLines = 0;
+    let end = index + 1;
+    for (; end < fixed.length; end++) {
+      const line = fixed[end];
+      if (line === "") {
+        // A blank context line, unless the hunk ends here
+        let next = end + 1;
+        while (next < fixed.length && fixed[next] === "") {
+          next++;
+        }
+        if (next === fixed.length || !isHunkBodyLine(fixed, next)) {
+          break;
+        }
+        oldLines++;
+        newLines++;
+      } else if (!isHunkBodyLine(fixed, end)) {
+        break;
+      } else if (line[0] === "-") {
+        oldLines++;
+      } else if (line[0] === "+") {
+        newLines++;
+      } else if (line[0] === " ") {
+        oldLines++;
+        newLines++;
+      }
+    }
+
+    fixed[index] =
+      `@@ -${header[1]},${oldLines} +${header[2]},${newLines} @@${header[3]}`;
+    index = end - 1;
+  }
+  return fixed;
+};
+
+/**
+ * Strip the `a/` or `b/` prefix git puts before paths. `/dev/null` means
+ * the file does not exist on that side.
+ */
+const normalizePath = (
+  fileName: string | undefined,
+  prefix: "a/" | "b/"
+): string | undefined => {
+  const name = fileName?.trim();
+  if (!name || name === DEV_NULL) {
+    return undefined;
+  }
+  return name.startsWith(prefix) ? name.slice(prefix.length) : name;
+};
+
+/**
+ * Parse the changes to one file of a git diff, which can carry renames,
+ * new and deleted files in extended header lines
+ */
+const parseGitSection = (lines: string[]): FilePatch => {
+  const paths = /^diff --git a\/(.+) b\/(.+)$/.exec(lines[0]);
+  let oldPath = paths?.[1];
+  let newPath = paths?.[2];
+  let hunkStart = lines.length;
+
+  for (let index = 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (/^(---|\+\+\+|@@)\s/.test(line)) {
+      hunkStart = index;
+      break;
+    }
+    if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      throw new Error(
+        `Binary patches are not supported: ${newPath ?? oldPath ?? lines[0]}`
+      );
+    }
+    const rename = /^rename (from|to) (.+)$/.exec(line);
+    if (rename?.[1] === "from") {
+      oldPath = rename[2];
+    } else if (rename?.[1] === "to") {
+      newPath = rename[2];
+    }
+  }
+
+  const header = lines.slice(1, hunkStart);
+  const [parsed] = parsePatch(lines.slice(hunkStart).join("\n"));
+  if (parsed?.oldFileName || parsed?.newFileName) {
+    oldPath = normalizePath(parsed.oldFileName, "a/");
+    newPath = normalizePath(parsed.newFileName, "b/");
+  }
+  if (header.some((line) => line.startsWith("new file mode"))) {
+    oldPath = undefined;
+  }
+  if (header.some((line) => line.startsWith("deleted file mode"))) {
+    newPath = undefined;
+  }
+
+  return { oldPath, newPath, hunks: parsed?.hunks ?? [] };
+};
+
+/**
+ * Parse a unified diff of one or more files, such as the output of
+ * `git diff` or `diff -u`. Hunk line counts are recomputed, so wrong
+ * counts in the hunk headers do not matter.
+ * @throws Error if the patch is malformed or changes no file
+ */
+export const parseUnifiedPatch = (patch: string): FilePatch[] => {
+  // Models sometimes wrap the patch in a code fence
+  const text = patch.replace(/^\s*```[^\n]*\n/, "").replace(/\n```\s*$/, "");
+  const lines = fixHunkHeaders(text.replace(/\r\n/g, "\n").split("\n"));
+
+  const filePatches: FilePatch[] = [];
+  try {
+    const gitStarts = lines
+      .map((line, index) => (line.startsWith("diff --git ") ? index : -1))
+      .filter((index) => index !== -1);
+
+    if (gitStarts.length > 0) {
+      gitStarts.forEach((start, index) => {
+        const end = gitStarts[index + 1] ?? lines.length;
+        filePatches.push(parseGitSection(lines.slice(start, end)));
+      });
+    } else {
+      for (const parsed of parsePatch(lines.join("\n"))) {
+        if (parsed.hunks.length === 0) {
+          continue;
+        }
+        if (!parsed.oldFileName && !parsed.newFileName) {
+          throw new Error(
+            "Hunks need --- and +++ lines naming the file they change"
+          );
+        }
+        filePatches.push({
+          oldPath: normalizePath(parsed.oldFileName, "a/"),
+          newPath: normalizePath(parsed.newFileName, "b/"),
+          hunks: parsed.hunks,
+        });
+      }
+    }
+  } catch (error) {
+    throw new Error(
+      `Invalid patch: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const changes = filePatches.filter(
+    (filePatch) =>
+      filePatch.hunks.length > 0 || filePatch.oldPath !== filePatch.newPath
+  );
+  if (changes.length === 0) {
+    throw new Error("Invalid patch: it changes no file");
+  }
+  return changes;
+};
+
+/**
+ * Lines are compared without trailing whitespace. Lines past the end of
+ * the file are undefined.
+ */
+const compareLine = (
+  _lineNumber: number,
+  line: string | undefined,
+  _operation: string,
+  patchContent: string
+): boolean => line?.trimEnd() === patchContent.trimEnd();
+
+/**
+ * Apply hunks to the content of a file one at a time, so each hunk can
+ * succeed or fail on its own. A hunk is looked for near its line in the
+ * header first, and may match with up to MAX_FUZZ context lines differing.
+ * Removed lines and the context lines next to added lines must match.
+ * @returns The patched content, with the failed hunks left out, and the
+ * result of each hunk
+ */
+export const applyHunks = (
+  content: string,
+  hunks: Hunk[]
+): { content: string; results: HunkResult[] } => {
+  // The byte order mark is not part of the first line the hunks see
+  const bom = content.startsWith(BOM) ? BOM : "";
+  let patched = content.slice(bom.length);
+  // Lines added or removed by the hunks applied so far
+  let offset = 0;
+
+  const results = hunks.map((hunk): HunkResult => {
+    const header = formatHunkHeader(hunk);
+    const shifted = { ...hunk, oldStart: hunk.oldStart + offset };
+    for (let fuzzFactor = 0; fuzzFactor <= MAX_FUZZ; fuzzFactor++) {
+      const result = applyPatch(
+        patched,
+        { hunks: [shifted] },
+        { fuzzFactor, compareLine }
+      );
+      if (result !== false) {
+        patched = result;
+        offset += hunk.newLines - hunk.oldLines;
+        return { header, status: fuzzFactor === 0 ? "applied" : "fuzzy" };
+      }
+    }
+    return { header, status: "failed" };
+  });
+
+  return { content: bom + patched, results };
+};
@@ -0,0 +1,178 @@
+import * as vscode from "vscode";
+import type { ToolExecutionContext } from "./Tool";
+import type { ToolFileSystem } from "./toolFileSystem";
+import { resolveWorkspacePath, toWorkspacePath } from "./workspacePaths";
+
+const BOM = "\uFEFF";
+
+/**
+ * New content of a file changed by a workspace edit
+ */
+export type FileEdit = {
+  uri: vscode.Uri;
+  before: string;
+  after: string;
+  /** Number of text edits in the file */
+  changes: number;
+};
+
+/**
+ * Work out the new content of every file a workspace edit changes. Text
+ * edits are applied to the content the language server saw.
+ * @throws Error if a file is outside the workspace, or has unsaved or
+ * staged changes the language server has not seen
+ */
+export const computeFileEdits = async (
+  edit: vscode.WorkspaceEdit,
+  fileSystem: ToolFileSystem
+): Promise<FileEdit[]> => {
+  const fileEdits: FileEdit[] = [];
+
+  for (const [uri, textEdits] of edit.entries()) {
+    if (textEdits.length === 0) {
+      continue;
+    }
+    resolveWorkspacePath(uri.fsPath);
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const before = document.getText();
+    const current = Buffer.from(await fileSystem.readFile(uri)).toString(
+      "utf-8"
+    );
+    // Documents do not include the byte order mark of their file
+    const bom = current.startsWith(BOM) ? BOM : "";
+    if (document.isDirty || current !== bom + before) {
+      throw new Error(
+        `${toWorkspacePath(uri.fsPath)} has unsaved or staged changes. Save, commit or discard them first.`
+      );
+    }
+
+    // Apply from the end, so earlier offsets stay valid
+    const sorted = [...textEdits].sort(
+      (a, b) =>
+        document.offsetAt(b.range.start) - document.offsetAt(a.range.start)
+    );
+    let after = before;
+    for (const textEdit of sorted) {
+      after =
+        after.slice(0, document.offsetAt(textEdit.range.start)) +
+        textEdit.newText +
+        after.slice(document.offsetAt(textEdit.range.end));
+    }
+
+    fileEdits.push({
+      uri,
+      before: bom + before,
+      after: bom + after,
+      changes: textEdits.length,
+    });
+  }
+
+  return fileEdits;
+};
+
+/**
+ * One line per file, e.g. `src/user.ts: 3 changes`
+ */
+export const describeFileEdits = (fileEdits: FileEdit[]): string =>
+  fileEdits
+    .map(
+      (fileEdit) =>
+        `${toWorkspacePath(fileEdit.uri.fsPath)}: ${fileEdit.changes} ${
+          fileEdit.changes === 1 ? "change" : "changes"
+        }`
+    )
+    .join("\n");
+
+/**
+ * Ask the tool executor to authorize changes to files, which checks the
+ * edit limit of the mode and the permission rules
+ * @param details What the changes are, shown when asking for permission
+ * @throws Error if the changes are not authorized
+ */
+export const authorizeFileChanges = async (
+  filePaths: string[],
+  details: string,
+  toolName: string,
+  context?: ToolExecutionContext
+): Promise<void> => {
+  if (!context?.authorizeFileChanges) {
+    throw new Error(`${toolName} can only change files through the agent`);
+  }
+  const error = await context.authorizeFileChanges(filePaths, details);
+  if (error) {
+    throw new Error(error);
+  }
+};
+
+/**
+ * Write authorized file edits and record each file in the task diff
+ */
+export const writeFileEdits = async (
+  fileEdits: FileEdit[],
+  toolName: string,
+  fileSystem: ToolFileSystem,
+  context?: ToolExecutionContext
+): Promise<void> => {
+  for (const { uri, before, after } of fileEdits) {
+    await fileSystem.writeFile(uri, Buffer.from(after, "utf-8"));
+    context?.recordFileChange?.({ path: uri.fsPath, before, after, toolName });
+  }
+};
+
+/**
+ * Run a command, such as the command of a code action, and save and record
+ * the documents it changes. Commands edit the documents directly, so
+ * their changes are not staged. Changed files are added to the checkpoint
+ * of the tool call before they are saved.
+ * @returns Absolute paths of the changed files
+ */
+export const runCommandRecordingChanges = async (
+  command: vscode.Command,
+  toolName: string,
+  context?: ToolExecutionContext
+): Promise<string[]> => {
+  const snapshots = new Map(
+    vscode.workspace.textDocuments.map((document) => [
+      document.uri.toString(),
+      document.getText(),
+    ])
+  );
+  const changed = new Map<string, vscode.TextDocument>();
+  const listener = vscode.workspace.onDidChangeTextDocument((event) => {
+    if (
+      event.contentChanges.length > 0 &&
+      event.document.uri.scheme === "file"
+    ) {
+      changed.set(event.document.uri.toString(), event.document);
+    }
+  });
+  try {
+    await vscode.commands.executeCommand(
+      command.command,
+      ...(command.arguments ?? [])
+    );
+  } finally {
+    listener.dispose();
+  }
+
+  const changedPaths: string[] = [];
+  for (const [key, document] of changed) {
+    // Documents the command opened still have their old content on disk
+    const before =
+      snapshots.get(key) ??
+      Buffer.from(await vscode.workspace.fs.readFile(document.uri)).toString(
+        "utf-8"
+      );
+    await context?.checkpointFiles?.([document.uri.fsPath]);
+    await document.save();
+    context?.recordFileChange?.({
+      path: document.uri.fsPath,
+      before,
+      after: document.getText(),
+      toolName,
+    });
+    changedPaths.push(document.uri.fsPath);
+  }
+  return changedPaths;
+};
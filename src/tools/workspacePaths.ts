@@ -0,0 +1,226 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  DEFAULT_PATH_SANDBOX_SETTINGS,
+  type PathSandboxSettings,
+} from "code-sidecar-shared/types/config";
+import { globToRegExp } from "../managers/permissionRules";
+
+/**
+ * Workspace folder that tool paths are resolved in
+ */
+export type WorkspaceRoot = {
+  /** Folder name, the first segment of paths in multi-root workspaces */
+  name: string;
+  /** Absolute path of the folder */
+  path: string;
+};
+
+/**
+ * Folders of the open workspace, in workspace order
+ */
+export const getWorkspaceRoots = (): WorkspaceRoot[] =>
+  (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+    name: folder.name,
+    path: folder.uri.fsPath,
+  }));
+
+/**
+ * Whether a path is the root or lies below it, comparing whole segments
+ */
+export const isInsideRoot = (rootPath: string, targetPath: string): boolean => {
+  const relative = path.relative(rootPath, targetPath);
+  return (
+    relative === "" ||
+    (!relative.startsWith(`..${path.sep}`) &&
+      relative !== ".." &&
+      !path.isAbsolute(relative))
+  );
+};
+
+/**
+ * Workspace folder containing a path, the innermost one for nested folders
+ */
+export const findWorkspaceRoot = (
+  absolutePath: string,
+  roots: WorkspaceRoot[] = getWorkspaceRoots()
+): WorkspaceRoot | undefined =>
+  roots
+    .filter((root) => isInsideRoot(root.path, absolutePath))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+/** Symbolic links followed before a path is considered a loop */
+const MAX_SYMLINK_HOPS = 40;
+
+let sandboxSettings: PathSandboxSettings = DEFAULT_PATH_SANDBOX_SETTINGS;
+
+/**
+ * Set the extra roots and denied paths the tool paths are checked against
+ */
+export const updatePathSandboxSettings = (
+  settings: Partial<PathSandboxSettings>
+): void => {
+  sandboxSettings = { ...DEFAULT_PATH_SANDBOX_SETTINGS, ...settings };
+};
+
+/**
+ * Absolute path with every symbolic link resolved. The missing part of a
+ * path that does not exist yet, such as a file about to be written, is
+ * appended to its nearest existing ancestor, and dangling links are
+ * followed to where they point.
+ */
+export const canonicalizePath = (targetPath: string): string => {
+  const missing: string[] = [];
+  let current = path.resolve(targetPath);
+
+  for (let hops = 0; ;) {
+    try {
+      return path.join(fs.realpathSync.native(current), ...missing);
+    } catch {
+      let linkTarget: string | undefined;
+      try {
+        linkTarget = fs.readlinkSync(current);
+      } catch {
+        // Not a symbolic link, or missing
+      }
+
+      if (linkTarget !== undefined && hops++ < MAX_SYMLINK_HOPS) {
+        current = path.resolve(path.dirname(current), linkTarget);
+        continue;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.join(current, ...missing);
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+};
+
+/**
+ * Denied pattern matching a root-relative path or any of its parents
+ */
+const findDeniedPattern = (
+  relativePath: string,
+  deniedPaths: string[]
+): string | undefined => {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean);
+  return deniedPaths.find((pattern) => {
+    const regex = globToRegExp(pattern);
+    if (!pattern.includes("/")) {
+      return segments.some((segment) => regex.test(segment));
+    }
+    return segments.some((_, index) =>
+      regex.test(segments.slice(0, index + 1).join("/"))
+    );
+  });
+};
+
+/**
+ * Innermost of the roots containing a path
+ */
+const findContainingRoot = (
+  rootPaths: string[],
+  targetPath: string
+): string | undefined =>
+  rootPaths
+    .filter((rootPath) => isInsideRoot(rootPath, targetPath))
+    .sort((a, b) => b.length - a.length)[0];
+
+/**
+ * Resolve a path given to a tool to an absolute path inside the workspace.
+ *
+ * Relative paths are resolved against the first workspace folder. In
+ * multi-root workspaces a relative path may start with a folder name, as
+ * in `api/src/index.ts`, to address that folder. Both the path and its
+ * target after resolving symbolic links have to lie inside a workspace
+ * folder or an additional root, and neither may match a denied pattern.
+ * @throws Error if no folder is open or the path is not accessible
+ */
+export const resolveWorkspacePath = (
+  filePath: string,
+  roots: WorkspaceRoot[] = getWorkspaceRoots(),
+  settings: PathSandboxSettings = sandboxSettings
+): string => {
+  if (roots.length === 0) {
+    throw new Error("No workspace folder is open");
+  }
+
+  let resolvedPath: string;
+  if (path.isAbsolute(filePath)) {
+    resolvedPath = path.resolve(filePath);
+  } else {
+    const [firstSegment, ...rest] = filePath.split(/[\\/]/);
+    const namedRoot =
+      roots.length > 1
+        ? roots.find((root) => root.name === firstSegment)
+        : undefined;
+    resolvedPath = namedRoot
+      ? path.join(namedRoot.path, ...rest)
+      : path.join(roots[0].path, filePath);
+  }
+
+  const allowedRoots = [
+    ...roots.map((root) => path.resolve(root.path)),
+    ...settings.additionalRoots
+      .filter((rootPath) => path.isAbsolute(rootPath))
+      .map((rootPath) => path.resolve(rootPath)),
+  ];
+  const root = findContainingRoot(allowedRoots, resolvedPath);
+  if (!root) {
+    throw new Error(
+      `Access denied: Path '${filePath}' is outside the workspace`
+    );
+  }
+
+  const canonicalPath = canonicalizePath(resolvedPath);
+  const canonicalRoot = findContainingRoot(
+    allowedRoots.map(canonicalizePath),
+    canonicalPath
+  );
+  if (!canonicalRoot) {
+    throw new Error(
+      `Access denied: Path '${filePath}' is a symbolic link to '${canonicalPath}', which is outside the workspace`
+    );
+  }
+
+  const deniedPattern =
+    findDeniedPattern(
+      path.relative(root, resolvedPath),
+      settings.deniedPaths
+    ) ??
+    findDeniedPattern(
+      path.relative(canonicalRoot, canonicalPath),
+      settings.deniedPaths
+    );
+  if (deniedPattern) {
+    throw new Error(
+      `Access denied: Path '${filePath}' matches the denied pattern '${deniedPattern}'`
+    );
+  }
+
+  return resolvedPath;
+};
+
+/**
+ * Path shown to the model and accepted back by the tools: relative to the
+ * workspace folder, and prefixed with the folder name in multi-root
+ * workspaces. Paths outside the workspace stay absolute.
+ */
+export const toWorkspacePath = (
+  absolutePath: string,
+  roots: WorkspaceRoot[] = getWorkspaceRoots()
+): string => {
+  const root = findWorkspaceRoot(absolutePath, roots);
+  if (!root) {
+    return absolutePath;
+  }
+
+  const relative = path.relative(root.path, absolutePath);
+  if (roots.length === 1) {
+    return relative;
+  }
+  return relative ? path.join(root.name, relative) : root.name;
+};
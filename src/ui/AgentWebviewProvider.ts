@@ -9,27 +9,52 @@ import {
   WriteFileTool,
   ListFilesTool,
   ApplyDiffTool,
+  ApplyPatchTool,
   InsertContentTool,
   SearchFilesTool,
+  SearchCodebaseTool,
   ExecuteCommandTool,
   GetDiagnosticsTool,
   ListCodeDefinitionNamesTool,
+  FindSymbolTool,
+  GoToDefinitionTool,
+  FindReferencesTool,
+  GetHoverInfoTool,
+  GetCallHierarchyTool,
+  RenameSymbolTool,
+  GetCodeActionsTool,
+  ApplyCodeActionTool,
+  StartProcessTool,
+  ReadProcessOutputTool,
+  WaitForProcessOutputTool,
+  SendProcessInputTool,
+  StopProcessTool,
+  updatePathSandboxSettings,
 } from "../tools";
 import { ModeManager } from "../managers/ModeManager";
+import { CustomModeLoader } from "../managers/CustomModeLoader";
 import type { ApiConfiguration } from "code-sidecar-shared/types/api";
 import type { WorkMode } from "code-sidecar-shared/types/modes";
 import { PromptBuilder } from "../managers/PromptBuilder";
 import { PermissionManager } from "../managers/PermissionManager";
+import { CheckpointManager } from "../managers/CheckpointManager";
+import { StagedEditManager } from "../managers/StagedEditManager";
+import { ProcessManager } from "../managers/ProcessManager";
+import { CommandPolicy } from "../managers/CommandPolicy";
+import { IgnoreService } from "../managers/IgnoreService";
+import { CodebaseIndex } from "../indexing";
 import { ContextCollector } from "../managers/ContextCollector";
 import { ConfigurationManager } from "../config/ConfigurationManager";
 import { ConversationHistoryManager } from "../managers/ConversationHistoryManager";
 import { ErrorHandler } from "../managers/ErrorHandler";
 import { logger } from "code-sidecar-shared/utils/logger";
+import { McpClientManager } from "../mcp";
 import { ConversationController } from "./ConversationController";
 import { DiffWebviewPanel } from "./DiffWebviewPanel";
 import { MessageHandlerRegistry } from "./MessageHandlerRegistry";
 import type {
   AgentConfiguration,
+  ModeModels,
   UserMessage,
   WebviewMessage,
 } from "code-sidecar-shared/types/messages";
@@ -38,15 +63,25 @@ import type {
  * Agent Webview Provider manages the sidebar panel and task execution
  */
 export class AgentWebviewProvider implements vscode.WebviewViewProvider {
+  private static readonly LAST_MODE_KEY = "codeSidecar.lastMode";
+
   configurationManager: ConfigurationManager;
   private webview: vscode.Webview | undefined;
   private currentTask: Task | undefined = undefined;
   private toolExecutor: ToolExecutor;
   private modeManager: ModeManager;
+  private customModeLoader: CustomModeLoader;
   private promptBuilder: PromptBuilder;
   private permissionManager: PermissionManager;
   private contextCollector: ContextCollector;
   private conversationHistoryManager: ConversationHistoryManager;
+  private checkpointManager: CheckpointManager;
+  private stagedEditManager: StagedEditManager;
+  private processManager: ProcessManager;
+  private commandPolicy: CommandPolicy;
+  private ignoreService: IgnoreService;
+  private codebaseIndex: CodebaseIndex;
+  private mcpClientManager: McpClientManager;
   private errorHandler: ErrorHandler;
   private conversationController: ConversationController;
   private messageHandlerRegistry: MessageHandlerRegistry;
@@ -63,29 +98,75 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     // Initialize permission manager
     this.permissionManager = new PermissionManager();
     this.permissionManager.setWebviewProvider(this);
+    this.permissionManager.setWorkspaceRuleSaver((rule) =>
+      this.configurationManager.addPermissionRule(rule)
+    );
 
     // Initialize error handler
     this.errorHandler = new ErrorHandler();
 
+    // Initialize the staged edit overlay that file tools read and write through
+    this.stagedEditManager = new StagedEditManager();
+
+    // Initialize the manager of background processes started by tasks
+    this.processManager = new ProcessManager();
+    context.subscriptions.push(this.processManager);
+
+    // Initialize the policy that command tools are checked against
+    this.commandPolicy = new CommandPolicy();
+
+    // Initialize the ignore rules shared by the file tree, listings and search
+    this.ignoreService = new IgnoreService();
+    context.subscriptions.push(this.ignoreService);
+
+    // Initialize the semantic index searched by search_codebase
+    this.codebaseIndex = new CodebaseIndex(
+      context.storageUri ?? context.globalStorageUri,
+      this.ignoreService
+    );
+    context.subscriptions.push(this.codebaseIndex);
+
     // Initialize tool executor and register default tools
     this.toolExecutor = new ToolExecutor(
       this.permissionManager,
-      this.errorHandler
+      this.errorHandler,
+      this.stagedEditManager
     );
+    this.toolExecutor.setCommandPolicy(this.commandPolicy);
     this.registerDefaultTools();
 
+    // Initialize MCP client, server tools are registered once connected
+    this.mcpClientManager = new McpClientManager(
+      this.toolExecutor,
+      context.extension.packageJSON.version
+    );
+    context.subscriptions.push({
+      dispose: () => void this.mcpClientManager.dispose(),
+    });
+
     // Initialize mode manager and prompt builder
     this.modeManager = new ModeManager();
     this.promptBuilder = new PromptBuilder(this.modeManager, this.toolExecutor);
+    this.toolExecutor.setModeManager(this.modeManager);
+    this.customModeLoader = new CustomModeLoader(this.modeManager, () => {
+      this.postModeList();
+      void this.handleGetModeModels();
+    });
+    context.subscriptions.push(this.customModeLoader);
 
     // Initialize context collector
-    this.contextCollector = new ContextCollector();
+    this.contextCollector = new ContextCollector(this.ignoreService);
 
     // Initialize conversation history manager
     this.conversationHistoryManager = new ConversationHistoryManager(context);
 
+    // Initialize checkpoint manager
+    this.checkpointManager = new CheckpointManager(this.stagedEditManager);
+
     this.conversationController = new ConversationController({
       conversationHistoryManager: this.conversationHistoryManager,
+      checkpointManager: this.checkpointManager,
+      stagedEditManager: this.stagedEditManager,
       postMessage: (message) => this.postMessageToWebview(message),
       cancelCurrentTask: () => this.cancelCurrentTask(),
     });
@@ -95,6 +176,22 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
 
     // Load configuration and set up change listener
     this.initializeConfiguration();
+    void this.initializeModes();
+  }
+
+  /**
+   * Load the custom modes and switch to the mode used last in this workspace
+   */
+  private async initializeModes(): Promise<void> {
+    await this.customModeLoader.start();
+
+    const lastMode = this.context.workspaceState.get<WorkMode>(
+      AgentWebviewProvider.LAST_MODE_KEY
+    );
+    if (lastMode && this.modeManager.hasMode(lastMode)) {
+      this.modeManager.switchMode(lastMode);
+      this.postModeList();
+    }
   }
 
   /**
@@ -111,9 +208,14 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
 
       // Update permission settings
       this.permissionManager.updateSettings(config.permissions);
-
-      // Set default mode to 'code'
-      this.modeManager.switchMode("code");
+      this.stagedEditManager.setEnabled(config.permissions.stageEdits);
+      this.commandPolicy.updateSettings(config.advanced.commandPolicy ?? {});
+      updatePathSandboxSettings(config.advanced.pathSandbox ?? {});
+      this.codebaseIndex.updateSettings(
+        config.advanced.codebaseIndex ?? {},
+        config.api
+      );
+      void this.mcpClientManager.syncServers(config.advanced.mcpServers ?? {});
 
       logger.debug("[AgentWebviewProvider] Configuration initialized");
 
@@ -122,6 +224,19 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
         this.configurationManager.onConfigurationChanged((newConfig) => {
           this.apiConfiguration = newConfig.api;
           this.permissionManager.updateSettings(newConfig.permissions);
+          this.stagedEditManager.setEnabled(newConfig.permissions.stageEdits);
+          this.commandPolicy.updateSettings(
+            newConfig.advanced.commandPolicy ?? {}
+          );
+          updatePathSandboxSettings(newConfig.advanced.pathSandbox ?? {});
+          this.codebaseIndex.updateSettings(
+            newConfig.advanced.codebaseIndex ?? {},
+            newConfig.api
+          );
+          void this.mcpClientManager.syncServers(
+            newConfig.advanced.mcpServers ?? {}
+          );
+          this.postModeModels(newConfig);
           logger.debug("[AgentWebviewProvider] Configuration updated");
         })
       );
@@ -142,20 +257,59 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     this.toolExecutor.registerTool(new AttemptCompletionTool());
 
     // Register file operation tools (Requirements 13.1, 13.2, 13.4)
-    this.toolExecutor.registerTool(new ReadFileTool());
-    this.toolExecutor.registerTool(new WriteFileTool());
-    this.toolExecutor.registerTool(new ListFilesTool());
+    this.toolExecutor.registerTool(new ReadFileTool(this.stagedEditManager));
+    this.toolExecutor.registerTool(new WriteFileTool(this.stagedEditManager));
+    this.toolExecutor.registerTool(
+      new ListFilesTool(this.ignoreService, this.stagedEditManager)
+    );
 
     // Register advanced file editing tools (Requirements 13.3, 13.5)
-    this.toolExecutor.registerTool(new ApplyDiffTool());
-    this.toolExecutor.registerTool(new InsertContentTool());
-    this.toolExecutor.registerTool(new SearchFilesTool());
+    this.toolExecutor.registerTool(new ApplyDiffTool(this.stagedEditManager));
+    this.toolExecutor.registerTool(new ApplyPatchTool(this.stagedEditManager));
+    this.toolExecutor.registerTool(
+      new InsertContentTool(this.stagedEditManager)
+    );
+    this.toolExecutor.registerTool(
+      new SearchFilesTool(this.ignoreService, this.stagedEditManager)
+    );
+    this.toolExecutor.registerTool(new SearchCodebaseTool(this.codebaseIndex));
 
     // Register command execution and diagnostics tools (Requirements 13.5, 13.6)
-    this.toolExecutor.registerTool(new ExecuteCommandTool());
+    this.toolExecutor.registerTool(new ExecuteCommandTool(this.commandPolicy));
     this.toolExecutor.registerTool(new GetDiagnosticsTool());
     this.toolExecutor.registerTool(new ListCodeDefinitionNamesTool());
 
+    // Register code navigation tools backed by the language servers
+    this.toolExecutor.registerTool(new FindSymbolTool());
+    this.toolExecutor.registerTool(new GoToDefinitionTool());
+    this.toolExecutor.registerTool(new FindReferencesTool());
+    this.toolExecutor.registerTool(new GetHoverInfoTool());
+    this.toolExecutor.registerTool(new GetCallHierarchyTool());
+
+    // Register refactoring tools that apply language server edits
+    this.toolExecutor.registerTool(
+      new RenameSymbolTool(this.stagedEditManager)
+    );
+    this.toolExecutor.registerTool(new GetCodeActionsTool());
+    this.toolExecutor.registerTool(
+      new ApplyCodeActionTool(this.stagedEditManager)
+    );
+
+    // Register background process tools
+    this.toolExecutor.registerTool(
+      new StartProcessTool(this.processManager, this.commandPolicy)
+    );
+    this.toolExecutor.registerTool(
+      new ReadProcessOutputTool(this.processManager)
+    );
+    this.toolExecutor.registerTool(
+      new WaitForProcessOutputTool(this.processManager)
+    );
+    this.toolExecutor.registerTool(
+      new SendProcessInputTool(this.processManager)
+    );
+    this.toolExecutor.registerTool(new StopProcessTool(this.processManager));
+
     logger.debug(`Registered ${this.toolExecutor.getToolCount()} tools`);
   }
 
@@ -214,6 +368,12 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     this.messageHandlerRegistry.register("mode_change", (message) =>
       this.handleModeChange(message.mode)
     );
+    this.messageHandlerRegistry.register("get_modes", () =>
+      this.postModeList()
+    );
+    this.messageHandlerRegistry.register("get_mode_models", () =>
+      this.handleGetModeModels()
+    );
     this.messageHandlerRegistry.register("clear_conversation", () =>
       this.conversationController.handleClearConversation()
     );
@@ -245,6 +405,9 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     this.messageHandlerRegistry.register("open_diff_panel", (message) =>
       this.handleOpenDiffPanel(message.diff, message.filePath)
     );
+    this.messageHandlerRegistry.register("restore_checkpoint", (message) =>
+      this.conversationController.handleRestoreCheckpoint(message.checkpointId)
+    );
     this.messageHandlerRegistry.register("save_configuration", (message) =>
       this.handleSaveConfiguration(message.config)
     );
@@ -254,7 +417,8 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     this.messageHandlerRegistry.register("permission_response", (message) =>
       this.permissionManager.handlePermissionResponse(
         message.requestId,
-        message.approved
+        message.approved,
+        message.remember
       )
     );
     this.messageHandlerRegistry.register("cancel_task", () =>
@@ -283,7 +447,12 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
       return;
     }
 
-    const { advanced } = await this.configurationManager.getConfiguration();
+    const config = await this.configurationManager.getConfiguration();
+    const { advanced } = config;
+    const apiConfiguration = this.configurationManager.resolveApiConfiguration(
+      config,
+      this.modeManager.getCurrentMode()
+    );
 
     this.cancelCurrentTask();
 
@@ -295,7 +464,7 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
 
     this.currentTask = new Task(
       this,
-      this.apiConfiguration,
+      apiConfiguration,
       taskMessage,
       advanced.maxLoopCount,
       this.toolExecutor,
@@ -304,7 +473,10 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
       this.conversationHistoryManager,
       this.errorHandler,
       advanced.contextWindowSize,
-      displayMessage
+      displayMessage,
+      advanced.compaction,
+      advanced.cost,
+      advanced.maxParallelToolCalls
     );
     await this.currentTask.start();
   }
@@ -316,6 +488,10 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     try {
       this.modeManager.switchMode(mode);
       const modeDefinition = this.modeManager.getCurrentModeDefinition();
+      void this.context.workspaceState.update(
+        AgentWebviewProvider.LAST_MODE_KEY,
+        mode
+      );
 
       // Notify webview of mode change
       this.postMessageToWebview({
@@ -340,11 +516,55 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Send the available modes and the current mode to the webview
+   */
+  private postModeList(): void {
+    this.postMessageToWebview({
+      type: "mode_list",
+      modes: this.modeManager.getModeSummaries(),
+      currentMode: this.modeManager.getCurrentMode(),
+    });
+  }
+
+  /**
+   * Send the model used by each mode to the webview
+   */
+  private async handleGetModeModels(): Promise<void> {
+    try {
+      const config = await this.configurationManager.getConfiguration();
+      this.postModeModels(config);
+    } catch (error) {
+      logger.debug("[AgentWebviewProvider] Failed to load mode models:", error);
+    }
+  }
+
+  private postModeModels(config: AgentConfiguration): void {
+    const models: ModeModels = {};
+    for (const mode of this.modeManager.getAllModes()) {
+      const profileId = config.modeProfiles[mode.id];
+      const profile = config.profiles.find((item) => item.id === profileId);
+      const { model } = this.configurationManager.resolveApiConfiguration(
+        config,
+        mode.id
+      );
+      models[mode.id] = profile ? `${profile.name} (${model})` : model;
+    }
+
+    this.postMessageToWebview({ type: "mode_models", models });
+  }
+
   private handleOpenDiffPanel(
     diff: Extract<UserMessage, { type: "open_diff_panel" }>["diff"],
     filePath?: string
   ): void {
-    DiffWebviewPanel.show(diff, filePath);
+    DiffWebviewPanel.show(diff, filePath, {
+      onRestoreCheckpoint: (checkpointId) =>
+        this.conversationController.handleRestoreCheckpoint(checkpointId),
+      fileSystem: this.stagedEditManager,
+      onReviewApplied: (summary) =>
+        this.postMessageToWebview({ type: "diff_review_applied", summary }),
+    });
   }
 
   /**
@@ -410,6 +630,27 @@ export class AgentWebviewProvider implements vscode.WebviewViewProvider {
     return this.promptBuilder;
   }
 
+  /**
+   * Get checkpoint manager
+   */
+  getCheckpointManager(): CheckpointManager {
+    return this.checkpointManager;
+  }
+
+  /**
+   * Get staged edit manager
+   */
+  getStagedEditManager(): StagedEditManager {
+    return this.stagedEditManager;
+  }
+
+  /**
+   * Get background process manager
+   */
+  getProcessManager(): ProcessManager {
+    return this.processManager;
+  }
+
   /**
    * Get permission manager
    * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5
@@ -1,5 +1,8 @@
+import * as vscode from "vscode";
 import { HistoryItem } from "../core/apiHandler";
 import { ConversationHistoryManager } from "../managers/ConversationHistoryManager";
+import { CheckpointManager } from "../managers/CheckpointManager";
+import { StagedEditManager } from "../managers/StagedEditManager";
 import { logger } from "code-sidecar-shared/utils/logger";
 import type {
   DisplayMessage,
@@ -8,6 +11,8 @@ import type {
 
 type ConversationControllerOptions = {
   conversationHistoryManager: ConversationHistoryManager;
+  checkpointManager: CheckpointManager;
+  stagedEditManager: StagedEditManager;
   postMessage: (message: WebviewMessage) => void;
   cancelCurrentTask: () => void;
 };
@@ -43,6 +48,7 @@ export class ConversationController {
     try {
       this.options.cancelCurrentTask();
       this.options.conversationHistoryManager.clearAllConversations();
+      this.options.checkpointManager.clearAll();
 
       this.options.postMessage({
         type: "conversation_history",
@@ -238,6 +244,9 @@ export class ConversationController {
         this.options.conversationHistoryManager.deleteConversation(
           conversationId
         );
+      if (success) {
+        this.options.checkpointManager.clearConversation(conversationId);
+      }
 
       logger.debug(`[ConversationController] Delete result: ${success}`);
 
@@ -280,6 +289,74 @@ export class ConversationController {
     }
   }
 
+  /**
+   * Revert workspace files to a checkpoint and truncate the conversation to
+   * the message it was taken before
+   */
+  async handleRestoreCheckpoint(checkpointId: string): Promise<void> {
+    try {
+      const conversationId =
+        this.options.conversationHistoryManager.getCurrentConversationId() ??
+        "";
+      const checkpoint = this.options.checkpointManager.getCheckpoint(
+        conversationId,
+        checkpointId
+      );
+      if (!checkpoint) {
+        this.options.postMessage({
+          type: "error",
+          message:
+            "Checkpoint is no longer available. Checkpoints only exist for the current conversation and session.",
+        });
+        return;
+      }
+
+      const target =
+        checkpoint.kind === "task_start"
+          ? "the start of this task"
+          : `before ${checkpoint.label}`;
+      const choice = await vscode.window.showWarningMessage(
+        `Restore workspace files and conversation to ${target}? Later changes to the affected files, including your own, will be lost.`,
+        { modal: true },
+        "Restore"
+      );
+      if (choice !== "Restore") {
+        return;
+      }
+
+      this.options.cancelCurrentTask();
+      const result = await this.options.checkpointManager.restoreCheckpoint(
+        conversationId,
+        checkpointId
+      );
+      // Staged edits were made on top of the reverted files
+      this.options.stagedEditManager.discard();
+      this.options.conversationHistoryManager.truncateMessages(
+        result.messageIndex
+      );
+      this.handleGetConversationHistory();
+
+      const fileLabel = result.restoredFiles.length === 1 ? "file" : "files";
+      vscode.window.showInformationMessage(
+        `Checkpoint restored: ${result.restoredFiles.length} ${fileLabel} reverted`
+      );
+      logger.debug(
+        `[ConversationController] Restored checkpoint: ${checkpointId}`
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.debug(
+        "[ConversationController] Failed to restore checkpoint:",
+        error
+      );
+      this.options.postMessage({
+        type: "error",
+        message: `Failed to restore checkpoint: ${errorMessage}`,
+      });
+    }
+  }
+
   private getConversationPreview(messages: HistoryItem[]): string {
     const firstUserMessage = messages.find((msg) => msg.role === "user");
     if (firstUserMessage) {
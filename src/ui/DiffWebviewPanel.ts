@@ -1,7 +1,14 @@
 import * as path from "path";
 import * as vscode from "vscode";
 
-import type { TaskDiff } from "code-sidecar-shared/types/diff";
+import type {
+  DiffReviewDecisions,
+  DiffReviewSummary,
+  TaskDiff,
+} from "code-sidecar-shared/types/diff";
+import { applyDiffReview } from "../core/diffReview";
+import type { ToolFileSystem } from "../tools";
+import { logger } from "code-sidecar-shared/utils/logger";
 
 const escapeJson = (value: unknown): string =>
   JSON.stringify(value).replace(/</g, "\\u003c");
@@ -11,18 +18,34 @@ const buildTitle = (diff: TaskDiff): string => {
   return `CodeSidecar Diff (${diff.summary.filesChanged} ${fileLabel})`;
 };
 
-interface DiffWebviewMessage {
-  type: "open_file";
-  path: string;
+type DiffWebviewMessage =
+  | { type: "open_file"; path: string }
+  | { type: "restore_checkpoint"; checkpointId: string }
+  | { type: "apply_review"; decisions: DiffReviewDecisions };
+
+export interface DiffPanelOptions {
+  /** File access used to revert rejected hunks */
+  fileSystem?: ToolFileSystem;
+  onRestoreCheckpoint?: (checkpointId: string) => void;
+  /** Called after the hunk review was written to disk */
+  onReviewApplied?: (summary: DiffReviewSummary) => void;
 }
 
 export class DiffWebviewPanel {
   private static currentPanel: DiffWebviewPanel | undefined;
 
-  static show(diff: TaskDiff, filePath?: string): void {
+  private options: DiffPanelOptions = {};
+  private diff: TaskDiff;
+
+  static show(
+    diff: TaskDiff,
+    filePath?: string,
+    options: DiffPanelOptions = {}
+  ): void {
     const column = vscode.ViewColumn.Active;
 
     if (DiffWebviewPanel.currentPanel) {
+      DiffWebviewPanel.currentPanel.options = options;
       DiffWebviewPanel.currentPanel.update(diff, filePath);
       DiffWebviewPanel.currentPanel.panel.reveal(column);
       return;
@@ -38,14 +61,23 @@ export class DiffWebviewPanel {
       }
     );
 
-    DiffWebviewPanel.currentPanel = new DiffWebviewPanel(panel, diff, filePath);
+    DiffWebviewPanel.currentPanel = new DiffWebviewPanel(
+      panel,
+      diff,
+      filePath,
+      options
+    );
   }
 
   private constructor(
     private readonly panel: vscode.WebviewPanel,
     diff: TaskDiff,
-    filePath?: string
+    filePath: string | undefined,
+    options: DiffPanelOptions
   ) {
+    this.diff = diff;
+    this.options = options;
+
     this.panel.onDidDispose(() => {
       DiffWebviewPanel.currentPanel = undefined;
     });
@@ -53,6 +85,10 @@ export class DiffWebviewPanel {
     this.panel.webview.onDidReceiveMessage((message: DiffWebviewMessage) => {
       if (message?.type === "open_file") {
         void this.openDiffFile(message.path);
+      } else if (message?.type === "restore_checkpoint") {
+        this.options.onRestoreCheckpoint?.(message.checkpointId);
+      } else if (message?.type === "apply_review") {
+        void this.applyReview(message.decisions);
       }
     });
 
@@ -83,7 +119,25 @@ export class DiffWebviewPanel {
     vscode.window.showWarningMessage(`Unable to open file: ${filePath}`);
   }
 
+  private async applyReview(decisions: DiffReviewDecisions): Promise<void> {
+    try {
+      const summary = await applyDiffReview(
+        this.diff,
+        decisions,
+        this.options.fileSystem
+      );
+      void this.panel.webview.postMessage({ type: "review_applied", summary });
+      this.options.onReviewApplied?.(summary);
+    } catch (error) {
+      logger.error("[DiffWebviewPanel] Failed to apply diff review:", error);
+      vscode.window.showErrorMessage(
+        `Failed to apply diff review: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   private update(diff: TaskDiff, filePath?: string): void {
+    this.diff = diff;
     this.panel.title = buildTitle(diff);
     this.panel.webview.html = this.render(diff, filePath);
   }
@@ -91,6 +145,8 @@ export class DiffWebviewPanel {
   private render(diff: TaskDiff, filePath?: string): string {
     const diffJson = escapeJson(diff);
     const filePathJson = escapeJson(filePath ?? "");
+    const canRestore =
+      !!diff.checkpointId && !!this.options.onRestoreCheckpoint;
 
     return `<!doctype html>
 <html lang="en">
@@ -221,6 +277,60 @@ export class DiffWebviewPanel {
       .file-open:hover {
         background: var(--vscode-list-hoverBackground);
       }
+      .restore {
+        margin-top: 8px;
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        border: none;
+        padding: 4px 10px;
+        border-radius: 6px;
+        font-size: 11px;
+        cursor: pointer;
+      }
+      .restore:hover {
+        background: var(--vscode-button-secondaryHoverBackground);
+      }
+      .header-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 6px;
+      }
+      .apply {
+        margin-top: 8px;
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+        border: none;
+        padding: 4px 10px;
+        border-radius: 6px;
+        font-size: 11px;
+        cursor: pointer;
+      }
+      .apply:hover {
+        background: var(--vscode-button-hoverBackground);
+      }
+      .apply:disabled,
+      .decision:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+      .decision {
+        background: transparent;
+        border: 1px solid var(--vscode-panel-border);
+        padding: 2px 8px;
+        border-radius: 6px;
+        color: var(--vscode-foreground);
+        font-size: 10px;
+        cursor: pointer;
+        flex-shrink: 0;
+      }
+      .decision[data-rejected="true"] {
+        border-color: var(--vscode-errorForeground);
+        color: var(--vscode-errorForeground);
+      }
+      .file-status {
+        font-size: 11px;
+        color: var(--vscode-errorForeground);
+      }
       .diff-table {
         background: var(--vscode-textCodeBlock-background);
         border-radius: 8px;
@@ -255,6 +365,21 @@ export class DiffWebviewPanel {
       .diff-row.context {
         color: var(--vscode-foreground);
       }
+      .diff-row.rejected {
+        opacity: 0.45;
+        text-decoration: line-through;
+      }
+      .hunk-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 10px;
+        padding: 4px 10px;
+        font-family: var(--vscode-editor-font-family);
+        font-size: 10px;
+        color: var(--vscode-descriptionForeground);
+        border-top: 1px solid var(--vscode-panel-border);
+      }
       .line-number {
         text-align: right;
         color: var(--vscode-descriptionForeground);
@@ -276,9 +401,19 @@ export class DiffWebviewPanel {
       <header>
         <div>
           <div class="title">Diff Preview</div>
-          <div class="subtitle">Review changes from the last task run.</div>
+          <div class="subtitle">Review changes from the last task run and reject hunks to revert them.</div>
+        </div>
+        <div class="summary">
+          <div id="summary"></div>
+          <div class="header-actions">
+            ${
+              canRestore
+                ? `<button type="button" class="restore" id="restore" title="Revert files and conversation to the start of this task">Restore to task start</button>`
+                : ""
+            }
+            <button type="button" class="apply" id="applyReview" title="Keep accepted hunks and revert rejected hunks on disk">Apply review</button>
+          </div>
         </div>
-        <div class="summary" id="summary"></div>
       </header>
       <div class="layout">
         <section class="diff-list" id="diffList"></section>
@@ -300,6 +435,39 @@ export class DiffWebviewPanel {
         : (files[0] ? [files[0].path] : []);
       const state = {
         expanded: new Set(initialExpanded),
+        // Rejected hunk indexes by file path
+        rejected: new Map(),
+        review: null,
+      };
+
+      const getHunks = (file) => (Array.isArray(file.hunks) ? file.hunks : []);
+
+      const isRejected = (filePath, hunkIndex) =>
+        !!state.rejected.get(filePath)?.has(hunkIndex);
+
+      const isFileRejected = (file) => {
+        const hunks = getHunks(file);
+        return hunks.length > 0 && hunks.every((_, index) => isRejected(file.path, index));
+      };
+
+      const toggleHunk = (filePath, hunkIndex) => {
+        const rejected = state.rejected.get(filePath) ?? new Set();
+        if (rejected.has(hunkIndex)) {
+          rejected.delete(hunkIndex);
+        } else {
+          rejected.add(hunkIndex);
+        }
+        state.rejected.set(filePath, rejected);
+        render();
+      };
+
+      const toggleFile = (file) => {
+        if (isFileRejected(file)) {
+          state.rejected.delete(file.path);
+        } else {
+          state.rejected.set(file.path, new Set(getHunks(file).map((_, index) => index)));
+        }
+        render();
       };
 
       const formatDelta = (file) => {
@@ -311,17 +479,56 @@ export class DiffWebviewPanel {
 
       const renderSummary = () => {
         if (!summaryEl) return;
+        if (state.review) {
+          const total = state.review.keptHunks + state.review.rejectedHunks;
+          summaryEl.textContent =
+            "Kept " + state.review.keptHunks + " of " + total + " hunks · reverted " + state.review.rejectedHunks;
+          return;
+        }
         summaryEl.textContent = diff.summary
           ? diff.summary.filesChanged + " files · +" + diff.summary.linesAdded + " -" + diff.summary.linesRemoved
           : "";
       };
 
+      const applyButton = document.getElementById("applyReview");
+      if (applyButton) {
+        applyButton.disabled = files.length === 0;
+        applyButton.addEventListener("click", () => {
+          const decisions = {};
+          state.rejected.forEach((rejected, filePath) => {
+            if (rejected.size > 0) {
+              decisions[filePath] = Array.from(rejected);
+            }
+          });
+          applyButton.disabled = true;
+          vscode.postMessage({ type: "apply_review", decisions });
+        });
+      }
+
+      window.addEventListener("message", (event) => {
+        const message = event.data;
+        if (message?.type !== "review_applied") return;
+        state.review = message.summary;
+        renderSummary();
+        render();
+      });
+
+      const restoreButton = document.getElementById("restore");
+      if (restoreButton) {
+        restoreButton.addEventListener("click", () => {
+          vscode.postMessage({
+            type: "restore_checkpoint",
+            checkpointId: diff.checkpointId,
+          });
+        });
+      }
+
       const openFile = (filePath) => {
         if (!filePath) return;
         vscode.postMessage({ type: "open_file", path: filePath });
       };
 
-      const toggleFile = (filePath) => {
+      const toggleExpanded = (filePath) => {
         if (state.expanded.has(filePath)) {
           state.expanded.delete(filePath);
         } else {
@@ -330,6 +537,29 @@ export class DiffWebviewPanel {
         render();
       };
 
+      const renderHunkHeader = (file, hunk, hunkIndex) => {
+        const header = document.createElement("div");
+        header.className = "hunk-header";
+
+        const range = document.createElement("span");
+        range.textContent =
+          "@@ -" + hunk.oldStart + "," + hunk.oldLines + " +" + hunk.newStart + "," + hunk.newLines + " @@";
+
+        const rejected = isRejected(file.path, hunkIndex);
+        const decision = document.createElement("button");
+        decision.type = "button";
+        decision.className = "decision";
+        decision.dataset.rejected = String(rejected);
+        decision.textContent = rejected ? "Rejected" : "Accepted";
+        decision.title = rejected ? "Keep this hunk" : "Revert this hunk";
+        decision.disabled = !!state.review;
+        decision.addEventListener("click", () => toggleHunk(file.path, hunkIndex));
+
+        header.appendChild(range);
+        header.appendChild(decision);
+        return header;
+      };
+
       const renderDiffTable = (file) => {
         const table = document.createElement("div");
         table.className = "diff-table";
@@ -361,10 +591,21 @@ export class DiffWebviewPanel {
           return table;
         }
 
+        const hunks = getHunks(file);
         const fragment = document.createDocumentFragment();
-        file.lines.forEach((line) => {
+        let hunkIndex = -1;
+        file.lines.forEach((line, index) => {
+          if (hunks[hunkIndex + 1]?.startIndex === index) {
+            hunkIndex += 1;
+            fragment.appendChild(renderHunkHeader(file, hunks[hunkIndex], hunkIndex));
+          }
+
+          const inHunk = hunkIndex >= 0 && index < hunks[hunkIndex].endIndex;
           const row = document.createElement("div");
           row.className = "diff-row " + line.type;
+          if (inHunk && isRejected(file.path, hunkIndex)) {
+            row.classList.add("rejected");
+          }
 
           const oldNumber = document.createElement("div");
           oldNumber.className = "line-number";
@@ -427,7 +668,19 @@ export class DiffWebviewPanel {
 
           infoButton.appendChild(pathSpan);
           infoButton.appendChild(deltaSpan);
-          infoButton.addEventListener("click", () => toggleFile(file.path));
+          infoButton.addEventListener("click", () => toggleExpanded(file.path));
+
+          const fileRejected = isFileRejected(file);
+          const fileDecision = document.createElement("button");
+          fileDecision.type = "button";
+          fileDecision.className = "decision";
+          fileDecision.dataset.rejected = String(fileRejected);
+          fileDecision.textContent = fileRejected ? "Accept file" : "Reject file";
+          fileDecision.title = fileRejected
+            ? "Keep every hunk in this file"
+            : "Revert every hunk in this file";
+          fileDecision.disabled = !!state.review || getHunks(file).length === 0;
+          fileDecision.addEventListener("click", () => toggleFile(file));
 
           const openButton = document.createElement("button");
           openButton.type = "button";
@@ -437,9 +690,18 @@ export class DiffWebviewPanel {
           openButton.addEventListener("click", () => openFile(file.path));
 
           header.appendChild(infoButton);
+          header.appendChild(fileDecision);
           header.appendChild(openButton);
           section.appendChild(header);
 
+          const fileReview = state.review?.files?.find((item) => item.path === file.path);
+          if (fileReview?.error) {
+            const status = document.createElement("div");
+            status.className = "file-status";
+            status.textContent = "Not reverted: " + fileReview.error;
+            section.appendChild(status);
+          }
+
           if (state.expanded.has(file.path)) {
             section.appendChild(renderDiffTable(file));
           }
@@ -31,6 +31,9 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({ usage }) => {
     return `${scaled.toFixed(0)}k`;
   };
 
+  const formatCost = (value: number) =>
+    `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
   const usageLabel =
     limitTokens > 0
       ? `${formatTokensToK(usedTokens)} / ${formatTokensToK(limitTokens)}`
@@ -39,6 +42,21 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({ usage }) => {
     limitTokens > 0
       ? `${usedTokens.toLocaleString()} / ${limitTokens.toLocaleString()} tokens`
       : `${usedTokens.toLocaleString()} tokens used`;
+  const breakdownRows = [
+    { label: "Prompt", value: usage.promptTokens },
+    { label: "Completion", value: usage.completionTokens },
+    { label: "System", value: usage.breakdown?.systemTokens },
+    { label: "Messages", value: usage.breakdown?.messageTokens },
+    { label: "Tool results", value: usage.breakdown?.toolResultTokens },
+  ].filter(
+    (row): row is { label: string; value: number } => row.value !== undefined
+  );
+  const costRows = [
+    { label: "Task cost", value: usage.taskCost },
+    { label: "Conversation cost", value: usage.conversationCost },
+  ].filter(
+    (row): row is { label: string; value: number } => row.value !== undefined
+  );
 
   return (
     <div className="relative group">
@@ -85,6 +103,35 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({ usage }) => {
         <div className="mt-1 text-[11px] text-(--vscode-descriptionForeground)">
           {tooltipLabel}
         </div>
+        {breakdownRows.length > 0 && (
+          <div className="mt-2 flex flex-col gap-0.5 border-t border-(--vscode-panel-border) pt-2 text-[11px]">
+            {breakdownRows.map((row) => (
+              <div key={row.label} className="flex justify-between gap-4">
+                <span className="text-(--vscode-descriptionForeground)">
+                  {row.label}
+                </span>
+                <span>{row.value.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {costRows.length > 0 && (
+          <div className="mt-2 flex flex-col gap-0.5 border-t border-(--vscode-panel-border) pt-2 text-[11px]">
+            {costRows.map((row) => (
+              <div key={row.label} className="flex justify-between gap-4">
+                <span className="text-(--vscode-descriptionForeground)">
+                  {row.label}
+                </span>
+                <span>{formatCost(row.value)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {usage.estimated && (
+          <div className="mt-1 text-[11px] text-(--vscode-descriptionForeground)">
+            Estimated locally
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
 import React from "react";
-import { FileText } from "lucide-react";
+import { FileText, RotateCcw } from "lucide-react";
 import type { TaskDiff } from "code-sidecar-shared/types/messages";
 
 interface DiffPreviewCardProps {
   diff: TaskDiff;
   onSelectFile?: (filePath: string) => void;
+  /** Restore the workspace to the start of the task */
+  onRestore?: () => void;
 }
 
 const formatFileDelta = (added: number, removed: number): string => {
@@ -28,6 +30,7 @@ const MAX_FILES = 6;
 export const DiffPreviewCard: React.FC<DiffPreviewCardProps> = ({
   diff,
   onSelectFile,
+  onRestore,
 }) => {
   const sortedFiles = [...diff.files].sort((a, b) =>
     a.path.localeCompare(b.path)
@@ -51,8 +54,19 @@ export const DiffPreviewCard: React.FC<DiffPreviewCardProps> = ({
         </div>
       </div>
 
-      <div className="text-[11px] text-[var(--vscode-descriptionForeground)]">
-        Click a file to open the diff panel.
+      <div className="flex items-center justify-between gap-3 text-[11px] text-[var(--vscode-descriptionForeground)]">
+        <span>Click a file to open the diff panel.</span>
+        {onRestore && (
+          <button
+            type="button"
+            onClick={onRestore}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-sm text-[var(--vscode-textLink-foreground)] hover:bg-[var(--vscode-list-hoverBackground)] shrink-0"
+            title="Revert files and conversation to the start of this task"
+          >
+            <RotateCcw size={12} strokeWidth={2} />
+            <span>Restore</span>
+          </button>
+        )}
       </div>
 
       <div className="flex flex-col gap-1">
@@ -10,7 +10,9 @@ import {
   Check,
   ChevronDown,
   ChevronRight,
+  CircleDollarSign,
   PenLine,
+  RotateCcw,
   Settings2,
   ShieldAlert,
   Sparkles,
@@ -20,16 +22,32 @@ import {
   X,
   Zap,
 } from "lucide-react";
-import type { DisplayMessage, TaskDiff } from "code-sidecar-shared/types/messages";
+import type {
+  DisplayMessage,
+  PermissionRule,
+  PermissionRuleScope,
+  TaskDiff,
+} from "code-sidecar-shared/types/messages";
 import { ToolCallDisplay } from "./ToolCallDisplay";
 import { useTheme } from "../hooks/useTheme";
 import { DiffPreviewCard } from "./DiffPreviewCard";
 
+/**
+ * Short label of a remembered permission rule, e.g. "execute_command: npm test"
+ */
+const describePermissionRule = (rule: PermissionRule): string =>
+  [rule.tool, rule.command ?? rule.path].filter(Boolean).join(": ");
+
 interface MessageProps {
   message: DisplayMessage;
-  onPermissionResponse?: (requestId: string, approved: boolean) => void;
+  onPermissionResponse?: (
+    requestId: string,
+    approved: boolean,
+    remember?: PermissionRuleScope
+  ) => void;
   suppressCursor?: boolean;
   onSelectDiffFile?: (diff: TaskDiff, filePath: string) => void;
+  onRestoreCheckpoint?: (checkpointId: string) => void;
 }
 
 const TOOL_TAG_NAMES = [
@@ -106,6 +124,7 @@ export const Message: React.FC<MessageProps> = ({
   onPermissionResponse,
   suppressCursor,
   onSelectDiffFile,
+  onRestoreCheckpoint,
 }) => {
   const themeKind = useTheme();
   const [isPermissionExpanded, setIsPermissionExpanded] = React.useState(false);
@@ -120,7 +139,12 @@ export const Message: React.FC<MessageProps> = ({
     isError,
     isStreaming,
     permissionRequest,
+    checkpointId,
   } = message;
+  const handleRestore =
+    checkpointId && onRestoreCheckpoint
+      ? () => onRestoreCheckpoint(checkpointId)
+      : undefined;
   const isPermissionMessage = role === "permission" && !!permissionRequest;
   const isPermissionResponded = isPermissionMessage && content !== "";
   const completionToolCall = toolCalls?.find(
@@ -172,6 +196,8 @@ export const Message: React.FC<MessageProps> = ({
           return <Trash2 size={14} strokeWidth={2} />;
         case "execute":
           return <Zap size={14} strokeWidth={2} />;
+        case "spend":
+          return <CircleDollarSign size={14} strokeWidth={2} />;
         default:
           return <Wrench size={14} strokeWidth={2} />;
       }
@@ -184,6 +210,7 @@ export const Message: React.FC<MessageProps> = ({
           return "var(--vscode-errorForeground)";
         case "write":
         case "modify":
+        case "spend":
           return "var(--vscode-notificationsWarningIcon-foreground)";
         default:
           return "var(--vscode-notificationsInfoIcon-foreground)";
@@ -191,6 +218,7 @@ export const Message: React.FC<MessageProps> = ({
     };
 
     const isResponded = isPermissionResponded;
+    const suggestedRule = permissionRequest.suggestedRule;
     const isApproved = content.toLowerCase().includes("approved");
     const showPermissionDetails =
       !isResponded || isPermissionExpanded || (isResponded && !isApproved);
@@ -354,7 +382,7 @@ export const Message: React.FC<MessageProps> = ({
         )}
 
         {!isResponded && (
-          <div className="flex gap-2 mt-2">
+          <div className="flex flex-wrap gap-2 mt-2">
             <button
               onClick={() =>
                 onPermissionResponse?.(permissionRequest.id, false)
@@ -395,6 +423,40 @@ export const Message: React.FC<MessageProps> = ({
                 <span>Allow</span>
               </span>
             </button>
+            {suggestedRule &&
+              (
+                [
+                  ["session", "Always allow this session"],
+                  ["workspace", "Always allow in workspace"],
+                ] as const
+              ).map(([scope, label]) => (
+                <button
+                  key={scope}
+                  onClick={() =>
+                    onPermissionResponse?.(permissionRequest.id, true, scope)
+                  }
+                  title={`Allow ${describePermissionRule(
+                    suggestedRule
+                  )} without asking${
+                    scope === "workspace"
+                      ? " (saved to the workspace settings)"
+                      : ""
+                  }`}
+                  style={{
+                    backgroundColor:
+                      "var(--vscode-button-secondaryBackground)",
+                    border: "none",
+                    color: "var(--vscode-button-secondaryForeground)",
+                    padding: "4px 10px",
+                    cursor: "pointer",
+                    borderRadius: "4px",
+                    fontSize: "12px",
+                    fontWeight: 500,
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
           </div>
         )}
       </div>
@@ -410,6 +472,11 @@ export const Message: React.FC<MessageProps> = ({
           onSelectFile={(filePath) =>
             onSelectDiffFile?.(diffPreview, filePath)
           }
+          onRestore={
+            diffPreview.checkpointId && onRestoreCheckpoint
+              ? () => onRestoreCheckpoint(diffPreview.checkpointId!)
+              : undefined
+          }
         />
       </div>
     );
@@ -508,7 +575,12 @@ export const Message: React.FC<MessageProps> = ({
 
     return (
       <div className="mb-2">
-        <ToolCallDisplay toolCall={toolCall} result={toolResult} />
+        <ToolCallDisplay
+          toolCall={toolCall}
+          result={toolResult}
+          liveOutput={message.commandOutput}
+          onRestore={handleRestore}
+        />
       </div>
     );
   }
@@ -542,6 +614,17 @@ export const Message: React.FC<MessageProps> = ({
           <span className="opacity-70 ml-auto">
             {message.timestamp.toLocaleTimeString()}
           </span>
+          {role === "user" && handleRestore && (
+            <button
+              type="button"
+              className="inline-flex items-center p-0.5 rounded-sm opacity-70 hover:opacity-100 hover:bg-[var(--vscode-toolbar-hoverBackground)]"
+              onClick={handleRestore}
+              title="Restore files and conversation to before this task"
+              aria-label="Restore checkpoint"
+            >
+              <RotateCcw size={12} strokeWidth={2} />
+            </button>
+          )}
         </div>
       )}
 
@@ -1,7 +1,11 @@
 import React, { useLayoutEffect, useRef } from "react";
 import { MessageSquare } from "lucide-react";
 import { Message } from "./Message";
-import type { DisplayMessage, TaskDiff } from "code-sidecar-shared/types/messages";
+import type {
+  DisplayMessage,
+  PermissionRuleScope,
+  TaskDiff,
+} from "code-sidecar-shared/types/messages";
 import { logger } from "code-sidecar-shared/utils/logger";
 
 const AUTO_SCROLL_THRESHOLD_PX = 32;
@@ -9,8 +13,13 @@ const SCROLL_UP_THRESHOLD_PX = 2;
 
 interface MessageListProps {
   messages: DisplayMessage[];
-  onPermissionResponse?: (requestId: string, approved: boolean) => void;
+  onPermissionResponse?: (
+    requestId: string,
+    approved: boolean,
+    remember?: PermissionRuleScope
+  ) => void;
   onSelectDiffFile?: (diff: TaskDiff, filePath: string) => void;
+  onRestoreCheckpoint?: (checkpointId: string) => void;
 }
 
 /**
@@ -21,6 +30,7 @@ export const MessageList: React.FC<MessageListProps> = ({
   messages,
   onPermissionResponse,
   onSelectDiffFile,
+  onRestoreCheckpoint,
 }) => {
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
   const autoScrollEnabledRef = useRef(true);
@@ -90,6 +100,7 @@ export const MessageList: React.FC<MessageListProps> = ({
           suppressCursor={hasStreamingToolCall}
           onPermissionResponse={onPermissionResponse}
           onSelectDiffFile={onSelectDiffFile}
+          onRestoreCheckpoint={onRestoreCheckpoint}
         />
       ))}
     </div>
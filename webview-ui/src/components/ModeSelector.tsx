@@ -1,18 +1,48 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Check } from "lucide-react";
-import type { WorkMode } from "code-sidecar-shared/types/modes";
+import type { ModeSummary, WorkMode } from "code-sidecar-shared/types/modes";
+import type { ModeModels } from "code-sidecar-shared/types/messages";
 
 interface ModeSelectorProps {
   currentMode: WorkMode;
   onModeChange: (mode: WorkMode) => void;
+  /** Model used by each mode */
+  modeModels?: ModeModels;
+  /** Modes reported by the extension, including custom modes */
+  modes?: ModeSummary[];
 }
 
-interface ModeOption {
-  id: WorkMode;
-  name: string;
-  description: string;
-  icon: React.ReactNode;
-}
+// Built-in modes matching ModeManager.ts, shown until the extension reports its list
+const DEFAULT_MODES: ModeSummary[] = [
+  {
+    id: "architect",
+    name: "Architect",
+    description: "Architecture design and planning",
+    icon: "🏗️",
+    custom: false,
+  },
+  {
+    id: "code",
+    name: "Code",
+    description: "Coding and refactoring",
+    icon: "💻",
+    custom: false,
+  },
+  {
+    id: "ask",
+    name: "Ask",
+    description: "Explanations and documents",
+    icon: "💬",
+    custom: false,
+  },
+  {
+    id: "debug",
+    name: "Debug",
+    description: "Debugging and issue diagnosis",
+    icon: "🐞",
+    custom: false,
+  },
+];
 
 /**
  * ModeSelector component for switching between work modes
@@ -21,39 +51,17 @@ interface ModeOption {
 export const ModeSelector: React.FC<ModeSelectorProps> = ({
   currentMode,
   onModeChange,
+  modeModels = {},
+  modes = DEFAULT_MODES,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Mode definitions matching ModeManager.ts
-  const modes: ModeOption[] = [
-    {
-      id: "architect",
-      name: "Architect",
-      description: "Architecture design and planning",
-      icon: "🏗️",
-    },
-    {
-      id: "code",
-      name: "Code",
-      description: "Coding and refactoring",
-      icon: "💻",
-    },
-    {
-      id: "ask",
-      name: "Ask",
-      description: "Explanations and documents",
-      icon: "💬",
-    },
-    {
-      id: "debug",
-      name: "Debug",
-      description: "Debugging and issue diagnosis",
-      icon: "🐞",
-    },
-  ];
-
-  const currentModeOption = modes.find((m) => m.id === currentMode) || modes[1]; // Default to 'code'
+  const currentModeOption =
+    modes.find((m) => m.id === currentMode) ||
+    modes.find((m) => m.id === "code") ||
+    DEFAULT_MODES[1];
+  const currentModel = modeModels[currentModeOption.id];
 
   /**
    * Handle mode selection
@@ -102,7 +110,11 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
         onClick={toggleDropdown}
         aria-label={`Select work mode (current: ${currentModeOption.name})`}
         aria-expanded={isOpen}
-        title={`${currentModeOption.name} mode`}
+        title={
+          currentModel
+            ? `${currentModeOption.name} mode · ${currentModel}`
+            : `${currentModeOption.name} mode`
+        }
       >
         <span className="text-[14px] leading-none flex-shrink-0 text-(--vscode-foreground)">
           {currentModeOption.icon}
@@ -121,6 +133,7 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
               }`}
               onClick={() => handleModeSelect(mode.id)}
               aria-label={`Switch to ${mode.name} mode`}
+              title={mode.custom ? "Custom mode from .codesidecar/modes" : undefined}
             >
               <span className="text-base leading-none flex-shrink-0 max-[400px]:text-sm text-(--vscode-foreground)">
                 {mode.icon}
@@ -136,6 +149,17 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
                 >
                   {mode.description}
                 </span>
+                {modeModels[mode.id] && (
+                  <span
+                    className={`text-[10px] leading-tight whitespace-nowrap overflow-hidden text-ellipsis font-mono max-[400px]:text-[9px] ${
+                      mode.id === currentMode
+                        ? "text-[var(--vscode-list-activeSelectionForeground)] opacity-80"
+                        : "text-[var(--vscode-descriptionForeground)]"
+                    }`}
+                  >
+                    {modeModels[mode.id]}
+                  </span>
+                )}
               </div>
               {mode.id === currentMode && (
                 <Check
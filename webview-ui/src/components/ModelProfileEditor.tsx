@@ -0,0 +1,233 @@
+import { useFieldArray, type Control } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import type { ConfigFormValues } from "../schemas/config";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Input } from "./ui/input";
+import { Select } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { Button } from "./ui/button";
+
+interface ModelProfileEditorProps {
+  control: Control<ConfigFormValues>;
+  /** Called with the id of a profile right before it is removed */
+  onRemoveProfile: (profileId: string) => void;
+}
+
+const createProfileId = () => `profile-${Date.now().toString(36)}`;
+
+/**
+ * Editor for named model profiles that work modes can be assigned to
+ */
+export const ModelProfileEditor = ({
+  control,
+  onRemoveProfile,
+}: ModelProfileEditorProps) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "profiles",
+    keyName: "fieldKey",
+  });
+
+  const handleAddProfile = () => {
+    append({
+      id: createProfileId(),
+      name: `Profile ${fields.length + 1}`,
+      provider: "openai",
+      baseUrl: "",
+      model: "",
+      apiKey: "",
+      temperature: 0.7,
+      maxTokens: 4096,
+      toolProtocol: "xml",
+    });
+  };
+
+  const handleRemoveProfile = (index: number) => {
+    onRemoveProfile(fields[index].id);
+    remove(index);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {fields.length === 0 && (
+        <p className="text-[12px] text-[var(--vscode-descriptionForeground)]">
+          No profiles yet. Every mode uses the API settings above.
+        </p>
+      )}
+
+      {fields.map((profile, index) => (
+        <div
+          key={profile.fieldKey}
+          className="rounded-xl border border-[var(--vscode-panel-border)] px-4 py-3"
+        >
+          <div className="flex items-start gap-2">
+            <FormField
+              control={control}
+              name={`profiles.${index}.name`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Profile Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Fast" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-6"
+              onClick={() => handleRemoveProfile(index)}
+              aria-label="Remove profile"
+              title="Remove profile"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+
+          <FormField
+            control={control}
+            name={`profiles.${index}.provider`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Provider</FormLabel>
+                <FormControl>
+                  <Select {...field}>
+                    <option value="openai">OpenAI Compatible</option>
+                    <option value="anthropic">Anthropic</option>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name={`profiles.${index}.baseUrl`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Base URL</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://api.openai.com/v1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name={`profiles.${index}.model`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Model Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="gpt-4" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name={`profiles.${index}.apiKey`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>API Key</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="sk-..." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex gap-3">
+            <FormField
+              control={control}
+              name={`profiles.${index}.temperature`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Temperature</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={0.1}
+                      min={0}
+                      max={2}
+                      placeholder="0.7"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`profiles.${index}.maxTokens`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Max Tokens</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="4096"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={control}
+            name={`profiles.${index}.toolProtocol`}
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-3 py-2">
+                <div className="flex-1">
+                  <FormLabel className="font-normal">
+                    Native Tool Calling
+                  </FormLabel>
+                  <FormDescription>
+                    Use the model's function calling instead of XML tool tags.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value === "native"}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked ? "native" : "xml")
+                    }
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+      ))}
+
+      <div>
+        <Button type="button" variant="secondary" onClick={handleAddProfile}>
+          <Plus size={14} />
+          Add Profile
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -6,12 +6,28 @@ import {
   ChevronDown,
   ChevronRight,
   Code2,
+  Crosshair,
+  FileDiff,
   FileText,
   Folder,
+  Hash,
+  Hourglass,
+  Info,
+  Keyboard,
+  Lightbulb,
+  Link2,
+  Network,
   PenLine,
+  Play,
   PlusSquare,
+  RotateCcw,
+  ScanSearch,
+  ScrollText,
   Search,
+  Square,
   Terminal,
+  TextCursorInput,
+  WandSparkles,
   Wrench,
   X,
 } from "lucide-react";
@@ -24,6 +40,10 @@ import type { ToolUse, ToolResult } from "code-sidecar-shared/types/tools";
 interface ToolCallDisplayProps {
   toolCall: ToolUse;
   result?: ToolResult;
+  /** Output of the command while it runs */
+  liveOutput?: string;
+  /** Restore the workspace to before this tool call */
+  onRestore?: () => void;
 }
 
 /**
@@ -35,11 +55,26 @@ const getToolIcon = (toolName: string): React.ReactNode => {
     write_file: <PenLine size={14} strokeWidth={1.9} />,
     list_directory: <Folder size={14} strokeWidth={1.9} />,
     search_files: <Search size={14} strokeWidth={1.9} />,
+    search_codebase: <ScanSearch size={14} strokeWidth={1.9} />,
     execute_command: <Terminal size={14} strokeWidth={1.9} />,
     get_diagnostics: <Activity size={14} strokeWidth={1.9} />,
     apply_diff: <FileText size={14} strokeWidth={1.9} />,
+    apply_patch: <FileDiff size={14} strokeWidth={1.9} />,
     insert_content: <PlusSquare size={14} strokeWidth={1.9} />,
     list_code_definition_names: <Code2 size={14} strokeWidth={1.9} />,
+    find_symbol: <Hash size={14} strokeWidth={1.9} />,
+    go_to_definition: <Crosshair size={14} strokeWidth={1.9} />,
+    find_references: <Link2 size={14} strokeWidth={1.9} />,
+    get_hover_info: <Info size={14} strokeWidth={1.9} />,
+    get_call_hierarchy: <Network size={14} strokeWidth={1.9} />,
+    rename_symbol: <TextCursorInput size={14} strokeWidth={1.9} />,
+    get_code_actions: <Lightbulb size={14} strokeWidth={1.9} />,
+    apply_code_action: <WandSparkles size={14} strokeWidth={1.9} />,
+    start_process: <Play size={14} strokeWidth={1.9} />,
+    read_process_output: <ScrollText size={14} strokeWidth={1.9} />,
+    wait_for_process_output: <Hourglass size={14} strokeWidth={1.9} />,
+    send_process_input: <Keyboard size={14} strokeWidth={1.9} />,
+    stop_process: <Square size={14} strokeWidth={1.9} />,
     attempt_completion: <Check size={14} strokeWidth={2.2} />,
   };
 
@@ -164,12 +199,16 @@ const ToolParamValue: React.FC<ToolParamValueProps> = ({
 export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
   toolCall,
   result,
+  liveOutput,
+  onRestore,
 }) => {
   const [isExpanded, setIsExpanded] = useState(!!toolCall.partial);
   const icon = getToolIcon(toolCall.name);
   const isError = result?.is_error || false;
+  const isBlocked = result?.error?.code === "command_blocked";
   const hasResult = !!result;
   const isStreaming = !!toolCall.partial;
+  const isRunning = !hasResult && !isStreaming && !!liveOutput;
   const paramEntries = Object.entries(toolCall.params);
   const streamingParamKey =
     isStreaming && paramEntries.length > 0
@@ -182,6 +221,12 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
     }
   }, [hasResult, isStreaming]);
 
+  React.useEffect(() => {
+    if (isRunning) {
+      setIsExpanded(true);
+    }
+  }, [isRunning]);
+
   return (
     <div className="rounded-md overflow-hidden bg-[var(--vscode-editor-background)] shadow-[0_3px_10px_rgba(0,0,0,0.1)]">
       <div
@@ -213,6 +258,11 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
                 Streaming
               </span>
             )}
+            {isRunning && (
+              <span className="text-[10px] uppercase tracking-wide text-[var(--vscode-descriptionForeground)]">
+                Running
+              </span>
+            )}
           </div>
           <div className="text-[11px] text-[var(--vscode-descriptionForeground)] truncate">
             {formatParamSummary(toolCall.params)}
@@ -232,10 +282,27 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
               ) : (
                 <Check size={11} strokeWidth={2.2} />
               )}
-              <span>{isError ? "Error" : "Success"}</span>
+              <span>
+                {isBlocked ? "Blocked" : isError ? "Error" : "Success"}
+              </span>
             </span>
           </span>
         )}
+        {onRestore && (
+          <button
+            type="button"
+            className="inline-flex items-center p-0.5 rounded-sm text-[var(--vscode-descriptionForeground)] hover:text-[var(--vscode-foreground)] hover:bg-[var(--vscode-toolbar-hoverBackground)] flex-shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRestore();
+            }}
+            onKeyDown={(e) => e.stopPropagation()}
+            title="Restore files and conversation to before this tool call"
+            aria-label="Restore checkpoint"
+          >
+            <RotateCcw size={12} strokeWidth={2} />
+          </button>
+        )}
         {isExpanded ? (
           <ChevronDown
             size={12}
@@ -287,6 +354,23 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
             </div>
           </div>
 
+          {/* Live output while the command runs */}
+          {isRunning && (
+            <div>
+              <div className="text-[11px] font-semibold text-[var(--vscode-descriptionForeground)] mb-1 uppercase tracking-wide">
+                Output:
+              </div>
+              <div className="bg-[var(--vscode-textCodeBlock-background)] rounded p-2">
+                <ToolParamValue
+                  value={liveOutput}
+                  isStreaming
+                  autoScroll
+                  showCursor={false}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Result (if available) */}
           {result && (
             <div>
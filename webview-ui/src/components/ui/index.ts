@@ -1,6 +1,7 @@
 export { Button, buttonVariants } from "./button";
 export { Input } from "./input";
 export { Label } from "./label";
+export { Select } from "./select";
 export { Switch } from "./switch";
 export {
   AlertDialog,
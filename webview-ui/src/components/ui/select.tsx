@@ -0,0 +1,32 @@
+import * as React from "react";
+import { cn } from "../../utils/utils";
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface SelectProps
+  extends React.SelectHTMLAttributes<HTMLSelectElement> {}
+
+const Select = React.forwardRef<HTMLSelectElement, SelectProps>(
+  ({ className, children, ...props }, ref) => {
+    return (
+      <select
+        className={cn(
+          "flex w-full px-2 py-1.5 text-[13px]",
+          "text-[var(--vscode-dropdown-foreground)] bg-[var(--vscode-dropdown-background)]",
+          "border border-[var(--vscode-dropdown-border,var(--vscode-panel-border))] rounded-sm",
+          "outline-none transition-colors cursor-pointer",
+          "hover:border-[var(--vscode-inputOption-activeBorder,var(--vscode-focusBorder))]",
+          "focus-visible:border-[var(--vscode-focusBorder)]",
+          "disabled:opacity-50 disabled:cursor-not-allowed",
+          className
+        )}
+        ref={ref}
+        {...props}
+      >
+        {children}
+      </select>
+    );
+  }
+);
+Select.displayName = "Select";
+
+export { Select };
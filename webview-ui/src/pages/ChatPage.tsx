@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { MessageList } from "../components/MessageList";
 import { InputBox } from "../components/InputBox";
 import { ModeSelector } from "../components/ModeSelector";
@@ -11,7 +11,10 @@ import type {
   ToolResult,
   WorkMode,
   TokenUsageSnapshot,
+  ModeModels,
+  ModeSummary,
   PermissionRequestWithId,
+  PermissionRuleScope,
   TaskDiff,
 } from "code-sidecar-shared/types/messages";
 import { vscode } from "../utils/vscode";
@@ -19,6 +22,51 @@ import { logger } from "code-sidecar-shared/utils/logger";
 import { useEvent } from "react-use";
 import { ContextPanel } from "../components/ContextPanel";
 
+/** Characters of live command output kept per tool call */
+const MAX_LIVE_OUTPUT_CHARS = 20000;
+
+/**
+ * Append live command output to the running tool call
+ */
+const appendCommandOutput = (
+  messages: DisplayMessage[],
+  output: Extract<WebviewMessage, { type: "command_output" }>
+): DisplayMessage[] => {
+  let targetIndex = -1;
+  if (output.toolCallId) {
+    targetIndex = messages.findIndex(
+      (msg) =>
+        msg.toolCalls && msg.toolCalls.some((tc) => tc.id === output.toolCallId)
+    );
+  } else {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i];
+      if (
+        msg.toolCalls &&
+        msg.toolCalls.some((tc) => tc.name === output.toolName) &&
+        !msg.toolResults
+      ) {
+        targetIndex = i;
+        break;
+      }
+    }
+  }
+
+  if (targetIndex < 0) {
+    return messages;
+  }
+
+  const newMessages = [...messages];
+  const target = newMessages[targetIndex];
+  newMessages[targetIndex] = {
+    ...target,
+    commandOutput: ((target.commandOutput ?? "") + output.chunk).slice(
+      -MAX_LIVE_OUTPUT_CHARS
+    ),
+  };
+  return newMessages;
+};
+
 interface ChatPageProps {
   isActive: boolean;
   onOpenConfig: () => void;
@@ -28,6 +76,8 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
   const [messages, setMessages] = useState<DisplayMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentMode, setCurrentMode] = useState<WorkMode>("code");
+  const [modeModels, setModeModels] = useState<ModeModels>({});
+  const [modes, setModes] = useState<ModeSummary[]>();
   const [inputValue, setInputValue] = useState<string>("");
   const [tokenUsage, setTokenUsage] = useState<TokenUsageSnapshot | null>(null);
 
@@ -49,6 +99,10 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
         handleToolResult(message.content);
         break;
 
+      case "command_output":
+        setMessages((prev) => appendCommandOutput(prev, message));
+        break;
+
       case "error":
         handleError(message.message);
         break;
@@ -67,6 +121,15 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
         logger.debug("Mode changed to:", message.mode);
         break;
 
+      case "mode_models":
+        setModeModels(message.models);
+        break;
+
+      case "mode_list":
+        setModes(message.modes);
+        setCurrentMode(message.currentMode);
+        break;
+
       case "conversation_cleared":
         // Handle conversation cleared confirmation from extension
         handleConversationCleared();
@@ -95,6 +158,78 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
       case "token_usage":
         setTokenUsage(message.usage);
         break;
+
+      case "checkpoint_created":
+        // Attach the checkpoint to the message it was taken before
+        setMessages((prev) => {
+          const { checkpoint } = message;
+          let targetIndex = -1;
+          for (let i = prev.length - 1; i >= 0; i--) {
+            const msg = prev[i];
+            if (msg.checkpointId) {
+              continue;
+            }
+            const isTarget =
+              checkpoint.kind === "task_start"
+                ? msg.role === "user"
+                : msg.toolCalls?.some((toolCall) =>
+                    checkpoint.toolCallId
+                      ? toolCall.id === checkpoint.toolCallId
+                      : toolCall.name === checkpoint.toolName
+                  );
+            if (isTarget) {
+              targetIndex = i;
+              break;
+            }
+          }
+
+          if (targetIndex < 0) {
+            return prev;
+          }
+          return prev.map((msg, index) =>
+            index === targetIndex
+              ? { ...msg, checkpointId: checkpoint.id }
+              : msg
+          );
+        });
+        break;
+
+      case "context_compacted":
+        // Let the user know older turns were summarized
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `msg-${Date.now()}`,
+            role: "system",
+            content: `Context compacted: ${message.summarizedMessages} earlier messages were summarized to stay within the context window.`,
+            timestamp: new Date(),
+          },
+        ]);
+        break;
+
+      case "diff_review_applied": {
+        // Report which hunks were kept after the user reviewed the task diff
+        const { summary } = message;
+        const total = summary.keptHunks + summary.rejectedHunks;
+        const fileLines = summary.files.map((file) =>
+          file.error
+            ? `- ${file.path}: not reverted (${file.error})`
+            : `- ${file.path}: kept ${file.keptHunks} of ${file.keptHunks + file.rejectedHunks} hunks`
+        );
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `msg-${Date.now()}`,
+            role: "system",
+            content: [
+              `Diff review applied: kept ${summary.keptHunks} of ${total} hunks, reverted ${summary.rejectedHunks}.`,
+              ...fileLines,
+            ].join("\n"),
+            timestamp: new Date(),
+          },
+        ]);
+        break;
+      }
     }
   }, []);
 
@@ -383,11 +518,16 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
   /**
    * Handle permission response
    */
-  const handlePermissionResponse = (requestId: string, approved: boolean) => {
+  const handlePermissionResponse = (
+    requestId: string,
+    approved: boolean,
+    remember?: PermissionRuleScope
+  ) => {
     vscode.postMessage({
       type: "permission_response",
       requestId: requestId,
       approved: approved,
+      remember,
     });
 
     // Update the message to show it's been responded to
@@ -414,11 +554,20 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
     []
   );
 
+  const handleRestoreCheckpoint = useCallback((checkpointId: string) => {
+    vscode.postMessage({ type: "restore_checkpoint", checkpointId });
+  }, []);
+
   /**
    * Set up message listener and load conversation history
    */
   useEvent("message", handleExtensionMessage);
 
+  useEffect(() => {
+    vscode.postMessage({ type: "get_modes" });
+    vscode.postMessage({ type: "get_mode_models" });
+  }, []);
+
   return (
     <div style={{ display: isActive ? "block" : "none" }}>
       <div className="flex flex-col h-screen w-full bg-[var(--vscode-sideBar-background)]">
@@ -463,6 +612,7 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
               messages={messages}
               onPermissionResponse={handlePermissionResponse}
               onSelectDiffFile={handleDiffFileSelect}
+              onRestoreCheckpoint={handleRestoreCheckpoint}
             />
           </div>
 
@@ -479,6 +629,8 @@ export const ChatPage = ({ isActive, onOpenConfig }: ChatPageProps) => {
                 <ModeSelector
                   currentMode={currentMode}
                   onModeChange={handleModeChange}
+                  modeModels={modeModels}
+                  modes={modes}
                 />
               }
             />
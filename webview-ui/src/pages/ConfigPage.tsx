@@ -4,7 +4,7 @@
  */
 
 import { useEffect, useCallback, useState, useRef } from "react";
-import { useForm, useFormState } from "react-hook-form";
+import { useForm, useFormState, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Check, X } from "lucide-react";
 import { configSchema, type ConfigFormValues } from "../schemas/config";
@@ -13,6 +13,7 @@ import type {
   ConfigMessage,
   ConfigResponse,
 } from "code-sidecar-shared/types/messages";
+import type { BuiltInWorkMode } from "code-sidecar-shared/types/modes";
 import {
   Form,
   FormField,
@@ -23,10 +24,19 @@ import {
   FormDescription,
 } from "../components/ui/form";
 import { Input } from "../components/ui/input";
+import { Select } from "../components/ui/select";
+import { ModelProfileEditor } from "../components/ModelProfileEditor";
 import { Switch } from "../components/ui/switch";
 import { Button } from "../components/ui/button";
 import { UnsavedChangesDialog } from "../components/ui/unsaved-changes-dialog";
 
+const WORK_MODES: { id: BuiltInWorkMode; name: string }[] = [
+  { id: "architect", name: "Architect" },
+  { id: "code", name: "Code" },
+  { id: "ask", name: "Ask" },
+  { id: "debug", name: "Debug" },
+];
+
 interface ConfigPageProps {
   isActive: boolean;
   onBack: () => void;
@@ -51,21 +61,35 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
     mode: "onChange",
     defaultValues: {
       api: {
+        provider: "openai",
         baseUrl: "",
         model: "",
         apiKey: "",
         temperature: 0.7,
         maxTokens: 4096,
+        toolProtocol: "xml",
       },
+      profiles: [],
+      modeProfiles: {},
       permissions: {
         allowReadByDefault: true,
         allowWriteByDefault: false,
         allowExecuteByDefault: false,
+        stageEdits: false,
+      },
+      advanced: {
+        maxLoopCount: 10,
+        maxParallelToolCalls: 4,
+        contextWindowSize: 8192,
+        compaction: { enabled: true, threshold: 0.8, keepRecentTurns: 4 },
+        cost: { spendCap: 0 },
       },
-      advanced: { maxLoopCount: 10, contextWindowSize: 8192 },
     },
   });
   const { isDirty } = useFormState({ control: form.control });
+  const provider = useWatch({ control: form.control, name: "api.provider" });
+  const isAnthropic = provider === "anthropic";
+  const profiles = useWatch({ control: form.control, name: "profiles" });
 
   /**
    * Handle messages from extension
@@ -124,11 +148,13 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
    */
   const handleTestConnection = async () => {
     const isValid = await form.trigger([
+      "api.provider",
       "api.baseUrl",
       "api.model",
       "api.apiKey",
       "api.temperature",
       "api.maxTokens",
+      "api.toolProtocol",
     ]);
     if (!isValid) return;
 
@@ -141,6 +167,17 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
     postMessage(message);
   };
 
+  /**
+   * Reset modes that use a profile which is being removed
+   */
+  const handleRemoveProfile = (profileId: string) => {
+    for (const { id } of WORK_MODES) {
+      if (form.getValues(`modeProfiles.${id}`) === profileId) {
+        form.setValue(`modeProfiles.${id}`, undefined, { shouldDirty: true });
+      }
+    }
+  };
+
   const handleBackClick = () => {
     if (isSaving) {
       setPendingBack(true);
@@ -185,6 +222,23 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
         <section className="rounded-2xl bg-[var(--vscode-editor-background)] px-5 py-5 shadow-[0_8px_22px_rgba(0,0,0,0.12)]">
           <h2 className="text-base font-semibold mb-3">API Settings</h2>
 
+          <FormField
+            control={form.control}
+            name="api.provider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Provider</FormLabel>
+                <FormControl>
+                  <Select {...field}>
+                    <option value="openai">OpenAI Compatible</option>
+                    <option value="anthropic">Anthropic</option>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="api.baseUrl"
@@ -192,7 +246,14 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
               <FormItem>
                 <FormLabel>Base URL</FormLabel>
                 <FormControl>
-                  <Input placeholder="https://api.openai.com/v1" {...field} />
+                  <Input
+                    placeholder={
+                      isAnthropic
+                        ? "https://api.anthropic.com"
+                        : "https://api.openai.com/v1"
+                    }
+                    {...field}
+                  />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -206,7 +267,10 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
               <FormItem>
                 <FormLabel>Model Name</FormLabel>
                 <FormControl>
-                  <Input placeholder="gpt-4" {...field} />
+                  <Input
+                    placeholder={isAnthropic ? "claude-sonnet-4-5" : "gpt-4"}
+                    {...field}
+                  />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -266,6 +330,79 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="api.toolProtocol"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-3 py-3">
+                <div className="flex-1">
+                  <FormLabel className="font-normal">
+                    Native Tool Calling
+                  </FormLabel>
+                  <FormDescription>
+                    Use the model's function calling instead of XML tool tags.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value === "native"}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked ? "native" : "xml")
+                    }
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </section>
+
+        {/* Model Profiles */}
+        <section className="rounded-2xl bg-[var(--vscode-editor-background)] px-5 py-5 shadow-[0_8px_22px_rgba(0,0,0,0.12)]">
+          <h2 className="text-base font-semibold mb-1">Model Profiles</h2>
+          <FormDescription className="mb-4">
+            Save other models as named profiles and pick one for each mode.
+          </FormDescription>
+
+          <ModelProfileEditor
+            control={form.control}
+            onRemoveProfile={handleRemoveProfile}
+          />
+
+          <h3 className="text-sm font-semibold mt-6 mb-2">Mode Models</h3>
+          {WORK_MODES.map((mode) => (
+            <FormField
+              key={mode.id}
+              control={form.control}
+              name={`modeProfiles.${mode.id}`}
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-3">
+                  <FormLabel className="flex-1 font-normal">
+                    {mode.name}
+                  </FormLabel>
+                  <FormControl>
+                    <Select
+                      className="max-w-[220px]"
+                      name={field.name}
+                      ref={field.ref}
+                      onBlur={field.onBlur}
+                      value={field.value ?? ""}
+                      onChange={(event) =>
+                        field.onChange(event.target.value || undefined)
+                      }
+                    >
+                      <option value="">Default API settings</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name || profile.id}
+                        </option>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
         </section>
 
         {/* Permission Settings */}
@@ -317,7 +454,7 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
               control={form.control}
               name="permissions.allowExecuteByDefault"
               render={({ field }) => (
-                <FormItem className="flex items-center justify-between py-3">
+                <FormItem className="flex items-center justify-between py-3 border-b border-[var(--vscode-panel-border)]">
                   <FormLabel className="flex-1 font-normal">
                     Allow Execute by Default
                   </FormLabel>
@@ -330,6 +467,24 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="permissions.stageEdits"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between py-3">
+                  <FormLabel className="flex-1 font-normal">
+                    Stage Edits for Review
+                  </FormLabel>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
           </div>
         </section>
 
@@ -355,6 +510,30 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="advanced.maxParallelToolCalls"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Parallel Tool Calls</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={16}
+                    placeholder="4"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Read-only tools such as read_file run concurrently up to this
+                  limit. Edits and commands always run one at a time.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="advanced.contextWindowSize"
@@ -373,6 +552,91 @@ export const ConfigPage = ({ isActive, onBack }: ConfigPageProps) => {
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="advanced.compaction.enabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-3 py-3">
+                <div className="flex-1">
+                  <FormLabel className="font-normal">
+                    Auto Compact Context
+                  </FormLabel>
+                  <FormDescription>
+                    Summarize older turns when a task nears the context window.
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <div className="flex gap-3">
+            <FormField
+              control={form.control}
+              name="advanced.compaction.threshold"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Compaction Threshold</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={0.05}
+                      min={0.1}
+                      max={1}
+                      placeholder="0.8"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="advanced.compaction.keepRecentTurns"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Recent Turns Kept</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} placeholder="4" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="advanced.cost.spendCap"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Spend Cap (USD)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={0.5}
+                    min={0}
+                    placeholder="0"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Ask before requests that would push a conversation past this
+                  amount, and again each time spending grows by it. 0 disables the
+                  cap. Model prices are set in codeSidecar.cost.modelPrices.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </section>
 
         {/* Actions */}
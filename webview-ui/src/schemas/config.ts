@@ -4,6 +4,7 @@ import { z } from "zod";
  * API configuration schema with validation
  */
 export const apiConfigSchema = z.object({
+  provider: z.enum(["openai", "anthropic"]),
   baseUrl: z
     .string()
     .min(1, "URL is required")
@@ -22,8 +23,30 @@ export const apiConfigSchema = z.object({
     .number()
     .int("Must be an integer")
     .min(1, "Must be at least 1"),
+  toolProtocol: z.enum(["xml", "native"]),
 });
 
+/**
+ * Named model profile schema
+ */
+export const modelProfileSchema = apiConfigSchema.extend({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Profile name is required"),
+});
+
+/**
+ * Profile id per work mode; empty means the default API settings.
+ * Entries of custom modes are kept so saving does not drop them.
+ */
+export const modeProfilesSchema = z
+  .object({
+    architect: z.string().optional(),
+    code: z.string().optional(),
+    ask: z.string().optional(),
+    debug: z.string().optional(),
+  })
+  .catchall(z.string().optional());
+
 /**
  * Permissions configuration schema
  */
@@ -31,6 +54,7 @@ export const permissionsSchema = z.object({
   allowReadByDefault: z.boolean(),
   allowWriteByDefault: z.boolean(),
   allowExecuteByDefault: z.boolean(),
+  stageEdits: z.boolean(),
 });
 
 /**
@@ -41,10 +65,29 @@ export const advancedSchema = z.object({
     .number()
     .int("Must be an integer")
     .min(1, "Must be at least 1"),
+  maxParallelToolCalls: z.coerce
+    .number()
+    .int("Must be an integer")
+    .min(1, "Must be at least 1")
+    .max(16, "Must be at most 16"),
   contextWindowSize: z.coerce
     .number()
     .int("Must be an integer")
     .min(1, "Must be at least 1"),
+  compaction: z.object({
+    enabled: z.boolean(),
+    threshold: z.coerce
+      .number()
+      .min(0.1, "Must be at least 0.1")
+      .max(1, "Must be at most 1"),
+    keepRecentTurns: z.coerce
+      .number()
+      .int("Must be an integer")
+      .min(1, "Must be at least 1"),
+  }),
+  cost: z.object({
+    spendCap: z.coerce.number().min(0, "Must be at least 0"),
+  }),
 });
 
 /**
@@ -52,6 +95,8 @@ export const advancedSchema = z.object({
  */
 export const configSchema = z.object({
   api: apiConfigSchema,
+  profiles: z.array(modelProfileSchema),
+  modeProfiles: modeProfilesSchema,
   permissions: permissionsSchema,
   advanced: advancedSchema,
 });